@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Multicall3
+ * @notice Aggregates multiple read calls into a single eth_call
+ * @dev Interface-compatible subset of the canonical Multicall3
+ *      (0xcA11bde05977b3631167028862bE2a173976CA11). Only needed on chains
+ *      where the canonical deployment is missing, e.g. a local Hardhat node.
+ */
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    /**
+     * @notice Execute calls, optionally tolerating individual failures
+     * @param calls The calls to execute
+     * @return returnData One result per call, in order
+     */
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        uint256 length = calls.length;
+        returnData = new Result[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            Call3 calldata call = calls[i];
+            Result memory result = returnData[i];
+
+            (result.success, result.returnData) = call.target.call(call.callData);
+
+            if (!result.success && !call.allowFailure) {
+                revert("Multicall3: call failed");
+            }
+        }
+    }
+
+    /**
+     * @notice Get the current block number
+     */
+    function getBlockNumber() external view returns (uint256 blockNumber) {
+        blockNumber = block.number;
+    }
+
+    /**
+     * @notice Get the current block timestamp
+     */
+    function getCurrentBlockTimestamp() external view returns (uint256 timestamp) {
+        timestamp = block.timestamp;
+    }
+
+    /**
+     * @notice Get the native balance of an address
+     */
+    function getEthBalance(address addr) external view returns (uint256 balance) {
+        balance = addr.balance;
+    }
+}
@@ -0,0 +1,18 @@
+const { buildModule } = require("@nomicfoundation/hardhat-ignition/modules");
+
+/**
+ * Multicall3 Deployment Module
+ *
+ * Monad Testnet already has the canonical Multicall3 at
+ * 0xcA11bde05977b3631167028862bE2a173976CA11. Deploy this module on chains
+ * that lack it (e.g. a local Hardhat node) and point the frontend's
+ * NEXT_PUBLIC_CONTRACT_MULTICALL3 at the resulting address.
+ *
+ * Deploy with:
+ *   npx hardhat ignition deploy ignition/modules/Multicall.js --network localhost
+ */
+module.exports = buildModule("Multicall", (m) => {
+  const multicall3 = m.contract("Multicall3");
+
+  return { multicall3 };
+});
@@ -640,4 +640,58 @@ describe("Bread-it Protocol", function () {
       expect(karmaAfter).to.be.lessThan(karmaBefore);
     });
   });
+
+  // ═══════════════════════════════════════════════════════════
+  // MULTICALL TESTS
+  // ═══════════════════════════════════════════════════════════
+
+  describe("Multicall3", function () {
+    async function multicallFixture() {
+      const contracts = await loadFixture(registeredUsersFixture);
+      const Multicall3 = await ethers.getContractFactory("Multicall3");
+      const multicall = await Multicall3.deploy();
+      await multicall.waitForDeployment();
+      return { ...contracts, multicall };
+    }
+
+    it("Should batch reads into a single call", async function () {
+      const { multicall, userRegistry, user1, user2 } = await loadFixture(multicallFixture);
+      const target = await userRegistry.getAddress();
+
+      const results = await multicall.aggregate3.staticCall([
+        [target, false, userRegistry.interface.encodeFunctionData("getUserKarma", [user1.address])],
+        [target, false, userRegistry.interface.encodeFunctionData("isRegistered", [user2.address])],
+      ]);
+
+      expect(results[0].success).to.be.true;
+      expect(userRegistry.interface.decodeFunctionResult("getUserKarma", results[0].returnData)[0])
+        .to.equal(await userRegistry.getUserKarma(user1.address));
+      expect(userRegistry.interface.decodeFunctionResult("isRegistered", results[1].returnData)[0])
+        .to.be.true;
+    });
+
+    it("Should isolate failing calls when failure is allowed", async function () {
+      const { multicall, userRegistry, user1, deployer } = await loadFixture(multicallFixture);
+      const target = await userRegistry.getAddress();
+
+      const results = await multicall.aggregate3.staticCall([
+        [target, true, userRegistry.interface.encodeFunctionData("getUser", [deployer.address])],
+        [target, true, userRegistry.interface.encodeFunctionData("isRegistered", [user1.address])],
+      ]);
+
+      expect(results[0].success).to.be.false;
+      expect(results[1].success).to.be.true;
+    });
+
+    it("Should revert when a required call fails", async function () {
+      const { multicall, userRegistry, deployer } = await loadFixture(multicallFixture);
+      const target = await userRegistry.getAddress();
+
+      await expect(
+        multicall.aggregate3.staticCall([
+          [target, false, userRegistry.interface.encodeFunctionData("getUser", [deployer.address])],
+        ])
+      ).to.be.revertedWith("Multicall3: call failed");
+    });
+  });
 });
@@ -0,0 +1,144 @@
+/**
+ * ABI Drift Check for Bread-it
+ *
+ * Verifies that every entry in src/config/abis.ts still matches the compiled
+ * Hardhat artifacts, so the typed bindings in src/types/contracts.ts can't
+ * silently describe functions, structs, events or errors the contracts no
+ * longer have.
+ *
+ * Run after compiling the contracts:
+ *   (cd ../contracts && npx hardhat compile)
+ *   npm run check:abis
+ *
+ * Set ARTIFACTS_DIR to check against artifacts in a different location.
+ */
+
+import { readFileSync, existsSync, readdirSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { Fragment } from 'ethers';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const artifactsDir = resolve(
+  process.env.ARTIFACTS_DIR || join(root, '..', 'contracts', 'artifacts', 'contracts')
+);
+
+// ═══════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Evaluate abis.ts (plain data, no imports) without a TS toolchain at runtime
+ */
+function loadFrontendAbis() {
+  const source = readFileSync(join(root, 'src', 'config', 'abis.ts'), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const exports = {};
+  new Function('exports', outputText)(exports);
+  return exports;
+}
+
+/**
+ * Find <Name>.sol/<Name>.json anywhere under the artifacts (libraries live
+ * in a subdirectory)
+ */
+function findArtifact(dir, contractName) {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const path = join(dir, entry.name);
+    if (entry.name === `${contractName}.sol`) {
+      const artifact = join(path, `${contractName}.json`);
+      if (existsSync(artifact)) return artifact;
+    }
+    const nested = findArtifact(path, contractName);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function loadArtifactAbi(contractName) {
+  const path = findArtifact(artifactsDir, contractName);
+  return path ? JSON.parse(readFileSync(path, 'utf8')).abi : null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// COMPARISON
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Canonical description of the parts of a fragment the frontend relies on.
+ * Input names are ignored (calls are positional); output, struct field and
+ * event argument names are kept because the UI reads values by name.
+ */
+function describe(json) {
+  const fragment = Fragment.from(json);
+  switch (fragment.type) {
+    case 'function':
+      return [
+        fragment.format('sighash'),
+        fragment.stateMutability,
+        `returns (${fragment.outputs.map((p) => p.format('full')).join(', ')})`,
+      ].join(' ');
+    case 'event':
+    case 'error':
+      return fragment.format('full');
+    default:
+      return fragment.format('sighash');
+  }
+}
+
+function checkContract(exportName, frontendAbi) {
+  const contractName = exportName.replace(/ABI$/, '');
+  const artifactAbi = loadArtifactAbi(contractName);
+  if (!artifactAbi) {
+    return [`${contractName}: no artifact found in ${artifactsDir}`];
+  }
+
+  const compiled = new Map();
+  for (const entry of artifactAbi) {
+    if (!['function', 'event', 'error'].includes(entry.type)) continue;
+    const key = `${entry.type} ${entry.name}`;
+    compiled.set(key, [...(compiled.get(key) ?? []), describe(entry)]);
+  }
+
+  const problems = [];
+  for (const entry of frontendAbi) {
+    const key = `${entry.type} ${entry.name}`;
+    const candidates = compiled.get(key);
+    const expected = describe(entry);
+
+    if (!candidates) {
+      problems.push(`${contractName}: ${key} does not exist in the compiled contract`);
+    } else if (!candidates.includes(expected)) {
+      problems.push(
+        `${contractName}: ${key} has drifted\n` +
+          `    abis.ts:  ${expected}\n` +
+          candidates.map((c) => `    artifact: ${c}`).join('\n')
+      );
+    }
+  }
+  return problems;
+}
+
+// ═══════════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════════
+
+if (!existsSync(artifactsDir)) {
+  console.error(`Artifacts not found at ${artifactsDir}. Run \`npx hardhat compile\` in contracts/ first.`);
+  process.exit(1);
+}
+
+const abis = loadFrontendAbis();
+const problems = Object.entries(abis).flatMap(([name, abi]) => checkContract(name, abi));
+
+if (problems.length > 0) {
+  console.error(`ABI drift detected (${problems.length}):\n`);
+  problems.forEach((problem) => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+
+console.log(`ABIs match the compiled artifacts (${Object.keys(abis).length} contracts).`);
@@ -1,11 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { useWeb3 } from '@/context/Web3Context';
 import Link from 'next/link';
 import clsx from 'clsx';
-import { useVote, useCommentReplies } from '@/hooks/useContracts';
+import { useVote, useCreateComment, useNextCommentTime, usePost } from '@/hooks/useContracts';
+import { useCommentTree } from '@/hooks/useCommentTree';
+import { useSecondsUntil } from '@/hooks/useNow';
+import { NewContentBanner } from '@/components/NewContentBanner';
+import { useVoteState } from '@/hooks/useVoteState';
+import { VoteStakePopover } from '@/components/VoteStakePopover';
+import { VotingWindowBadge } from '@/components/VotingWindowBadge';
+import { ModeratorMenu } from '@/components/ModeratorMenu';
+import { FlaggedBadge, RemovedNotice } from '@/components/ContentStatus';
+import { ReportDialog } from '@/components/ReportDialog';
+import { CONTENT_STATUS, isRemoved, type StatusChange } from '@/utils/moderation';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import { COMMENT_SORTS, toNode, type CommentNode, type CommentSort } from '@/utils/commentTree';
+import { formatDuration } from '@/utils/time';
 
 export interface CommentData {
   id: bigint;
@@ -16,34 +29,127 @@ export interface CommentData {
   score: bigint;
   createdAt: bigint;
   status: number;
+  pending?: boolean;
+}
+
+/**
+ * Submit comments and keep optimistic copies until the transaction confirms
+ */
+function useOptimisticComments(postId: bigint, parentId: bigint) {
+  const { address } = useWeb3();
+  const { createComment } = useCreateComment();
+  const [comments, setComments] = useState<CommentData[]>([]);
+
+  const submit = async (content: string) => {
+    const tempId = -BigInt(Date.now());
+    const optimistic: CommentData = {
+      id: tempId,
+      postId,
+      parentId,
+      author: address || '',
+      content,
+      score: 0n,
+      createdAt: BigInt(Math.floor(Date.now() / 1000)),
+      status: 0,
+      pending: true,
+    };
+    setComments((prev) => [optimistic, ...prev]);
+
+    try {
+      const commentId = await createComment(postId, parentId, content);
+      setComments((prev) =>
+        prev.map((c) => (c.id === tempId ? { ...c, id: commentId || tempId, pending: false } : c))
+      );
+    } catch (err) {
+      setComments((prev) => prev.filter((c) => c.id !== tempId));
+      throw err;
+    }
+  };
+
+  return { comments, submit };
+}
+
+/**
+ * Local comments the loaded tree doesn't have yet; once a reload picks a
+ * confirmed comment up, the tree's copy is the one rendered
+ */
+function withoutLoaded(local: CommentData[], nodes: CommentNode[]): CommentData[] {
+  if (local.length === 0) return local;
+  const loaded = new Set(nodes.map((node) => node.comment.id));
+  return local.filter((comment) => !loaded.has(comment.id));
+}
+
+/**
+ * Live "comment again in" message, or null once the cooldown is over
+ */
+function useCooldownMessage(nextCommentTime: number | null): string | null {
+  const remaining = useSecondsUntil(nextCommentTime);
+  return remaining > 0 ? `You can comment again in ${formatDuration(remaining)}` : null;
 }
 
 interface CommentProps {
-  comment: CommentData;
+  node: CommentNode;
   depth?: number;
   maxDepth?: number;
+  /** The viewer's comment cooldown, read once by CommentSection */
+  nextCommentTime?: number | null;
+  onLoadMoreReplies?: (node: CommentNode, depth: number) => Promise<void>;
 }
 
-export function Comment({ comment, depth = 0, maxDepth = 6 }: CommentProps) {
+export function Comment({
+  node,
+  depth = 0,
+  maxDepth = 6,
+  nextCommentTime = null,
+  onLoadMoreReplies,
+}: CommentProps) {
+  const { comment } = node;
   const { address, isConnected } = useWeb3();
-  const { vote, isPending, userVote } = useVote(comment.id, false);
-  const { data: replies } = useCommentReplies(comment.id);
+  const contentId = comment.pending ? 0n : comment.id;
+  const { vote, estimate, isPending } = useVote(contentId, false);
+  const { voteType: userVote, canChange, titleFor } = useVoteState(contentId, false, comment.createdAt);
+  const { comments: localReplies, submit: submitReply } = useOptimisticComments(comment.postId, comment.id);
+  const { data: post } = usePost(comment.postId);
   
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [showReplyForm, setShowReplyForm] = useState(false);
   const [optimisticScore, setOptimisticScore] = useState<number | null>(null);
   const [optimisticVote, setOptimisticVote] = useState<'up' | 'down' | null>(null);
+  const [confirmingVote, setConfirmingVote] = useState<'up' | 'down' | null>(null);
+  const [loadingReplies, setLoadingReplies] = useState(false);
+  const [statusChange, setStatusChange] = useState<StatusChange | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
 
   const displayScore = optimisticScore !== null ? optimisticScore : Number(comment.score);
   const currentVote = optimisticVote || (userVote === 1 ? 'up' : userVote === 2 ? 'down' : null);
+  const closeStakePicker = useCallback(() => setConfirmingVote(null), []);
+  const closeReport = useCallback(() => setIsReporting(false), []);
+  const unloadedReplies = node.replyIds.length - node.children.length;
+  const atMaxDepth = depth + 1 >= maxDepth;
 
-  const handleVote = async (voteType: 'up' | 'down') => {
-    if (!isConnected || isPending) return;
+  const handleLoadMoreReplies = async () => {
+    if (!onLoadMoreReplies || loadingReplies) return;
+    setLoadingReplies(true);
+    try {
+      await onLoadMoreReplies(node, depth);
+    } finally {
+      setLoadingReplies(false);
+    }
+  };
+
+  const handleVote = (voteType: 'up' | 'down') => {
+    // A vote can be switched but not retracted, so re-clicking it does nothing;
+    // the arrow's tooltip explains a locked vote
+    if (!isConnected || isPending || comment.pending || currentVote === voteType || !canChange) return;
+
+    setConfirmingVote(voteType);
+  };
 
+  const submitVote = async (voteType: 'up' | 'down', stake: bigint) => {
+    setConfirmingVote(null);
     const isUpvote = voteType === 'up';
     
-    if (currentVote === voteType) return;
-    
     const scoreDelta = isUpvote ? 
       (currentVote === 'down' ? 2 : 1) : 
       (currentVote === 'up' ? -2 : -1);
@@ -52,22 +158,29 @@ export function Comment({ comment, depth = 0, maxDepth = 6 }: CommentProps) {
     setOptimisticVote(voteType);
 
     try {
-      await vote(isUpvote ? 1 : 2);
+      await vote(isUpvote ? 1 : 2, stake);
     } catch (error) {
       setOptimisticScore(null);
       setOptimisticVote(null);
     }
   };
 
-  const isHidden = comment.status === 1;
+  const status = statusChange?.newStatus ?? comment.status;
+  const isHidden = isRemoved(status);
+  // Removed comments collapse to a placeholder but keep their replies
+  const showBody = !isHidden || revealed;
 
-  if (isHidden) {
-    return (
-      <div className={clsx('py-2 text-gray-500 italic text-sm', depth > 0 && 'ml-4 pl-4 border-l border-gray-300')}>
-        [This comment has been hidden by moderators]
-      </div>
-    );
-  }
+  const moderatorMenu = !comment.pending && (
+    <ModeratorMenu
+      contentId={comment.id}
+      isPost={false}
+      subredditId={post?.subredditId}
+      status={status}
+      lastChange={statusChange}
+      onStatusChange={setStatusChange}
+      buttonClassName="hover:text-white"
+    />
+  );
 
   const depthColors = [
     'border-bread-500',
@@ -79,90 +192,185 @@ export function Comment({ comment, depth = 0, maxDepth = 6 }: CommentProps) {
   ];
 
   return (
-    <div className={clsx(depth > 0 && 'ml-4 pl-4 border-l', depthColors[depth % depthColors.length])}>
-      {/* Comment Header */}
-      <div className="flex items-center gap-2 text-xs text-gray-600 py-2">
-        <button
-          onClick={() => setIsCollapsed(!isCollapsed)}
-          className="hover:text-gray-800 font-medium"
+    <div
+      className={clsx(
+        depth > 0 && 'ml-4 pl-4 border-l',
+        depthColors[depth % depthColors.length],
+        comment.pending && 'opacity-60'
+      )}
+    >
+      {isHidden && (
+        <RemovedNotice
+          contentId={comment.id}
+          isPost={false}
+          revealed={revealed}
+          onToggle={() => setRevealed(!revealed)}
+          className="py-2"
         >
-          [{isCollapsed ? '+' : '−'}]
-        </button>
-        <Link href={`/u/${comment.author}`} className="text-bread-600 hover:underline font-medium">
-          {comment.author.slice(0, 6)}...{comment.author.slice(-4)}
-        </Link>
-        <span>•</span>
-        <span className={clsx(
-          'font-medium',
-          displayScore > 0 ? 'text-bread-500' : displayScore < 0 ? 'text-red-500' : ''
-        )}>
-          {displayScore} points
-        </span>
-        <span>•</span>
-        <span>{formatDistanceToNow(new Date(Number(comment.createdAt) * 1000))} ago</span>
-      </div>
+          {!revealed && moderatorMenu}
+        </RemovedNotice>
+      )}
+
+      {/* Comment Header */}
+      {showBody && (
+        <div className="flex items-center gap-2 text-xs text-gray-600 py-2">
+          <button
+            onClick={() => setIsCollapsed(!isCollapsed)}
+            className="hover:text-gray-800 font-medium"
+          >
+            [{isCollapsed ? '+' : '−'}]
+          </button>
+          <Link href={`/u/${comment.author}`} className="text-bread-600 hover:underline font-medium">
+            {comment.author.slice(0, 6)}...{comment.author.slice(-4)}
+          </Link>
+          <span>•</span>
+          <span className={clsx(
+            'font-medium',
+            displayScore > 0 ? 'text-bread-500' : displayScore < 0 ? 'text-red-500' : ''
+          )}>
+            {displayScore} points
+          </span>
+          <span>•</span>
+          <span>{formatDistanceToNow(new Date(Number(comment.createdAt) * 1000))} ago</span>
+          {comment.pending && <span className="italic">posting…</span>}
+          {status === CONTENT_STATUS.FLAGGED && <FlaggedBadge />}
+          {!comment.pending && <VotingWindowBadge createdAt={comment.createdAt} archivedOnly />}
+        </div>
+      )}
 
       {/* Comment Content */}
       {!isCollapsed && (
         <>
-          <div className="text-gray-700 py-1 whitespace-pre-wrap leading-relaxed">
-            {comment.content}
-          </div>
+          {showBody && (
+            <>
+              <div className="text-gray-700 py-1 whitespace-pre-wrap leading-relaxed">
+                {comment.content}
+              </div>
 
-          {/* Actions */}
-          <div className="flex items-center gap-3 text-xs text-gray-400 py-2">
-            <div className="flex items-center gap-1">
-              <button
-                onClick={() => handleVote('up')}
-                disabled={isPending || !isConnected}
-                className={clsx(
-                  'hover:text-bread-500',
-                  currentVote === 'up' && 'text-bread-500'
-                )}
-              >
-                ▲
-              </button>
-              <button
-                onClick={() => handleVote('down')}
-                disabled={isPending || !isConnected}
-                className={clsx(
-                  'hover:text-blue-500',
-                  currentVote === 'down' && 'text-blue-500'
+              {/* Actions */}
+              <div className="flex items-center gap-3 text-xs text-gray-400 py-2">
+                <div className="relative flex items-center gap-1">
+                  <button
+                    onClick={() => handleVote('up')}
+                    disabled={isPending || !isConnected || (currentVote !== 'up' && !canChange)}
+                    title={titleFor(1)}
+                    className={clsx(
+                      'hover:text-bread-500',
+                      currentVote === 'up' && 'text-bread-500'
+                    )}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => handleVote('down')}
+                    disabled={isPending || !isConnected || (currentVote !== 'down' && !canChange)}
+                    title={titleFor(2)}
+                    className={clsx(
+                      'hover:text-blue-500',
+                      currentVote === 'down' && 'text-blue-500'
+                    )}
+                  >
+                    ▼
+                  </button>
+
+                  {confirmingVote && (
+                    <VoteStakePopover
+                      voteType={confirmingVote === 'up' ? 1 : 2}
+                      isChange={currentVote !== null}
+                      onConfirm={(stake) => submitVote(confirmingVote, stake)}
+                      onEstimate={(stake) => estimate(confirmingVote === 'up' ? 1 : 2, stake)}
+                      onCancel={closeStakePicker}
+                      className="left-0 top-full mt-1"
+                    />
+                  )}
+                </div>
+
+                <button
+                  onClick={() => setShowReplyForm(!showReplyForm)}
+                  className="hover:text-white"
+                >
+                  Reply
+                </button>
+
+                <button className="hover:text-white">Share</button>
+                
+                {!comment.pending && (
+                  <div className="relative">
+                    <button onClick={() => setIsReporting(true)} className="hover:text-red-400 text-red-400">
+                      Report
+                    </button>
+
+                    {isReporting && (
+                      <ReportDialog
+                        contentId={comment.id}
+                        isPost={false}
+                        subredditId={post?.subredditId}
+                        author={comment.author}
+                        onClose={closeReport}
+                        className="left-0 top-full mt-1"
+                      />
+                    )}
+                  </div>
                 )}
-              >
-                ▼
-              </button>
-            </div>
 
-            <button
-              onClick={() => setShowReplyForm(!showReplyForm)}
-              className="hover:text-white"
-            >
-              Reply
-            </button>
+                {moderatorMenu}
+              </div>
 
-            <button className="hover:text-white">Share</button>
-            
-            <button className="hover:text-red-400 text-red-400">Report</button>
-          </div>
+              {/* Reply Form */}
+              {showReplyForm && depth < maxDepth && !comment.pending && (
+                <CommentReplyForm
+                  onSubmit={submitReply}
+                  nextCommentTime={nextCommentTime}
+                  onSuccess={() => setShowReplyForm(false)}
+                  onCancel={() => setShowReplyForm(false)}
+                />
+              )}
+            </>
+          )}
 
-          {/* Reply Form */}
-          {showReplyForm && depth < maxDepth && (
-            <CommentReplyForm
-              postId={comment.postId}
-              parentId={comment.id}
-              onSuccess={() => setShowReplyForm(false)}
-              onCancel={() => setShowReplyForm(false)}
+          {/* Replies posted in this session */}
+          {withoutLoaded(localReplies, node.children).map((reply) => (
+            <Comment
+              key={reply.id.toString()}
+              node={toNode(reply)}
+              depth={depth + 1}
+              maxDepth={maxDepth}
+              nextCommentTime={nextCommentTime}
             />
-          )}
+          ))}
 
           {/* Nested Replies */}
-          {replies && replies.length > 0 && (
-            <div className="mt-2">
-              <div className="text-sm text-gray-500 pl-4">
-                {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
-              </div>
-              {/* Note: Need to fetch individual comment data for each reply ID */}
+          {node.children.map((child) => (
+            <Comment
+              key={child.comment.id.toString()}
+              node={child}
+              depth={depth + 1}
+              maxDepth={maxDepth}
+              nextCommentTime={nextCommentTime}
+              onLoadMoreReplies={onLoadMoreReplies}
+            />
+          ))}
+
+          {unloadedReplies > 0 && (
+            <div className="ml-4 pl-4 py-1 text-xs">
+              {atMaxDepth ? (
+                <Link
+                  href={`/post/${comment.postId}?comment=${comment.id}`}
+                  className="text-bread-600 hover:underline font-medium"
+                >
+                  Continue this thread →
+                </Link>
+              ) : (
+                <button
+                  onClick={handleLoadMoreReplies}
+                  disabled={loadingReplies}
+                  className="text-bread-600 hover:underline font-medium"
+                >
+                  {loadingReplies
+                    ? 'Loading...'
+                    : `Load ${unloadedReplies} more ${unloadedReplies === 1 ? 'reply' : 'replies'}`}
+                </button>
+              )}
             </div>
           )}
         </>
@@ -173,13 +381,14 @@ export function Comment({ comment, depth = 0, maxDepth = 6 }: CommentProps) {
 
 // Reply Form Component
 interface CommentReplyFormProps {
-  postId: bigint;
-  parentId: bigint;
+  onSubmit: (content: string) => Promise<void>;
+  nextCommentTime: number | null;
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
-function CommentReplyForm({ postId, parentId, onSuccess, onCancel }: CommentReplyFormProps) {
+function CommentReplyForm({ onSubmit, nextCommentTime, onSuccess, onCancel }: CommentReplyFormProps) {
+  const cooldownMessage = useCooldownMessage(nextCommentTime);
   const [content, setContent] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -192,12 +401,7 @@ function CommentReplyForm({ postId, parentId, onSuccess, onCancel }: CommentRepl
     setError(null);
 
     try {
-      // This would call the contract
-      // await createComment(postId, parentId, content);
-      
-      // For now, just simulate success
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      await onSubmit(content);
       setContent('');
       onSuccess?.();
     } catch (err: any) {
@@ -214,12 +418,15 @@ function CommentReplyForm({ postId, parentId, onSuccess, onCancel }: CommentRepl
         onChange={(e) => setContent(e.target.value)}
         placeholder="What are your thoughts?"
         className="textarea-field h-24 text-sm"
-        maxLength={10000}
+        maxLength={PROTOCOL_CONSTANTS.MAX_COMMENT_LENGTH}
       />
       
       {error && (
         <p className="text-red-400 text-xs mt-1">{error}</p>
       )}
+      {cooldownMessage && (
+        <p className="text-gray-500 text-xs mt-1">{cooldownMessage}</p>
+      )}
       
       <div className="flex justify-end gap-2 mt-2">
         <button
@@ -231,7 +438,7 @@ function CommentReplyForm({ postId, parentId, onSuccess, onCancel }: CommentRepl
         </button>
         <button
           type="submit"
-          disabled={isSubmitting || !content.trim()}
+          disabled={isSubmitting || !content.trim() || !!cooldownMessage}
           className="btn-primary text-sm py-1 px-3"
         >
           {isSubmitting ? 'Posting...' : 'Reply'}
@@ -241,70 +448,162 @@ function CommentReplyForm({ postId, parentId, onSuccess, onCancel }: CommentRepl
   );
 }
 
-// Comment Section for Post
-interface CommentSectionProps {
-  postId: bigint;
-  comments?: CommentData[];
+// New Comment Form Component; kept apart so the cooldown's ticking doesn't
+// re-render the whole thread
+interface NewCommentFormProps {
+  onSubmit: (content: string) => Promise<void>;
+  nextCommentTime: number | null;
 }
 
-export function CommentSection({ postId, comments = [] }: CommentSectionProps) {
-  const { isConnected } = useWeb3();
+function NewCommentForm({ onSubmit, nextCommentTime }: NewCommentFormProps) {
+  const cooldownMessage = useCooldownMessage(nextCommentTime);
   const [newComment, setNewComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleSubmitComment = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim()) return;
 
     setIsSubmitting(true);
+    setError(null);
     try {
-      // This would call the contract
-      // await createComment(postId, 0, newComment);
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await onSubmit(newComment);
       setNewComment('');
-    } catch (error) {
-      console.error('Failed to post comment:', error);
+    } catch (err: any) {
+      console.error('Failed to post comment:', err);
+      setError(err.message || 'Failed to post comment');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  return (
+    <form onSubmit={handleSubmitComment} className="mb-6">
+      <p className="text-sm text-gray-400 mb-2">Comment as you</p>
+      <textarea
+        value={newComment}
+        onChange={(e) => setNewComment(e.target.value)}
+        placeholder="What are your thoughts?"
+        className="textarea-field h-24"
+        maxLength={PROTOCOL_CONSTANTS.MAX_COMMENT_LENGTH}
+      />
+      {error && (
+        <p className="text-red-500 text-sm mt-1">{error}</p>
+      )}
+      {cooldownMessage && (
+        <p className="text-gray-500 text-sm mt-1">{cooldownMessage}</p>
+      )}
+      <div className="flex justify-end mt-2">
+        <button
+          type="submit"
+          disabled={isSubmitting || !newComment.trim() || !!cooldownMessage}
+          className="btn-primary"
+        >
+          {isSubmitting ? 'Posting...' : 'Comment'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Comment Section for Post
+interface CommentSectionProps {
+  postId: bigint;
+  /** Show only the thread rooted at this comment */
+  rootCommentId?: bigint;
+}
+
+export function CommentSection({ postId, rootCommentId }: CommentSectionProps) {
+  const { address, isConnected } = useWeb3();
+  const [sortBy, setSortBy] = useState<CommentSort>('best');
+  const {
+    nodes,
+    hasMoreComments,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMoreComments,
+    loadMoreReplies,
+    refetch,
+    newCommentCount,
+    showNewComments,
+  } = useCommentTree(postId, { rootCommentId, sort: sortBy });
+  const { comments: localComments, submit } = useOptimisticComments(postId, 0n);
+  const { data: nextCommentTime } = useNextCommentTime(address || undefined);
+  const allComments = [...withoutLoaded(localComments, nodes).map(toNode), ...nodes];
+
   return (
     <div className="mt-4">
-      {/* Comment Input */}
-      {isConnected && (
-        <form onSubmit={handleSubmitComment} className="mb-6">
-          <p className="text-sm text-gray-400 mb-2">Comment as you</p>
-          <textarea
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="What are your thoughts?"
-            className="textarea-field h-24"
-          />
-          <div className="flex justify-end mt-2">
-            <button
-              type="submit"
-              disabled={isSubmitting || !newComment.trim()}
-              className="btn-primary"
-            >
-              {isSubmitting ? 'Posting...' : 'Comment'}
-            </button>
-          </div>
-        </form>
+      {/* Thread View Notice */}
+      {rootCommentId && (
+        <div className="mb-4 text-sm">
+          <span className="text-gray-500">You are viewing a single comment&apos;s thread. </span>
+          <Link href={`/post/${postId}`} className="text-bread-600 hover:underline font-medium">
+            View all comments
+          </Link>
+        </div>
       )}
 
+      {/* Comment Input */}
+      {isConnected && !rootCommentId && <NewCommentForm onSubmit={submit} nextCommentTime={nextCommentTime} />}
+
+      {/* Sort Options */}
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        <span className="text-gray-500">Sort by:</span>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as CommentSort)}
+          className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-gray-700 capitalize"
+        >
+          {COMMENT_SORTS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Comments List */}
+      <NewContentBanner count={newCommentCount} noun="comment" onShow={showNewComments} />
       <div className="space-y-2">
-        {comments.length === 0 ? (
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse h-16 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+            <p className="text-sm text-red-800">Couldn&apos;t load comments: {error.message}</p>
+            <button onClick={refetch} className="btn-secondary text-sm">
+              Try again
+            </button>
+          </div>
+        ) : allComments.length === 0 ? (
           <p className="text-gray-400 text-center py-8">
             No comments yet. Be the first to share your thoughts!
           </p>
         ) : (
-          comments.map((comment) => (
-            <Comment key={comment.id.toString()} comment={comment} />
+          allComments.map((node) => (
+            <Comment
+              key={node.comment.id.toString()}
+              node={node}
+              nextCommentTime={nextCommentTime}
+              onLoadMoreReplies={loadMoreReplies}
+            />
           ))
         )}
+
+        {hasMoreComments && !isLoading && !error && (
+          <button
+            onClick={loadMoreComments}
+            disabled={isLoadingMore}
+            className="btn-secondary w-full text-sm"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more comments'}
+          </button>
+        )}
       </div>
     </div>
   );
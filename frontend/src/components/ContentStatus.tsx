@@ -0,0 +1,70 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { useLatestModerationAction } from '@/hooks/useContracts';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+
+interface RemovedNoticeProps {
+  contentId: bigint;
+  isPost: boolean;
+  /** Whether the removed content is currently shown below the notice */
+  revealed: boolean;
+  onToggle: () => void;
+  /** Extra controls on the notice's row, e.g. the moderator menu */
+  children?: ReactNode;
+  className?: string;
+}
+
+/**
+ * Collapsed placeholder for content moderators removed, with an opt-in
+ * reveal. The mod log's reason is only read once the reader asks for it.
+ */
+export function RemovedNotice({ contentId, isPost, revealed, onToggle, children, className }: RemovedNoticeProps) {
+  const { data: action, isLoading } = useLatestModerationAction(contentId, isPost, revealed);
+
+  return (
+    <div className={clsx('text-sm text-gray-500', className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="italic">[removed by moderators]</span>
+        <button type="button" onClick={onToggle} className="text-xs text-bread-600 hover:underline">
+          {revealed ? 'Collapse' : 'Show anyway'}
+        </button>
+        {children}
+      </div>
+      {revealed && (
+        <p className="mt-1 text-xs text-gray-500">
+          {isLoading && action === undefined ? (
+            'Looking up the reason…'
+          ) : action ? (
+            <>
+              Reason: {action.reason || <em>none given</em>} · by{' '}
+              <Link href={`/u/${action.moderator}`} className="hover:underline">
+                {action.moderator.slice(0, 6)}...{action.moderator.slice(-4)}
+              </Link>{' '}
+              {formatDistanceToNow(new Date(Number(action.timestamp) * 1000))} ago
+            </>
+          ) : (
+            'No moderator action is recorded for this content.'
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Marks content that reached the report threshold and awaits review
+ */
+export function FlaggedBadge({ className }: { className?: string }) {
+  return (
+    <span
+      className={clsx('rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-700', className)}
+      title={`Reported ${PROTOCOL_CONSTANTS.REPORTS_FOR_AUTO_REVIEW} or more times; waiting for a moderator`}
+    >
+      ⚠️ Flagged for review
+    </span>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import clsx from 'clsx';
+import { formatEther } from 'ethers';
+import { monadTestnet } from '@/config/contracts';
+import type { CostEstimate as Estimate } from '@/utils/gas';
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+interface CostEstimateProps {
+  estimate: Estimate | null;
+  isLoading: boolean;
+  error: Error | null;
+  /** What the attached value pays for, e.g. "Creation fee" or "Stake" */
+  valueLabel?: string;
+  className?: string;
+}
+
+/**
+ * Short ether amount for display (up to 6 decimals, never rounded to zero)
+ */
+function formatAmount(wei: bigint): string {
+  if (wei === 0n) return '0';
+  const [whole, fraction = ''] = formatEther(wei).split('.');
+  const trimmed = fraction.slice(0, 6).replace(/0+$/, '');
+  if (whole === '0' && !trimmed) return '< 0.000001';
+  return trimmed ? `${whole}.${trimmed}` : whole;
+}
+
+/**
+ * Breakdown of what a write will cost, with a warning when the wallet's
+ * balance doesn't cover it
+ */
+export function CostEstimate({ estimate, isLoading, error, valueLabel = 'Value', className }: CostEstimateProps) {
+  if (error) {
+    return (
+      <p className={clsx('text-xs text-red-600', className)}>
+        This transaction would fail: {error.message}
+      </p>
+    );
+  }
+  if (!estimate) {
+    return isLoading ? (
+      <p className={clsx('text-xs text-gray-400', className)}>Estimating cost…</p>
+    ) : null;
+  }
+
+  const shortfall = estimate.total - estimate.balance;
+
+  return (
+    <div className={clsx('space-y-1 text-xs text-gray-600', className)}>
+      {estimate.value > 0n && (
+        <div className="flex justify-between">
+          <span>{valueLabel}</span>
+          <span>
+            {formatAmount(estimate.value)} {symbol}
+          </span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span>Network fee (max)</span>
+        <span>{estimate.gasLimit === null ? '—' : `${formatAmount(estimate.gasCost)} ${symbol}`}</span>
+      </div>
+      <div className="flex justify-between border-t border-gray-100 pt-1 font-medium text-gray-800">
+        <span>Total</span>
+        <span>
+          {formatAmount(estimate.total)} {symbol}
+          {estimate.gasLimit === null && ' + fee'}
+        </span>
+      </div>
+      <div className="flex justify-between text-gray-400">
+        <span>Your balance</span>
+        <span>
+          {formatAmount(estimate.balance)} {symbol}
+        </span>
+      </div>
+      {!estimate.isAffordable && (
+        <p className="font-medium text-red-600">
+          Insufficient balance
+          {shortfall > 0n && `: you need ${formatAmount(shortfall)} ${symbol} more`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { useWeb3 } from '@/context/Web3Context';
 import { useUserProfile } from '@/hooks/useContracts';
+import { TransactionHistory } from '@/components/Transactions';
 import { monadTestnet } from '@/config/contracts';
 
 export function Header() {
@@ -45,6 +46,17 @@ export function Header() {
               </div>
             )}
             
+            {isConnected && (
+              <Link
+                href="/stakes"
+                className="hidden md:block text-sm font-medium text-gray-600 hover:text-bread-600 transition-colors"
+              >
+                Stakes
+              </Link>
+            )}
+
+            {isConnected && <TransactionHistory />}
+
             <Link
               href="/submit"
               className="btn-primary hidden md:block"
@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { useWeb3 } from '@/context/Web3Context';
+import { useIsModerator, useModerateContent } from '@/hooks/useContracts';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import { CONTENT_STATUS, CONTENT_STATUS_LABELS, type ModeratorAction, type StatusChange } from '@/utils/moderation';
+
+const ACTION_LABELS: Record<ModeratorAction, string> = {
+  hide: 'Hide',
+  hideAndSlash: 'Hide and slash karma',
+  unhide: 'Unhide',
+};
+
+const ACTION_HINTS: Record<ModeratorAction, string> = {
+  hide: 'Hide it from everyone right away',
+  hideAndSlash: `Hide it and give its author ${PROTOCOL_CONSTANTS.KARMA_PENALTY_CONTENT_HIDDEN} karma`,
+  unhide: 'Make it visible again',
+};
+
+interface ModeratorMenuProps {
+  contentId: bigint;
+  isPost: boolean;
+  subredditId: bigint | undefined;
+  /** Current ContentStatus; decides which actions are offered */
+  status: number;
+  /** Shown next to the toggle; the card keeps it so it survives hiding */
+  lastChange?: StatusChange | null;
+  /** Called with the emitted status change once an action is confirmed */
+  onStatusChange?: (change: StatusChange) => void;
+  className?: string;
+  /** Styles the toggle to match the surrounding action row */
+  buttonClassName?: string;
+}
+
+/**
+ * Direct moderator actions on a post or comment. Renders nothing unless the
+ * connected wallet moderates the content's community.
+ */
+export function ModeratorMenu({
+  contentId,
+  isPost,
+  subredditId,
+  status,
+  lastChange,
+  onStatusChange,
+  className,
+  buttonClassName = 'flex items-center gap-1.5 hover:bg-gray-100 px-3 py-1.5 rounded-lg transition-colors',
+}: ModeratorMenuProps) {
+  const { address } = useWeb3();
+  const { data: isModerator } = useIsModerator(address || undefined, subredditId);
+  const { moderate, isPending, error } = useModerateContent(contentId, isPost);
+  const [isOpen, setIsOpen] = useState(false);
+  const [action, setAction] = useState<ModeratorAction | null>(null);
+  const [reason, setReason] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setAction(null);
+    setReason('');
+  }, []);
+
+  // Close on outside click or Escape, unless a transaction is in flight
+  useEffect(() => {
+    if (!isOpen || isPending) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) close();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, isPending, close]);
+
+  if (!isModerator) return null;
+
+  const actions: ModeratorAction[] = [
+    ...(status !== CONTENT_STATUS.HIDDEN ? (['hide', 'hideAndSlash'] as const) : []),
+    ...(status !== CONTENT_STATUS.VISIBLE ? (['unhide'] as const) : []),
+  ];
+
+  const handleConfirm = async () => {
+    if (!action || !reason.trim()) return;
+    try {
+      const change = await moderate(action, reason);
+      if (change) onStatusChange?.(change);
+      close();
+    } catch (err) {
+      console.error('Moderator action failed:', err);
+    }
+  };
+
+  return (
+    <div ref={ref} className={clsx('relative inline-flex items-center gap-2', className)}>
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className={buttonClassName}
+        title="Moderator actions"
+      >
+        🛡️ Mod
+      </button>
+
+      {lastChange && (
+        <span className="text-xs text-gray-500">
+          {CONTENT_STATUS_LABELS[lastChange.oldStatus] ?? 'Unknown'} →{' '}
+          <span className="font-medium text-gray-700">{CONTENT_STATUS_LABELS[lastChange.newStatus] ?? 'Unknown'}</span>
+          {lastChange.reason && `: ${lastChange.reason}`}
+        </span>
+      )}
+
+      {isOpen && (
+        <div
+          role="dialog"
+          className="absolute left-0 top-full z-40 mt-1 w-72 rounded-xl border border-gray-200 bg-white p-4 text-left text-sm shadow-lg"
+        >
+          {action === null ? (
+            <ul className="space-y-1">
+              {actions.map((option) => (
+                <li key={option}>
+                  <button
+                    type="button"
+                    onClick={() => setAction(option)}
+                    className={clsx(
+                      'w-full rounded-lg px-3 py-2 text-left transition-colors hover:bg-gray-50',
+                      option === 'unhide' ? 'text-gray-800' : 'text-red-600'
+                    )}
+                  >
+                    <span className="block font-medium">{ACTION_LABELS[option]}</span>
+                    <span className="block text-xs text-gray-500">{ACTION_HINTS[option]}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              <h3 className="font-semibold text-gray-800 mb-1">
+                {ACTION_LABELS[action]} this {isPost ? 'post' : 'comment'}
+              </h3>
+              <p className="text-xs text-gray-500 mb-3">{ACTION_HINTS[action]}</p>
+
+              <label className="block text-xs text-gray-500 mb-1">Reason (recorded on-chain)</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                className="textarea-field w-full"
+                disabled={isPending}
+                autoFocus
+              />
+              {error && <p className="mt-1 text-xs text-red-600">{error.message}</p>}
+
+              <div className="mt-4 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setAction(null)}
+                  disabled={isPending}
+                  className="btn-secondary text-xs disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirm}
+                  disabled={isPending || !reason.trim()}
+                  className="btn-primary text-xs disabled:opacity-50"
+                >
+                  {isPending ? 'Confirming…' : ACTION_LABELS[action]}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+interface NewContentBannerProps {
+  count: number;
+  /** Singular, e.g. "post" */
+  noun: string;
+  onShow: () => void;
+}
+
+/**
+ * Floating "N new posts" prompt: new content is only merged into a list when
+ * the reader asks, so it never reshuffles under them
+ */
+export function NewContentBanner({ count, noun, onShow }: NewContentBannerProps) {
+  if (count <= 0) return null;
+
+  return (
+    <div className="sticky top-20 z-30 flex justify-center">
+      <button
+        type="button"
+        onClick={onShow}
+        className="rounded-full bg-bread-500 px-4 py-1.5 text-sm font-semibold text-white shadow-md transition-all hover:bg-bread-600"
+      >
+        ↑ {count} new {noun}
+        {count === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
 import { useWeb3 } from '@/context/Web3Context';
 import { useVote, useUserProfile } from '@/hooks/useContracts';
 import { IPFS_CONFIG } from '@/config/contracts';
+import { VoteStakePopover } from '@/components/VoteStakePopover';
+import { useVoteState } from '@/hooks/useVoteState';
+import { useVotingWindow } from '@/hooks/useVotingWindow';
+import { VotingWindowBadge } from '@/components/VotingWindowBadge';
+import { ModeratorMenu } from '@/components/ModeratorMenu';
+import { FlaggedBadge, RemovedNotice } from '@/components/ContentStatus';
+import { ReportDialog } from '@/components/ReportDialog';
+import { CONTENT_STATUS, isRemoved, type StatusChange } from '@/utils/moderation';
 import clsx from 'clsx';
 
 export interface PostData {
@@ -22,6 +30,9 @@ export interface PostData {
   createdAt: bigint;
   status: number;
   subredditName?: string;
+  authorName?: string;
+  upvotes?: bigint;
+  downvotes?: bigint;
 }
 
 interface PostCardProps {
@@ -32,24 +43,34 @@ interface PostCardProps {
 
 export function PostCard({ post, subredditName, showSubreddit = true }: PostCardProps) {
   const { address, isConnected } = useWeb3();
-  const { vote, isPending, userVote } = useVote(post.id, true);
+  const { vote, estimate, isPending } = useVote(post.id, true);
+  const { voteType: userVote, canChange, titleFor } = useVoteState(post.id, true, post.createdAt);
+  const { isArchived } = useVotingWindow(post.createdAt);
   const [optimisticScore, setOptimisticScore] = useState<number | null>(null);
   const [optimisticVote, setOptimisticVote] = useState<'up' | 'down' | null>(null);
+  const [confirmingVote, setConfirmingVote] = useState<'up' | 'down' | null>(null);
+  const [statusChange, setStatusChange] = useState<StatusChange | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
 
   const displayScore = optimisticScore !== null ? optimisticScore : Number(post.score);
   const currentVote = optimisticVote || (userVote === 1 ? 'up' : userVote === 2 ? 'down' : null);
+  const closeStakePicker = useCallback(() => setConfirmingVote(null), []);
+  const closeReport = useCallback(() => setIsReporting(false), []);
 
-  const handleVote = async (voteType: 'up' | 'down') => {
-    if (!isConnected || isPending) return;
+  const handleVote = (voteType: 'up' | 'down') => {
+    // A vote can be switched but not retracted, so re-clicking it does nothing;
+    // the arrow's tooltip explains a locked vote
+    if (!isConnected || isPending || currentVote === voteType || !canChange) return;
 
+    setConfirmingVote(voteType);
+  };
+
+  const submitVote = async (voteType: 'up' | 'down', stake: bigint) => {
+    setConfirmingVote(null);
     const isUpvote = voteType === 'up';
     
     // Optimistic update
-    if (currentVote === voteType) {
-      // Already voted same way, can't undo in current implementation
-      return;
-    }
-    
     const scoreDelta = isUpvote ? 
       (currentVote === 'down' ? 2 : 1) : 
       (currentVote === 'up' ? -2 : -1);
@@ -58,7 +79,7 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
     setOptimisticVote(voteType);
 
     try {
-      await vote(isUpvote ? 1 : 2);
+      await vote(isUpvote ? 1 : 2, stake);
     } catch (error) {
       // Revert on error
       setOptimisticScore(null);
@@ -67,16 +88,30 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
     }
   };
 
-  const isHidden = post.status === 1; // ContentStatus.Hidden
+  // Moderator actions taken from this card show before the post is refetched
+  const status = statusChange?.newStatus ?? post.status;
+  const isHidden = isRemoved(status);
 
-  if (isHidden) {
-    return (
-      <div className="card p-4 opacity-50">
-        <p className="text-gray-400 italic">
-          This content has been hidden by community moderators.
-        </p>
-      </div>
-    );
+  const moderatorMenu = (
+    <ModeratorMenu
+      contentId={post.id}
+      isPost
+      subredditId={post.subredditId}
+      status={status}
+      lastChange={statusChange}
+      onStatusChange={setStatusChange}
+      className="text-sm text-gray-600"
+    />
+  );
+
+  const removedNotice = isHidden && (
+    <RemovedNotice contentId={post.id} isPost revealed={revealed} onToggle={() => setRevealed(!revealed)}>
+      {!revealed && moderatorMenu}
+    </RemovedNotice>
+  );
+
+  if (isHidden && !revealed) {
+    return <div className="card p-4">{removedNotice}</div>;
   }
 
   const getPostTypeIcon = () => {
@@ -132,18 +167,21 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
   };
 
   return (
-    <article className="bg-white border border-gray-200 rounded-2xl shadow-sm hover:shadow-md transition-all overflow-hidden">
+    <article className="bg-white border border-gray-200 rounded-2xl shadow-sm hover:shadow-md transition-all">
       <div className="flex">
         {/* Vote Column */}
-        <div className="flex flex-col items-center px-3 py-4 bg-gray-50 border-r border-gray-100">
+        <div className={clsx(
+          'relative flex flex-col items-center px-3 py-4 bg-gray-50 border-r border-gray-100 rounded-l-2xl',
+          isArchived && 'opacity-60'
+        )}>
           <button
             onClick={() => handleVote('up')}
-            disabled={isPending || !isConnected}
+            disabled={isPending || !isConnected || (currentVote !== 'up' && !canChange)}
             className={clsx(
               'p-1.5 rounded-lg transition-all',
               currentVote === 'up' ? 'text-bread-500 bg-bread-100' : 'text-gray-400 hover:text-bread-500 hover:bg-bread-50'
             )}
-            title="Upvote (0.001 ETH stake)"
+            title={titleFor(1)}
           >
             <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 3l-7 7h4v7h6v-7h4l-7-7z" clipRule="evenodd" />
@@ -159,21 +197,34 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
           
           <button
             onClick={() => handleVote('down')}
-            disabled={isPending || !isConnected}
+            disabled={isPending || !isConnected || (currentVote !== 'down' && !canChange)}
             className={clsx(
               'p-1.5 rounded-lg transition-all',
               currentVote === 'down' ? 'text-blue-500 bg-blue-100' : 'text-gray-400 hover:text-blue-500 hover:bg-blue-50'
             )}
-            title="Downvote (0.005 ETH stake)"
+            title={titleFor(2)}
           >
             <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 17l7-7h-4V3H7v7H3l7 7z" clipRule="evenodd" />
             </svg>
           </button>
+
+          {confirmingVote && (
+            <VoteStakePopover
+              voteType={confirmingVote === 'up' ? 1 : 2}
+              isChange={currentVote !== null}
+              onConfirm={(stake) => submitVote(confirmingVote, stake)}
+              onEstimate={(stake) => estimate(confirmingVote === 'up' ? 1 : 2, stake)}
+              onCancel={closeStakePicker}
+              className="left-full top-2 ml-2"
+            />
+          )}
         </div>
 
         {/* Content */}
         <div className="flex-1 p-5">
+          {removedNotice && <div className="mb-3 border-b border-gray-100 pb-3">{removedNotice}</div>}
+
           {/* Meta */}
           <div className="flex items-center gap-2 text-xs text-gray-500 mb-3">
             {showSubreddit && subredditName && (
@@ -187,10 +238,12 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
             <span>{getPostTypeIcon()}</span>
             <span>Posted by</span>
             <Link href={`/u/${post.author}`} className="hover:underline hover:text-gray-700">
-              {post.author.slice(0, 6)}...{post.author.slice(-4)}
+              {post.authorName ? `u/${post.authorName}` : `${post.author.slice(0, 6)}...${post.author.slice(-4)}`}
             </Link>
             <span>•</span>
             <span>{formatDistanceToNow(new Date(Number(post.createdAt) * 1000))} ago</span>
+            {status === CONTENT_STATUS.FLAGGED && <FlaggedBadge />}
+            <VotingWindowBadge createdAt={post.createdAt} className="ml-auto" />
           </div>
 
           {/* Title */}
@@ -236,12 +289,30 @@ export function PostCard({ post, subredditName, showSubreddit = true }: PostCard
               Save
             </button>
 
-            <button className="flex items-center gap-1.5 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors text-red-500">
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-              Report
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsReporting(true)}
+                className="flex items-center gap-1.5 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors text-red-500"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                Report
+              </button>
+
+              {isReporting && (
+                <ReportDialog
+                  contentId={post.id}
+                  isPost
+                  subredditId={post.subredditId}
+                  author={post.author}
+                  onClose={closeReport}
+                  className="left-0 top-full mt-1"
+                />
+              )}
+            </div>
+
+            {moderatorMenu}
           </div>
         </div>
       </div>
@@ -2,11 +2,31 @@
 
 import { ReactNode } from 'react';
 import { Web3Provider } from '@/context/Web3Context';
+import { TransactionToasts } from '@/components/Transactions';
+import { useIndexerSync } from '@/hooks/useIndexer';
+import { useLiveQuerySync } from '@/hooks/useLiveEvents';
+import { useTransactionSync } from '@/hooks/useTransactions';
+import { useVoteStateSync } from '@/hooks/useVoteState';
 
 interface ProvidersProps {
   children: ReactNode;
 }
 
+/** Background syncing that needs the Web3 context */
+function Sync() {
+  useIndexerSync();
+  useLiveQuerySync();
+  useTransactionSync();
+  useVoteStateSync();
+  return null;
+}
+
 export function Providers({ children }: ProvidersProps) {
-  return <Web3Provider>{children}</Web3Provider>;
+  return (
+    <Web3Provider>
+      <Sync />
+      {children}
+      <TransactionToasts />
+    </Web3Provider>
+  );
 }
@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { useWeb3 } from '@/context/Web3Context';
+import { useCanReport, useHasReported, useReportContent, useSubredditRules } from '@/hooks/useContracts';
+import { useCostEstimate } from '@/hooks/useCostEstimate';
+import { useNow } from '@/hooks/useNow';
+import { CostEstimate } from '@/components/CostEstimate';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import { formatDuration } from '@/utils/time';
+import {
+  REPORT_CATEGORY_LABELS,
+  formatReportReason,
+  type ReportCategory,
+} from '@/utils/moderation';
+
+const CATEGORIES = Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[];
+
+interface ReportDialogProps {
+  contentId: bigint;
+  isPost: boolean;
+  /** The content's community; its rules are offered as reasons */
+  subredditId: bigint | undefined;
+  /** The content's author; they can't report it */
+  author: string;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Report a post or comment with a structured reason. Checks the wallet's
+ * report cooldown and earlier reports before anything is sent.
+ */
+export function ReportDialog({ contentId, isPost, subredditId, author, onClose, className }: ReportDialogProps) {
+  const { address } = useWeb3();
+  const { data: cooldown } = useCanReport(address || undefined);
+  const { data: hasReported } = useHasReported(address || undefined, contentId, isPost);
+  const { data: rules } = useSubredditRules(subredditId);
+  const { reportContent, estimate, isPending, isSuccess, error } = useReportContent();
+  const now = useNow();
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [rule, setRule] = useState(0);
+  const [details, setDetails] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  const noun = isPost ? 'post' : 'comment';
+  const isOwnContent = address?.toLowerCase() === author.toLowerCase();
+  const secondsLeft = cooldown ? Math.max(0, Number(cooldown.nextReportTime) - now) : 0;
+  const reason = category ? formatReportReason({ category, rule, details }, rules) : null;
+  const needsDetails = category === 'other' && !details.trim();
+
+  const blocker = !address
+    ? 'Connect your wallet to report content.'
+    : isOwnContent
+      ? `You can't report your own ${noun}.`
+      : hasReported
+        ? `You've already reported this ${noun}.`
+        : null;
+
+  const cost = useCostEstimate(
+    !blocker && reason && !needsDetails && secondsLeft === 0 ? reason : null,
+    () => estimate(contentId, isPost, reason!)
+  );
+  const cannotSubmit =
+    blocker !== null || !reason || needsDetails || secondsLeft > 0 || isPending || cost.isInsufficient;
+
+  // Close on outside click or Escape, unless the report is being sent
+  useEffect(() => {
+    if (isPending) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isPending, onClose]);
+
+  const handleSubmit = async () => {
+    if (cannotSubmit || !reason) return;
+    try {
+      await reportContent(contentId, isPost, reason);
+    } catch (err) {
+      console.error('Report failed:', err);
+    }
+  };
+
+  let body: React.ReactNode;
+  if (isSuccess) {
+    body = (
+      <p className="text-gray-600">
+        Thanks. The community&apos;s moderators will review this {noun}.
+      </p>
+    );
+  } else if (blocker) {
+    body = <p className="text-gray-600">{blocker}</p>;
+  } else {
+    body = (
+      <>
+        {/* Reasons */}
+        <div className="space-y-1">
+          {CATEGORIES.map((option) => (
+            <label
+              key={option}
+              className={clsx(
+                'flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-2 transition-colors',
+                category === option ? 'border-bread-500 bg-bread-50' : 'border-gray-200 hover:border-bread-300'
+              )}
+            >
+              <input
+                type="radio"
+                name={`report-${noun}-${contentId}`}
+                checked={category === option}
+                onChange={() => setCategory(option)}
+                className="accent-bread-500"
+              />
+              {REPORT_CATEGORY_LABELS[option]}
+            </label>
+          ))}
+        </div>
+
+        {category === 'rule' && (
+          <select
+            value={rule}
+            onChange={(e) => setRule(Number(e.target.value))}
+            className="input-field mt-2 w-full"
+          >
+            {rules.map((text, i) => (
+              <option key={i} value={i}>
+                {i + 1}. {text}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <label className="mt-3 block text-xs text-gray-500 mb-1">
+          Details {category === 'other' ? '(required)' : '(optional)'}
+        </label>
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          rows={2}
+          className="textarea-field w-full"
+        />
+
+        {/* Terms */}
+        <ul className="mt-3 space-y-1 text-xs text-gray-600">
+          <li>
+            ⚠️ Moderators can reject a report as frivolous, costing you{' '}
+            {Math.abs(PROTOCOL_CONSTANTS.KARMA_PENALTY_FRIVOLOUS_REPORT)} karma
+          </li>
+          <li>✓ An upheld report earns you +{PROTOCOL_CONSTANTS.KARMA_BONUS_VALID_REPORT} karma</li>
+          <li>⏱ You can file one report every {PROTOCOL_CONSTANTS.REPORT_COOLDOWN_HOURS}h</li>
+        </ul>
+
+        {secondsLeft > 0 ? (
+          <p className="mt-3 text-xs font-medium text-red-600">
+            You can report again in {formatDuration(secondsLeft)}
+          </p>
+        ) : (
+          <CostEstimate
+            estimate={cost.data}
+            isLoading={cost.isLoading}
+            error={cost.error}
+            className="mt-3 border-t border-gray-100 pt-3"
+          />
+        )}
+        {error && <p className="mt-2 text-xs text-red-600">{error.message}</p>}
+      </>
+    );
+  }
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      className={clsx(
+        'absolute z-40 w-80 rounded-xl border border-gray-200 bg-white p-4 text-left text-sm text-gray-800 shadow-lg',
+        className
+      )}
+    >
+      <h3 className="font-semibold text-gray-800 mb-3">Report this {noun}</h3>
+
+      {body}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isPending}
+          className="btn-secondary text-xs disabled:opacity-50"
+        >
+          {isSuccess || blocker ? 'Close' : 'Cancel'}
+        </button>
+        {!isSuccess && !blocker && (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={cannotSubmit}
+            className="btn-primary text-xs disabled:opacity-50"
+          >
+            {isPending ? 'Reporting…' : 'Report'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
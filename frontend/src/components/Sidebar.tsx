@@ -2,10 +2,12 @@
 
 import Link from 'next/link';
 import { useSubredditList } from '@/hooks/useContracts';
+import { useIndexerStatus } from '@/store/indexerStatus';
 import { formatDistanceToNow } from 'date-fns';
 
 export function Sidebar() {
   const { data: subreddits, isLoading } = useSubredditList();
+  const { lastBlock, headBlock, error: indexerError } = useIndexerStatus();
 
   return (
     <aside className="hidden lg:block w-80 space-y-5 sticky top-24">
@@ -31,8 +33,8 @@ export function Sidebar() {
           </div>
         ) : subreddits && subreddits.length > 0 ? (
           <ul className="space-y-2">
-            {subreddits.slice(0, 10).map((sub: any, index: number) => (
-              <li key={sub.id}>
+            {subreddits.slice(0, 10).map((sub, index) => (
+              <li key={sub.id.toString()}>
                 <Link
                   href={`/r/${sub.name}`}
                   className="flex items-center gap-3 p-3 rounded-xl hover:bg-gray-50 transition-colors group"
@@ -42,7 +44,7 @@ export function Sidebar() {
                   <div className="flex-1">
                     <div className="font-semibold text-gray-800 group-hover:text-bread-500 transition-colors">r/{sub.name}</div>
                     <div className="text-xs text-gray-500">
-                      {sub.memberCount} members
+                      {sub.memberCount.toString()} members
                     </div>
                   </div>
                 </Link>
@@ -73,6 +75,18 @@ export function Sidebar() {
       {/* Footer */}
       <div className="text-xs text-gray-500 space-y-1 px-2">
         <p className="font-medium">Built on Monad Testnet</p>
+        {indexerError ? (
+          <p title={indexerError}>Local index unavailable; reading from the chain</p>
+        ) : (
+          lastBlock !== null &&
+          headBlock !== null && (
+            <p>
+              {lastBlock >= headBlock
+                ? `Indexed to block ${lastBlock.toLocaleString()}`
+                : `Indexing history… block ${lastBlock.toLocaleString()} of ${headBlock.toLocaleString()}`}
+            </p>
+          )
+        )}
         <p>© 2026 Bread-it Protocol</p>
       </div>
     </aside>
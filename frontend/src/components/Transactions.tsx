@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { useWalletTransactions } from '@/hooks/useTransactions';
+import {
+  explorerTxUrl,
+  isSettled,
+  useTransactionStore,
+  type TrackedTransaction,
+  type TxStatus,
+} from '@/store/transactions';
+
+/** Confirmed toasts close themselves after this long */
+const CONFIRMED_TOAST_MS = 6000;
+
+/** Settled transactions older than this aren't toasted again after a reload */
+const TOAST_MAX_AGE_MS = 10 * 60 * 1000;
+
+const STATUS_LABELS: Record<TxStatus, string> = {
+  submitted: 'Submitted',
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+};
+
+const STATUS_STYLES: Record<TxStatus, string> = {
+  submitted: 'bg-gray-100 text-gray-600',
+  pending: 'bg-bread-100 text-bread-700',
+  confirmed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  replaced: 'bg-yellow-100 text-yellow-700',
+};
+
+function StatusBadge({ status }: { status: TxStatus }) {
+  return (
+    <span className={clsx('rounded-full px-2 py-0.5 text-xs font-medium', STATUS_STYLES[status])}>
+      {!isSettled(status) && <span className="mr-1 inline-block animate-pulse">●</span>}
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function ExplorerLink({ tx }: { tx: TrackedTransaction }) {
+  return (
+    <a
+      href={explorerTxUrl(tx.replacedBy ?? tx.hash)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-xs font-medium text-bread-600 hover:underline"
+    >
+      View on explorer ↗
+    </a>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// TOASTS
+// ═══════════════════════════════════════════════════════════
+
+function TransactionToast({ tx }: { tx: TrackedTransaction }) {
+  const dismiss = useTransactionStore((s) => s.dismiss);
+
+  useEffect(() => {
+    if (tx.status !== 'confirmed') return;
+    const timer = setTimeout(() => dismiss(tx.hash), CONFIRMED_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [tx.status, tx.hash, dismiss]);
+
+  return (
+    <div className="card w-80 p-4 shadow-lg">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-900">{tx.label}</p>
+        <button
+          onClick={() => dismiss(tx.hash)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="mt-2 flex items-center justify-between gap-3">
+        <StatusBadge status={tx.status} />
+        <ExplorerLink tx={tx} />
+      </div>
+      {tx.error && <p className="mt-2 text-xs text-red-500">{tx.error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Toasts for the connected wallet's transactions. Mount once, inside the
+ * Web3Provider.
+ */
+export function TransactionToasts() {
+  const { transactions } = useWalletTransactions();
+  const visible = transactions.filter(
+    (tx) => !tx.dismissed && (!isSettled(tx.status) || Date.now() - tx.submittedAt < TOAST_MAX_AGE_MS)
+  );
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col-reverse gap-3">
+      {visible.map((tx) => (
+        <TransactionToast key={tx.hash} tx={tx} />
+      ))}
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// HISTORY
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Header button with a dropdown of the connected wallet's recent transactions
+ */
+export function TransactionHistory() {
+  const { transactions, pendingCount } = useWalletTransactions();
+  const clear = useTransactionStore((s) => s.clear);
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const onClick = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, [isOpen]);
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div ref={ref} className="relative hidden md:block">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-bread-600 transition-colors"
+      >
+        Activity
+        {pendingCount > 0 && (
+          <span className="rounded-full bg-bread-500 px-1.5 text-xs font-semibold text-white">{pendingCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="card absolute right-0 top-full mt-3 w-96 p-4 shadow-lg">
+          <div className="mb-3 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">Recent transactions</h3>
+            <button
+              onClick={() => transactions[0] && clear(transactions[0].from)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Clear finished
+            </button>
+          </div>
+          <ul className="max-h-96 space-y-3 overflow-y-auto">
+            {transactions.map((tx) => (
+              <li key={tx.hash} className="border-b border-gray-100 pb-3 last:border-0 last:pb-0">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm text-gray-800">{tx.label}</p>
+                  <StatusBadge status={tx.status} />
+                </div>
+                <div className="mt-1 flex items-center justify-between gap-3">
+                  <span className="text-xs text-gray-400">
+                    {formatDistanceToNow(new Date(tx.submittedAt))} ago
+                  </span>
+                  <ExplorerLink tx={tx} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
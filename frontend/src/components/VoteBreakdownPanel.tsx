@@ -0,0 +1,95 @@
+'use client';
+
+import { formatEther } from 'ethers';
+import { useVoteBreakdown } from '@/hooks/useVoteBreakdown';
+import { useNow } from '@/hooks/useNow';
+import { VoteTimelineChart } from '@/components/VoteTimelineChart';
+import { monadTestnet } from '@/config/contracts';
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+interface VoteBreakdownPanelProps {
+  contentId: bigint;
+  isPost: boolean;
+}
+
+/**
+ * Share of `part` in `part + other`, as a percentage (null when both are 0)
+ */
+function percentage(part: bigint, other: bigint): number | null {
+  const total = part + other;
+  return total === 0n ? null : Number((part * 10000n) / total) / 100;
+}
+
+/**
+ * Up/down counts, ratio, stake per side and a vote timeline
+ */
+export function VoteBreakdownPanel({ contentId, isPost }: VoteBreakdownPanelProps) {
+  const { counts, history, isLoading, error } = useVoteBreakdown(contentId, isPost);
+  const now = useNow(60_000);
+
+  const upvotes = counts?.upvotes ?? 0n;
+  const downvotes = counts?.downvotes ?? 0n;
+  const ratio = percentage(upvotes, downvotes);
+  const upStakeShare = history ? percentage(history.upvoteStake, history.downvoteStake) : null;
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Vote breakdown</h2>
+
+      {/* Counts */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-5 text-center">
+        <div>
+          <div className="text-2xl font-bold text-bread-500">{upvotes.toString()}</div>
+          <div className="text-xs text-gray-500">Upvotes</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-blue-600">{downvotes.toString()}</div>
+          <div className="text-xs text-gray-500">Downvotes</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-800">{ratio === null ? '–' : `${ratio}%`}</div>
+          <div className="text-xs text-gray-500">Upvoted</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-800">{history ? history.voterCount : '–'}</div>
+          <div className="text-xs text-gray-500">Voters</div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 bg-gray-100 rounded animate-pulse" />
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to load vote history: {error.message}</p>
+      ) : history && history.timeline.length > 0 ? (
+        <>
+          {/* Stake per side */}
+          <div className="mb-5">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-bread-600 font-medium">
+                ▲ {formatEther(history.upvoteStake)} {symbol}
+              </span>
+              <span className="text-blue-600 font-medium">
+                {formatEther(history.downvoteStake)} {symbol} ▼
+              </span>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+              {upStakeShare !== null && (
+                <>
+                  <div className="bg-bread-500" style={{ width: `${upStakeShare}%` }} />
+                  <div className="bg-blue-500 flex-1" />
+                </>
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">Total staked on each side, including withdrawn stakes</p>
+          </div>
+
+          {/* Timeline */}
+          <VoteTimelineChart points={history.timeline} until={now} />
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">No votes yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { formatEther, parseEther } from 'ethers';
+import { useWeb3 } from '@/context/Web3Context';
+import { CostEstimate } from '@/components/CostEstimate';
+import { useCostEstimate } from '@/hooks/useCostEstimate';
+import { PROTOCOL_CONSTANTS, monadTestnet } from '@/config/contracts';
+import { usePreferredStake, useStakePreferences } from '@/store/stakePreferences';
+import { minStake, slashAmount, stakePresets } from '@/utils/stakes';
+import type { CostEstimate as Estimate } from '@/utils/gas';
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+interface VoteStakePopoverProps {
+  voteType: 1 | 2;
+  /** The wallet already voted the other way; the stake is added and the lock restarts */
+  isChange?: boolean;
+  onConfirm: (stake: bigint) => void;
+  onCancel: () => void;
+  /** Prices the vote for a stake (useVote's estimate) */
+  onEstimate?: (stake: bigint) => Promise<Estimate>;
+  className?: string;
+}
+
+/**
+ * Parse an ether amount typed by the user, or null if it isn't one
+ */
+function parseAmount(value: string): bigint | null {
+  try {
+    return value.trim() ? parseEther(value.trim()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stake picker and confirmation shown before a vote is sent
+ */
+export function VoteStakePopover({
+  voteType,
+  isChange = false,
+  onConfirm,
+  onCancel,
+  onEstimate,
+  className,
+}: VoteStakePopoverProps) {
+  const { address } = useWeb3();
+  const preferred = usePreferredStake(address, voteType);
+  const setStake = useStakePreferences((state) => state.setStake);
+  const [amount, setAmount] = useState(preferred);
+  const ref = useRef<HTMLDivElement>(null);
+
+  const min = minStake(voteType);
+  const stake = parseAmount(amount);
+  const validationError =
+    stake === null
+      ? `Enter an amount in ${symbol}`
+      : stake < min
+        ? `Minimum stake is ${formatEther(min)} ${symbol}`
+        : null;
+
+  const cost = useCostEstimate(
+    onEstimate && stake !== null && !validationError ? stake.toString() : null,
+    () => onEstimate!(stake!)
+  );
+  const cannotConfirm = validationError !== null || cost.isInsufficient;
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) onCancel();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onCancel]);
+
+  const handleConfirm = () => {
+    if (stake === null || cannotConfirm) return;
+    if (address) setStake(address, voteType, amount.trim());
+    onConfirm(stake);
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      className={clsx(
+        'absolute z-40 w-72 rounded-xl border border-gray-200 bg-white p-4 text-left text-sm shadow-lg',
+        className
+      )}
+    >
+      <h3 className="font-semibold text-gray-800 mb-3">
+        {voteType === 1 ? 'Upvote' : 'Downvote'} with a stake
+      </h3>
+
+      {/* Presets */}
+      <div className="grid grid-cols-4 gap-1.5 mb-2">
+        {stakePresets(voteType).map((preset) => (
+          <button
+            key={preset.toString()}
+            type="button"
+            onClick={() => setAmount(formatEther(preset))}
+            className={clsx(
+              'rounded-lg border px-1 py-1.5 text-xs font-medium transition-colors',
+              stake === preset
+                ? 'border-bread-500 bg-bread-50 text-bread-700'
+                : 'border-gray-200 text-gray-600 hover:border-bread-300'
+            )}
+          >
+            {formatEther(preset)}
+          </button>
+        ))}
+      </div>
+
+      {/* Custom amount */}
+      <label className="block text-xs text-gray-500 mb-1">Custom amount ({symbol})</label>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+        className="input-field w-full"
+        autoFocus
+      />
+      {validationError && <p className="mt-1 text-xs text-red-600">{validationError}</p>}
+
+      {/* Terms */}
+      <ul className="mt-3 space-y-1 text-xs text-gray-600">
+        <li>
+          🔒 Locked for {PROTOCOL_CONSTANTS.STAKE_LOCK_HOURS}h, then withdrawable from{' '}
+          <a href="/stakes" className="text-bread-600 hover:underline">your stakes</a>
+        </li>
+        <li>
+          ⚠️ If moderators slash this vote you lose {PROTOCOL_CONSTANTS.STAKE_SLASH_PERCENTAGE}%
+          {stake !== null && !validationError && ` (${formatEther(slashAmount(stake))} ${symbol})`} and the
+          rest can&apos;t be withdrawn
+        </li>
+        {isChange && <li>↻ Changing your vote adds to your existing stake and restarts its lock</li>}
+      </ul>
+
+      {onEstimate && (
+        <CostEstimate
+          estimate={cost.data}
+          isLoading={cost.isLoading}
+          error={cost.error}
+          valueLabel="Stake"
+          className="mt-3 border-t border-gray-100 pt-3"
+        />
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="btn-secondary text-xs">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={cannotConfirm}
+          className="btn-primary text-xs disabled:opacity-50"
+        >
+          Stake {stake !== null && !validationError ? formatEther(stake) : ''} {symbol}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { format } from 'date-fns';
+import type { VoteTimelinePoint } from '@/utils/voteAnalytics';
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+interface VoteTimelineChartProps {
+  points: VoteTimelinePoint[];
+  /** Right edge of the time axis (unix seconds) */
+  until: number;
+}
+
+/**
+ * SVG step path for one series; counts hold until the next event
+ */
+function stepPath(
+  points: VoteTimelinePoint[],
+  value: (point: VoteTimelinePoint) => number,
+  x: (time: number) => number,
+  y: (count: number) => number,
+  until: number
+): string {
+  let path = `M ${x(points[0].time)} ${y(0)}`;
+  for (const point of points) {
+    path += ` H ${x(point.time)} V ${y(value(point))}`;
+  }
+  return `${path} H ${x(until)}`;
+}
+
+/**
+ * Cumulative upvotes and downvotes over time
+ */
+export function VoteTimelineChart({ points, until }: VoteTimelineChartProps) {
+  if (points.length === 0) return null;
+
+  const start = points[0].time;
+  const end = Math.max(until, start + 1);
+  const max = Math.max(1, ...points.map((p) => Math.max(p.upvotes, p.downvotes)));
+
+  const x = (time: number) => PADDING + ((time - start) / (end - start)) * (WIDTH - PADDING * 2);
+  const y = (count: number) => HEIGHT - PADDING - (count / max) * (HEIGHT - PADDING * 2);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(0)} y2={y(0)} className="stroke-gray-200" />
+        <path
+          d={stepPath(points, (p) => p.upvotes, x, y, end)}
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-bread-500"
+        />
+        <path
+          d={stepPath(points, (p) => p.downvotes, x, y, end)}
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-blue-500"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{format(new Date(start * 1000), 'MMM d, HH:mm')}</span>
+        <span>peak {max}</span>
+        <span>{format(new Date(end * 1000), 'MMM d, HH:mm')}</span>
+      </div>
+    </div>
+  );
+}
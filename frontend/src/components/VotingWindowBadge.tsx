@@ -0,0 +1,51 @@
+'use client';
+
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { useVotingWindow } from '@/hooks/useVotingWindow';
+import { formatDuration } from '@/utils/time';
+
+/** Below this, the remaining time is highlighted */
+const CLOSING_SOON_SECONDS = 24 * 3600;
+
+interface VotingWindowBadgeProps {
+  createdAt: bigint;
+  /** Only render once archived (for dense lists like comments) */
+  archivedOnly?: boolean;
+  className?: string;
+}
+
+/**
+ * Time left to vote on fresh content, or an "archived" marker once the
+ * voting window has passed
+ */
+export function VotingWindowBadge({ createdAt, archivedOnly = false, className }: VotingWindowBadgeProps) {
+  const { isArchived, closesAt, secondsLeft } = useVotingWindow(createdAt);
+  if (closesAt === null || secondsLeft === null) return null;
+
+  if (isArchived) {
+    return (
+      <span
+        className={clsx('rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-500', className)}
+        title={`Voting closed ${format(new Date(closesAt * 1000), 'PPp')}`}
+      >
+        📦 Archived
+      </span>
+    );
+  }
+
+  if (archivedOnly) return null;
+
+  return (
+    <span
+      className={clsx(
+        'rounded-full px-2 py-0.5 text-xs font-medium',
+        secondsLeft < CLOSING_SOON_SECONDS ? 'bg-yellow-100 text-yellow-800' : 'bg-bread-50 text-bread-700',
+        className
+      )}
+      title={`Voting closes ${format(new Date(closesAt * 1000), 'PPp')}`}
+    >
+      🗳 {formatDuration(secondsLeft)} left to vote
+    </span>
+  );
+}
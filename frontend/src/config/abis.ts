@@ -61,6 +61,13 @@ export const UserRegistryABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'wallet', type: 'address' }],
+    name: 'canVote',
+    outputs: [{ type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'wallet', type: 'address' }],
     name: 'getNextPostTime',
@@ -68,6 +75,13 @@ export const UserRegistryABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'wallet', type: 'address' }],
+    name: 'getNextCommentTime',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'totalUsers',
@@ -85,6 +99,17 @@ export const UserRegistryABI = [
     name: 'UserRegistered',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'wallet', type: 'address' },
+      { indexed: false, name: 'oldKarma', type: 'int256' },
+      { indexed: false, name: 'newKarma', type: 'int256' },
+      { indexed: false, name: 'reason', type: 'string' },
+    ],
+    name: 'KarmaUpdated',
+    type: 'event',
+  },
 ] as const;
 
 export const SubredditDAOABI = [
@@ -173,6 +198,13 @@ export const SubredditDAOABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'subredditId', type: 'uint256' }],
+    name: 'getRules',
+    outputs: [{ type: 'bytes' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'name', type: 'bytes32' }],
     name: 'getSubredditIdByName',
@@ -198,6 +230,16 @@ export const SubredditDAOABI = [
     name: 'SubredditCreated',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'subredditId', type: 'uint256' },
+      { indexed: true, name: 'member', type: 'address' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'MemberJoined',
+    type: 'event',
+  },
 ] as const;
 
 export const PostManagerABI = [
@@ -349,6 +391,18 @@ export const PostManagerABI = [
     name: 'CommentCreated',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: false, name: 'oldStatus', type: 'uint8' },
+      { indexed: false, name: 'newStatus', type: 'uint8' },
+      { indexed: false, name: 'reason', type: 'string' },
+    ],
+    name: 'ContentStatusChanged',
+    type: 'event',
+  },
 ] as const;
 
 export const VotingABI = [
@@ -417,6 +471,16 @@ export const VotingABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'contentIds', type: 'uint256[]' },
+      { name: 'isPostFlags', type: 'bool[]' },
+    ],
+    name: 'batchWithdrawStakes',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     anonymous: false,
     inputs: [
@@ -430,6 +494,41 @@ export const VotingABI = [
     name: 'Voted',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: true, name: 'voter', type: 'address' },
+      { indexed: false, name: 'oldVote', type: 'uint8' },
+      { indexed: false, name: 'newVote', type: 'uint8' },
+    ],
+    name: 'VoteChanged',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: true, name: 'voter', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'StakeWithdrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: true, name: 'voter', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+      { indexed: false, name: 'reason', type: 'string' },
+    ],
+    name: 'StakeSlashed',
+    type: 'event',
+  },
 ] as const;
 
 export const ModerationABI = [
@@ -455,6 +554,30 @@ export const ModerationABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'contentId', type: 'uint256' },
+      { name: 'isPost', type: 'bool' },
+      { name: 'hide', type: 'bool' },
+      { name: 'slashKarma', type: 'bool' },
+      { name: 'reason', type: 'bytes' },
+    ],
+    name: 'moderatorAction',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'contentId', type: 'uint256' },
+      { name: 'isPost', type: 'bool' },
+      { name: 'reason', type: 'bytes' },
+    ],
+    name: 'unhideContent',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'reportId', type: 'uint256' }],
     name: 'getReport',
@@ -476,6 +599,26 @@ export const ModerationABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'actionId', type: 'uint256' }],
+    name: 'getModerationAction',
+    outputs: [
+      {
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'contentId', type: 'uint256' },
+          { name: 'isPost', type: 'bool' },
+          { name: 'moderator', type: 'address' },
+          { name: 'action', type: 'bytes' },
+          { name: 'reason', type: 'bytes' },
+          { name: 'timestamp', type: 'uint256' },
+        ],
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [
       { name: 'contentId', type: 'uint256' },
@@ -486,6 +629,16 @@ export const ModerationABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'contentId', type: 'uint256' },
+      { name: 'isPost', type: 'bool' },
+    ],
+    name: 'getContentActions',
+    outputs: [{ type: 'uint256[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [
       { name: 'contentId', type: 'uint256' },
@@ -506,6 +659,13 @@ export const ModerationABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'reportCount',
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     anonymous: false,
     inputs: [
@@ -518,6 +678,52 @@ export const ModerationABI = [
     name: 'ContentReported',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'actionId', type: 'uint256' },
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: true, name: 'moderator', type: 'address' },
+      { indexed: false, name: 'action', type: 'bytes' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'ModerationActionTaken',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'reportId', type: 'uint256' },
+      { indexed: false, name: 'upheld', type: 'bool' },
+      { indexed: false, name: 'resolver', type: 'address' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'ReportResolved',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'contentId', type: 'uint256' },
+      { indexed: false, name: 'isPost', type: 'bool' },
+      { indexed: false, name: 'reportCount', type: 'uint256' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'ContentFlagged',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'user', type: 'address' },
+      { indexed: false, name: 'amount', type: 'int256' },
+      { indexed: false, name: 'reason', type: 'string' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'KarmaSlashed',
+    type: 'event',
+  },
 ] as const;
 
 export const GovernanceABI = [
@@ -604,4 +810,105 @@ export const GovernanceABI = [
     name: 'ProposalCreated',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'proposalId', type: 'uint256' },
+      { indexed: true, name: 'voter', type: 'address' },
+      { indexed: false, name: 'support', type: 'bool' },
+      { indexed: false, name: 'weight', type: 'uint256' },
+    ],
+    name: 'ProposalVoted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'proposalId', type: 'uint256' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+    ],
+    name: 'ProposalExecuted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'proposalId', type: 'uint256' },
+      { indexed: true, name: 'canceller', type: 'address' },
+      { indexed: false, name: 'reason', type: 'string' },
+    ],
+    name: 'ProposalCancelled',
+    type: 'event',
+  },
+] as const;
+
+/**
+ * Custom errors from libraries/BreadItErrors.sol, shared by every contract
+ */
+export const BreadItErrorsABI = [
+  // User Registry Errors
+  { type: 'error', name: 'UserAlreadyRegistered', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'UserNotRegistered', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'UserIsBanned', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'InvalidUsername', inputs: [] },
+  { type: 'error', name: 'UsernameTaken', inputs: [{ name: 'username', type: 'bytes32' }] },
+  { type: 'error', name: 'InsufficientKarma', inputs: [{ name: 'wallet', type: 'address' }, { name: 'required', type: 'int256' }, { name: 'actual', type: 'int256' }] },
+  { type: 'error', name: 'RateLimitExceeded', inputs: [{ name: 'wallet', type: 'address' }, { name: 'nextAllowedTime', type: 'uint256' }] },
+
+  // Post Manager Errors
+  { type: 'error', name: 'PostNotFound', inputs: [{ name: 'postId', type: 'uint256' }] },
+  { type: 'error', name: 'CommentNotFound', inputs: [{ name: 'commentId', type: 'uint256' }] },
+  { type: 'error', name: 'TitleTooLong', inputs: [{ name: 'length', type: 'uint256' }, { name: 'maxLength', type: 'uint256' }] },
+  { type: 'error', name: 'BodyTooLong', inputs: [{ name: 'length', type: 'uint256' }, { name: 'maxLength', type: 'uint256' }] },
+  { type: 'error', name: 'EmptyContent', inputs: [] },
+  { type: 'error', name: 'InvalidIPFSCid', inputs: [] },
+  { type: 'error', name: 'ContentHidden', inputs: [{ name: 'contentId', type: 'uint256' }] },
+  { type: 'error', name: 'InvalidMimeType', inputs: [] },
+
+  // Subreddit Errors
+  { type: 'error', name: 'SubredditNotFound', inputs: [{ name: 'subredditId', type: 'uint256' }] },
+  { type: 'error', name: 'SubredditNameTaken', inputs: [{ name: 'name', type: 'bytes32' }] },
+  { type: 'error', name: 'SubredditInactive', inputs: [{ name: 'subredditId', type: 'uint256' }] },
+  { type: 'error', name: 'InvalidSubredditName', inputs: [] },
+  { type: 'error', name: 'NotModerator', inputs: [{ name: 'subredditId', type: 'uint256' }, { name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'AlreadyModerator', inputs: [{ name: 'subredditId', type: 'uint256' }, { name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'CreatorCannotBeRemoved', inputs: [{ name: 'subredditId', type: 'uint256' }] },
+
+  // Voting Errors
+  { type: 'error', name: 'AlreadyVoted', inputs: [{ name: 'contentId', type: 'uint256' }, { name: 'isPost', type: 'bool' }, { name: 'voter', type: 'address' }] },
+  { type: 'error', name: 'CannotVoteOwnContent', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'InsufficientStake', inputs: [{ name: 'provided', type: 'uint256' }, { name: 'required', type: 'uint256' }] },
+  { type: 'error', name: 'VoteNotFound', inputs: [{ name: 'contentId', type: 'uint256' }, { name: 'isPost', type: 'bool' }, { name: 'voter', type: 'address' }] },
+  { type: 'error', name: 'StakeAlreadyWithdrawn', inputs: [] },
+  { type: 'error', name: 'ContentTooOldForVoting', inputs: [{ name: 'contentId', type: 'uint256' }, { name: 'age', type: 'uint256' }] },
+
+  // Governance Errors
+  { type: 'error', name: 'ProposalNotFound', inputs: [{ name: 'proposalId', type: 'uint256' }] },
+  { type: 'error', name: 'ProposalNotActive', inputs: [{ name: 'proposalId', type: 'uint256' }] },
+  { type: 'error', name: 'ProposalAlreadyExecuted', inputs: [{ name: 'proposalId', type: 'uint256' }] },
+  { type: 'error', name: 'ProposalNotSucceeded', inputs: [{ name: 'proposalId', type: 'uint256' }] },
+  { type: 'error', name: 'TimelockNotPassed', inputs: [{ name: 'proposalId', type: 'uint256' }, { name: 'executeTime', type: 'uint256' }] },
+  { type: 'error', name: 'AlreadyVotedOnProposal', inputs: [{ name: 'proposalId', type: 'uint256' }, { name: 'voter', type: 'address' }] },
+  { type: 'error', name: 'InsufficientVotingPower', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'QuorumNotReached', inputs: [{ name: 'proposalId', type: 'uint256' }] },
+  { type: 'error', name: 'InvalidProposalData', inputs: [] },
+
+  // Moderation Errors
+  { type: 'error', name: 'ReportNotFound', inputs: [{ name: 'reportId', type: 'uint256' }] },
+  { type: 'error', name: 'ReportAlreadyResolved', inputs: [{ name: 'reportId', type: 'uint256' }] },
+  { type: 'error', name: 'NotAuthorizedModerator', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'CannotReportOwnContent', inputs: [{ name: 'wallet', type: 'address' }] },
+  { type: 'error', name: 'DuplicateReport', inputs: [{ name: 'contentId', type: 'uint256' }, { name: 'isPost', type: 'bool' }, { name: 'reporter', type: 'address' }] },
+
+  // Treasury Errors
+  { type: 'error', name: 'InsufficientTreasuryBalance', inputs: [{ name: 'requested', type: 'uint256' }, { name: 'available', type: 'uint256' }] },
+  { type: 'error', name: 'InvalidRecipient', inputs: [] },
+  { type: 'error', name: 'TransferFailed', inputs: [] },
+
+  // General Errors
+  { type: 'error', name: 'Unauthorized', inputs: [{ name: 'caller', type: 'address' }] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+  { type: 'error', name: 'InvalidAmount', inputs: [] },
+  { type: 'error', name: 'ContractPaused', inputs: [] },
+  { type: 'error', name: 'ReentrancyGuard', inputs: [] },
 ] as const;
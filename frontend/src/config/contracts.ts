@@ -16,7 +16,10 @@ export const monadTestnet = {
     symbol: 'MON',
   },
   rpcUrls: {
-    default: { http: [process.env.NEXT_PUBLIC_RPC_URL || 'https://testnet-rpc.monad.xyz'] },
+    default: {
+      http: [process.env.NEXT_PUBLIC_RPC_URL || 'https://testnet-rpc.monad.xyz'],
+      ws: process.env.NEXT_PUBLIC_WS_URL ? [process.env.NEXT_PUBLIC_WS_URL] : [],
+    },
     public: { http: [process.env.NEXT_PUBLIC_RPC_URL || 'https://testnet-rpc.monad.xyz'] },
     quicknode: { http: ['https://testnet-rpc.monad.xyz'], ws: ['wss://testnet-rpc.monad.xyz'] },
     ankr: { http: ['https://rpc.ankr.com/monad_testnet'] },
@@ -41,6 +44,8 @@ export const CONTRACT_ADDRESSES = {
   Voting: process.env.NEXT_PUBLIC_CONTRACT_VOTING || '0xc164429D339d93f71c8d697834102441e3B8F8aC',
   Governance: process.env.NEXT_PUBLIC_CONTRACT_GOVERNANCE || '0x1945C6e4D739ECA4c6E2AF93a2F8322BA018519E',
   Moderation: process.env.NEXT_PUBLIC_CONTRACT_MODERATION || '0x1BDe6578757a8F1861FD3211776810a2052DD79f',
+  // Canonical Multicall3 deployment; override when running against a local node
+  Multicall3: process.env.NEXT_PUBLIC_CONTRACT_MULTICALL3 || '0xcA11bde05977b3631167028862bE2a173976CA11',
 } as const;
 
 // Protocol Constants (must match smart contract constants)
@@ -65,6 +70,15 @@ export const PROTOCOL_CONSTANTS = {
   MIN_DOWNVOTE_STAKE: '0.005',
   MAX_VOTING_AGE_DAYS: 7,
   STAKE_LOCK_HOURS: 24,
+  STAKE_SLASH_PERCENTAGE: 10,
+  MIN_KARMA_TO_VOTE: 1,
+
+  // Moderation
+  REPORTS_FOR_AUTO_REVIEW: 5,
+  REPORT_COOLDOWN_HOURS: 1,
+  KARMA_PENALTY_CONTENT_HIDDEN: -50,
+  KARMA_BONUS_VALID_REPORT: 5,
+  KARMA_PENALTY_FRIVOLOUS_REPORT: -10,
 
   // Subreddit creation
   SUBREDDIT_CREATION_COST: '0.1',
@@ -75,6 +89,27 @@ export const PROTOCOL_CONSTANTS = {
   SUPERMAJORITY_PERCENTAGE: 66,
 } as const;
 
+// Event Log Configuration - Loaded from Environment Variables
+export const EVENTS_CONFIG = {
+  // Block the protocol was deployed at; log scans never start earlier. 0 means
+  // unset, and event history isn't read at all rather than scanned from genesis
+  deploymentBlock: Number(process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK) || 0,
+  // Maximum block range per eth_getLogs request (Monad's public RPC allows 100)
+  logChunkSize: Number(process.env.NEXT_PUBLIC_LOG_CHUNK_SIZE) || 100,
+  // Cache protocol events in IndexedDB so history reads don't rescan the chain.
+  // Opt-in: every tab that enables it backfills from the deployment block
+  browserIndexer: process.env.NEXT_PUBLIC_BROWSER_INDEXER === 'true',
+  // Recent blocks the indexer re-reads on every sync, in case they were reorged
+  reorgDepth: Number(process.env.NEXT_PUBLIC_REORG_DEPTH) || 32,
+} as const;
+
+// Optional self-hosted indexer service (see indexer/ at the repo root). When
+// unset or unreachable, everything is read from the chain directly.
+export const INDEXER_CONFIG = {
+  url: (process.env.NEXT_PUBLIC_INDEXER_URL || '').replace(/\/$/, ''),
+  timeoutMs: 5000,
+} as const;
+
 // IPFS Configuration - Loaded from Environment Variables
 export const IPFS_CONFIG = {
   gateway: process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/',
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { ethers, BrowserProvider, JsonRpcSigner, Contract } from 'ethers';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { ethers, BrowserProvider, JsonRpcProvider, JsonRpcSigner, Contract, type ContractRunner } from 'ethers';
 import { CONTRACT_ADDRESSES, monadTestnet } from '@/config/contracts';
 import {
   UserRegistryABI,
@@ -11,6 +11,16 @@ import {
   ModerationABI,
   GovernanceABI,
 } from '@/config/abis';
+import { createBatchingRunner } from '@/utils/multicall';
+import { startLiveEvents, type LiveEventListener, type LiveMode } from '@/utils/liveEvents';
+import type {
+  UserRegistry,
+  SubredditDAO,
+  PostManager,
+  Voting,
+  Moderation,
+  Governance,
+} from '@/types/contracts';
 
 // ═══════════════════════════════════════════════════════════
 // TYPES
@@ -27,16 +37,24 @@ interface Web3State {
 }
 
 interface Contracts {
-  userRegistry: Contract | null;
-  subredditDAO: Contract | null;
-  postManager: Contract | null;
-  voting: Contract | null;
-  moderation: Contract | null;
-  governance: Contract | null;
+  userRegistry: UserRegistry | null;
+  subredditDAO: SubredditDAO | null;
+  postManager: PostManager | null;
+  voting: Voting | null;
+  moderation: Moderation | null;
+  governance: Governance | null;
 }
 
 interface Web3ContextType extends Web3State {
   contracts: Contracts;
+  /** Wallet-independent provider used for reads before (and without) connecting */
+  readProvider: JsonRpcProvider;
+  /** True while contracts are backed by readProvider and can't send transactions */
+  isReadOnly: boolean;
+  /** How new events are being followed; null until started */
+  liveMode: LiveMode | null;
+  /** Receive new PostManager and Voting events as they are mined */
+  subscribeLiveEvents: (listener: LiveEventListener) => () => void;
   connect: () => Promise<void>;
   disconnect: () => void;
   switchToMonad: () => Promise<void>;
@@ -52,14 +70,31 @@ const initialState: Web3State = {
   error: null,
 };
 
-const initialContracts: Contracts = {
-  userRegistry: null,
-  subredditDAO: null,
-  postManager: null,
-  voting: null,
-  moderation: null,
-  governance: null,
-};
+/**
+ * Build every protocol contract on top of a signer or provider. Reads made
+ * in the same tick are batched into one Multicall3 call.
+ */
+function createContracts(base: ContractRunner): Contracts {
+  const runner = createBatchingRunner(base);
+  return {
+    userRegistry: new Contract(CONTRACT_ADDRESSES.UserRegistry, UserRegistryABI, runner) as unknown as UserRegistry,
+    subredditDAO: new Contract(CONTRACT_ADDRESSES.SubredditDAO, SubredditDAOABI, runner) as unknown as SubredditDAO,
+    postManager: new Contract(CONTRACT_ADDRESSES.PostManager, PostManagerABI, runner) as unknown as PostManager,
+    voting: new Contract(CONTRACT_ADDRESSES.Voting, VotingABI, runner) as unknown as Voting,
+    moderation: new Contract(CONTRACT_ADDRESSES.Moderation, ModerationABI, runner) as unknown as Moderation,
+    governance: new Contract(CONTRACT_ADDRESSES.Governance, GovernanceABI, runner) as unknown as Governance,
+  };
+}
+
+/**
+ * Public RPC provider for anonymous browsing. NEXT_PUBLIC_RPC_URL and
+ * NEXT_PUBLIC_CHAIN_ID point this at a local Hardhat node instead.
+ */
+function createReadProvider(): JsonRpcProvider {
+  return new JsonRpcProvider(monadTestnet.rpcUrls.default.http[0], monadTestnet.id, {
+    staticNetwork: true,
+  });
+}
 
 // ═══════════════════════════════════════════════════════════
 // CONTEXT
@@ -85,18 +120,40 @@ interface Web3ProviderProps {
 
 export function Web3Provider({ children }: Web3ProviderProps) {
   const [state, setState] = useState<Web3State>(initialState);
-  const [contracts, setContracts] = useState<Contracts>(initialContracts);
+  const [signerContracts, setSignerContracts] = useState<Contracts | null>(null);
+
+  // Read-only contracts exist from the first render so anonymous visitors
+  // can browse; creating them makes no network requests
+  const readProvider = useMemo(createReadProvider, []);
+  const readOnlyContracts = useMemo(() => createContracts(readProvider), [readProvider]);
+  const contracts = signerContracts ?? readOnlyContracts;
+
+  // One chain subscription, fanned out to every listener
+  const liveListeners = useRef(new Set<LiveEventListener>());
+  const [liveMode, setLiveMode] = useState<LiveMode | null>(null);
+
+  useEffect(
+    () =>
+      startLiveEvents({
+        readProvider,
+        postManager: readOnlyContracts.postManager!,
+        voting: readOnlyContracts.voting!,
+        onEvent: (event) => liveListeners.current.forEach((listener) => listener(event)),
+        onModeChange: setLiveMode,
+      }),
+    [readProvider, readOnlyContracts]
+  );
+
+  const subscribeLiveEvents = useCallback((listener: LiveEventListener) => {
+    liveListeners.current.add(listener);
+    return () => {
+      liveListeners.current.delete(listener);
+    };
+  }, []);
 
-  // Initialize contracts when signer is available
+  // Upgrade to signer-backed contracts once a wallet is connected
   const initializeContracts = useCallback((signer: JsonRpcSigner) => {
-    setContracts({
-      userRegistry: new Contract(CONTRACT_ADDRESSES.UserRegistry, UserRegistryABI, signer),
-      subredditDAO: new Contract(CONTRACT_ADDRESSES.SubredditDAO, SubredditDAOABI, signer),
-      postManager: new Contract(CONTRACT_ADDRESSES.PostManager, PostManagerABI, signer),
-      voting: new Contract(CONTRACT_ADDRESSES.Voting, VotingABI, signer),
-      moderation: new Contract(CONTRACT_ADDRESSES.Moderation, ModerationABI, signer),
-      governance: new Contract(CONTRACT_ADDRESSES.Governance, GovernanceABI, signer),
-    });
+    setSignerContracts(createContracts(signer));
   }, []);
 
   // Connect wallet
@@ -140,7 +197,7 @@ export function Web3Provider({ children }: Web3ProviderProps) {
   // Disconnect
   const disconnect = useCallback(() => {
     setState(initialState);
-    setContracts(initialContracts);
+    setSignerContracts(null);
   }, []);
 
   // Switch to Monad network
@@ -237,6 +294,10 @@ export function Web3Provider({ children }: Web3ProviderProps) {
   const value: Web3ContextType = {
     ...state,
     contracts,
+    readProvider,
+    isReadOnly: signerContracts === null,
+    liveMode,
+    subscribeLiveEvents,
     connect,
     disconnect,
     switchToMonad,
@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useWeb3 } from '@/context/Web3Context';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
+import {
+  appendReplies,
+  applyLiveDeltas,
+  collectCommentIds,
+  fetchCommentNodes,
+  fetchMoreReplies,
+  fetchTopLevelIds,
+  sortCommentTree,
+  TOP_LEVEL_PAGE_SIZE,
+  type CommentNode,
+  type CommentSort,
+} from '@/utils/commentTree';
+import { indexedCommentReplies } from '@/utils/indexer';
+import { applyLiveEvent, clearLiveDeltas, type LiveDelta, type LiveEvent } from '@/utils/liveEvents';
+import { stakeKey } from '@/utils/stakes';
+
+interface CommentTreeOptions {
+  /** Render the sub-tree rooted at this comment instead of the whole post */
+  rootCommentId?: bigint;
+  sort?: CommentSort;
+  maxDepth?: number;
+}
+
+/**
+ * Load a post's comment tree once, with lazy "load more" expansion. Live
+ * votes and status changes are shown in place; new comments are counted
+ * and only added when `showNewComments` reloads the tree.
+ */
+export function useCommentTree(
+  postId: bigint,
+  { rootCommentId, sort = 'best', maxDepth = 6 }: CommentTreeOptions = {}
+) {
+  const { contracts, address, readProvider } = useWeb3();
+  const [topLevelIds, setTopLevelIds] = useState<bigint[]>([]);
+  const [nodes, setNodes] = useState<CommentNode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [deltas, setDeltas] = useState<Map<string, LiveDelta>>(new Map());
+  const [newCommentIds, setNewCommentIds] = useState<bigint[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  // Bumped by every load; reads from an earlier one drop their results
+  const request = useRef(0);
+  // Only "new" needs a different page of top-level comments; the others re-sort what's loaded
+  const newestFirst = sort === 'new';
+  // Reply ids from the browser index as of the last load, when it had them
+  const indexedReplies = useRef<Map<bigint, bigint[]> | null>(null);
+
+  useLiveEvents((event: LiveEvent) => {
+    if (event.eventName === 'CommentCreated') {
+      const { commentId, author } = event.args;
+      // A single thread can't tell cheaply whether the comment belongs to it
+      if (event.args.postId !== postId || rootCommentId) return;
+      if (author.toLowerCase() === address?.toLowerCase()) return;
+      setNewCommentIds((prev) => (prev.includes(commentId) ? prev : [...prev, commentId]));
+      return;
+    }
+    if (event.eventName === 'PostCreated' || event.args.isPost) return;
+    setDeltas((prev) => applyLiveEvent(prev, event) ?? prev);
+  });
+
+  /** Comments read after loading already include the votes tracked for them */
+  const forget = useCallback((loaded: CommentNode[]) => {
+    const keys = collectCommentIds(loaded).map((id) => stakeKey(id, false));
+    setDeltas((prev) => clearLiveDeltas(prev, keys));
+  }, []);
+
+  const load = useCallback(async () => {
+    const id = ++request.current;
+    if (!contracts.postManager || !contracts.voting || !postId) return;
+
+    setIsLoading(true);
+    setError(null);
+    setDeltas(new Map());
+    setNewCommentIds([]);
+    try {
+      const replies = await indexedCommentReplies(readProvider, postId).catch(() => null);
+      const treeContracts = { postManager: contracts.postManager, voting: contracts.voting, replies };
+      // Comment ids only grow, so newest-first pages come from the end
+      const ids = rootCommentId
+        ? [rootCommentId]
+        : await fetchTopLevelIds(contracts.postManager, postId, replies).then((all) =>
+            newestFirst ? [...all].reverse() : all
+          );
+      const loaded = await fetchCommentNodes(treeContracts, ids.slice(0, TOP_LEVEL_PAGE_SIZE), maxDepth);
+      if (rootCommentId && loaded[0]?.comment.postId !== postId) {
+        throw new Error('This comment is not part of this post');
+      }
+      if (id !== request.current) return;
+      indexedReplies.current = replies;
+      setTopLevelIds(ids);
+      setNodes(loaded);
+    } catch (err) {
+      console.error('Failed to load comments:', err);
+      if (id !== request.current) return;
+      setTopLevelIds([]);
+      setNodes([]);
+      setError(err as Error);
+    } finally {
+      if (id === request.current) setIsLoading(false);
+    }
+  }, [contracts.postManager, contracts.voting, readProvider, postId, rootCommentId, newestFirst, maxDepth]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /**
+   * Load the next page of top-level comments
+   */
+  const loadMoreComments = useCallback(async () => {
+    if (!contracts.postManager || !contracts.voting || isLoadingMore) return;
+
+    const id = request.current;
+    setIsLoadingMore(true);
+    try {
+      const next = topLevelIds.slice(nodes.length, nodes.length + TOP_LEVEL_PAGE_SIZE);
+      const more = await fetchCommentNodes(
+        { postManager: contracts.postManager, voting: contracts.voting, replies: indexedReplies.current },
+        next,
+        maxDepth
+      );
+      if (id !== request.current) return;
+      setNodes((prev) => [...prev, ...more]);
+      forget(more);
+    } catch (err) {
+      console.error('Failed to load more comments:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [contracts.postManager, contracts.voting, isLoadingMore, topLevelIds, nodes.length, maxDepth, forget]);
+
+  /**
+   * Load the next batch of replies under a node rendered at `depth`. The
+   * node comes from the live tree, so the replies are merged into the loaded
+   * node with the same id rather than writing deltas back into `nodes`.
+   */
+  const loadMoreReplies = useCallback(
+    async (node: CommentNode, depth: number) => {
+      if (!contracts.postManager || !contracts.voting) return;
+
+      const id = request.current;
+      try {
+        const replies = await fetchMoreReplies(
+          { postManager: contracts.postManager, voting: contracts.voting, replies: indexedReplies.current },
+          node,
+          maxDepth - depth - 1
+        );
+        if (id !== request.current) return;
+        setNodes((prev) => appendReplies(prev, node.comment.id, replies));
+        forget(replies);
+      } catch (err) {
+        console.error('Failed to load replies:', err);
+      }
+    },
+    [contracts.postManager, contracts.voting, maxDepth, forget]
+  );
+
+  // Ranked on loaded values so live votes don't move comments around
+  const sorted = useMemo(() => sortCommentTree(nodes, sort), [nodes, sort]);
+  const live = useMemo(() => applyLiveDeltas(sorted, deltas), [sorted, deltas]);
+
+  return {
+    nodes: live,
+    hasMoreComments: topLevelIds.length > nodes.length,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMoreComments,
+    loadMoreReplies,
+    refetch: load,
+    newCommentCount: newCommentIds.length,
+    showNewComments: load,
+  };
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  hashKey,
+  isStale,
+  useQueryCache,
+  type QueryKey,
+} from '@/store/queryCache';
+
+interface ContractQueryOptions<T> {
+  /** Milliseconds data stays fresh, or a function of the cached data */
+  staleTime?: number | ((data: T) => number);
+}
+
+/**
+ * Read a value through the shared query cache. Pass `null` as the fetcher
+ * while its inputs (contract, address, id...) aren't available yet.
+ */
+export function useContractQuery<T>(
+  key: QueryKey,
+  fetcher: (() => Promise<T>) | null,
+  { staleTime: staleTimeOption = DEFAULT_STALE_TIME }: ContractQueryOptions<T> = {}
+) {
+  const hash = hashKey(key);
+  const entry = useQueryCache((state) => state.entries[hash]);
+  const enabled = fetcher !== null;
+  const staleTime =
+    typeof staleTimeOption === 'function'
+      ? entry && entry.updatedAt > 0
+        ? staleTimeOption(entry.data as T)
+        : DEFAULT_STALE_TIME
+      : staleTimeOption;
+
+  // The fetcher closes over render-time values; only the key decides identity
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  useEffect(() => {
+    if (!enabled || !isStale(useQueryCache.getState().entries[hash], staleTime)) return;
+
+    fetchQuery(keyRef.current, () => fetcherRef.current!(), { staleTime }).catch((err) => {
+      console.error(`Failed to fetch ${keyRef.current[0]}:`, err);
+    });
+  }, [hash, enabled, staleTime, entry?.isInvalidated, entry?.updatedAt]);
+
+  const refetch = useCallback(async () => {
+    if (!fetcherRef.current) return undefined;
+    return fetchQuery(keyRef.current, fetcherRef.current, { force: true });
+  }, []);
+
+  return {
+    data: entry?.data as T | undefined,
+    // Only the first load counts; background refetches keep showing old data
+    isLoading: enabled && (!entry || (entry.isFetching && entry.updatedAt === 0)),
+    isFetching: Boolean(entry?.isFetching),
+    error: entry?.error ?? null,
+    refetch,
+  };
+}
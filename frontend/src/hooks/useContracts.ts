@@ -1,32 +1,61 @@
 'use client';
 
 import { useCallback, useState, useEffect } from 'react';
-import { ethers, parseEther, toUtf8Bytes, toUtf8String, hexlify, zeroPadBytes } from 'ethers';
+import { ethers, formatEther, parseEther, toUtf8Bytes, hexlify, type Provider, type TransactionReceipt } from 'ethers';
 import { useWeb3 } from '@/context/Web3Context';
-import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import { PROTOCOL_CONSTANTS, monadTestnet } from '@/config/contracts';
+import {
+  stringToBytes32,
+  parsePost,
+  parseSubreddit,
+  parseComment,
+  parseUserProfile,
+  parseRules,
+} from '@/utils/encoding';
+import { ContractError, decodeContractError } from '@/utils/errors';
+import { estimateCost, type CostEstimate, type GasEstimator } from '@/utils/gas';
+import { formatDuration, nowSeconds, secondsUntil, votingClosesAt } from '@/utils/time';
+import { STAKE_EVENTS, minStake } from '@/utils/stakes';
+import { parseEventLogs } from '@/utils/logs';
+import { useContractQuery } from '@/hooks/useContractQuery';
+import { DEFAULT_STALE_TIME, fetchQuery, invalidateQueries, queryKeys } from '@/store/queryCache';
+import { applyVoteEvents } from '@/store/voteState';
+import {
+  DEFAULT_COMMUNITY_RULES,
+  RESOLUTION_VERBS,
+  fetchHasReported,
+  fetchLatestAction,
+  fetchModLog,
+  fetchModQueue,
+  resolutionAction,
+  type ModeratorAction,
+  type ReportData,
+  type ReportResolution,
+  type StatusChange,
+} from '@/utils/moderation';
+import { trackTransaction } from '@/store/transactions';
+import { fetchSubredditPostIds } from '@/utils/indexer';
+import type { Moderation, UserRegistry } from '@/types/contracts';
+
+/** Shared empty result so id-list hooks keep a stable reference */
+const EMPTY_IDS: bigint[] = [];
 
-// ═══════════════════════════════════════════════════════════
-// HELPER FUNCTIONS
-// ═══════════════════════════════════════════════════════════
-
-function stringToBytes32(str: string): string {
-  const bytes = toUtf8Bytes(str.slice(0, 31));
-  return zeroPadBytes(bytes, 32);
-}
-
-function bytes32ToString(bytes32: string): string {
-  try {
-    return toUtf8String(bytes32).replace(/\0/g, '');
-  } catch {
-    return '';
-  }
-}
-
-function bytesToString(bytes: string): string {
+/**
+ * Price a write for the connected wallet. Reverts are decoded the same way
+ * the write itself would report them.
+ */
+async function estimateWrite(
+  provider: Provider,
+  address: string | null | undefined,
+  action: string,
+  estimateGas: GasEstimator,
+  value?: bigint
+): Promise<CostEstimate> {
+  if (!address) throw new ContractError('WalletNotConnected', {}, `Connect your wallet to ${action}`);
   try {
-    return toUtf8String(bytes);
-  } catch {
-    return '';
+    return await estimateCost(provider, address, estimateGas, value);
+  } catch (err) {
+    throw decodeContractError(err, { action });
   }
 }
 
@@ -39,37 +68,10 @@ function bytesToString(bytes: string): string {
  */
 export function useIsRegistered(address?: string) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<boolean | undefined>(undefined);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    if (!contracts.userRegistry || !address) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.userRegistry!.isRegistered(address);
-        setData(result);
-      } catch (err) {
-        setError(err as Error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.userRegistry, address]);
-
-  const refetch = useCallback(async () => {
-    if (!contracts.userRegistry || !address) return;
-    try {
-      const result = await contracts.userRegistry.isRegistered(address);
-      setData(result);
-    } catch (err) {
-      setError(err as Error);
-    }
-  }, [contracts.userRegistry, address]);
+  const { data, isLoading, error, refetch } = useContractQuery<boolean>(
+    queryKeys.isRegistered(address ?? ''),
+    contracts.userRegistry && address ? () => contracts.userRegistry!.isRegistered(address) : null
+  );
 
   return { data, isLoading, error, refetch };
 }
@@ -79,46 +81,21 @@ export function useIsRegistered(address?: string) {
  */
 export function useUserProfile(address?: string) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    if (!contracts.userRegistry || !address) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.userRegistry!.getUser(address);
-        setData({
-          wallet: result.wallet,
-          username: bytes32ToString(result.username),
-          karma: result.karma,
-          createdAt: result.createdAt,
-          lastPostTime: result.lastPostTime,
-          lastCommentTime: result.lastCommentTime,
-          totalPosts: result.totalPosts,
-          totalComments: result.totalComments,
-          isBanned: result.isBanned,
-        });
-      } catch (err) {
-        setError(err as Error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.userRegistry, address]);
+  const { data, isLoading, error } = useContractQuery(
+    queryKeys.user(address ?? ''),
+    contracts.userRegistry && address
+      ? async () => parseUserProfile(await contracts.userRegistry!.getUser(address))
+      : null
+  );
 
-  return { data, isLoading, error };
+  return { data: data ?? null, isLoading, error };
 }
 
 /**
  * Register a new user
  */
 export function useRegisterUser() {
-  const { contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -134,19 +111,38 @@ export function useRegisterUser() {
       try {
         const usernameBytes = stringToBytes32(username);
         const tx = await contracts.userRegistry.registerUser(usernameBytes);
-        await tx.wait();
+        await trackTransaction(tx, `Register u/${username}`);
         setIsSuccess(true);
+        if (address) {
+          invalidateQueries(
+            queryKeys.isRegistered(address),
+            queryKeys.user(address),
+            queryKeys.userKarma(address)
+          );
+        }
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'register' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.userRegistry]
+    [contracts.userRegistry, address]
   );
 
-  return { registerUser, isPending, isSuccess, error };
+  const estimate = useCallback(
+    async (username: string) => {
+      if (!contracts.userRegistry) throw new Error('Contract not initialized');
+      const userRegistry = contracts.userRegistry;
+      return estimateWrite(readProvider, address, 'register', (overrides) =>
+        userRegistry.registerUser.estimateGas(stringToBytes32(username), overrides)
+      );
+    },
+    [contracts.userRegistry, address, readProvider]
+  );
+
+  return { registerUser, estimate, isPending, isSuccess, error };
 }
 
 /**
@@ -154,28 +150,32 @@ export function useRegisterUser() {
  */
 export function useUserKarma(address?: string) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint | undefined>(undefined);
-  const [isLoading, setIsLoading] = useState(false);
+  const { data, isLoading } = useContractQuery<bigint>(
+    queryKeys.userKarma(address ?? ''),
+    contracts.userRegistry && address ? () => contracts.userRegistry!.getUserKarma(address) : null
+  );
 
-  useEffect(() => {
-    if (!contracts.userRegistry || !address) return;
+  return { data, isLoading };
+}
 
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.userRegistry!.getUserKarma(address);
-        setData(result);
-      } catch (err) {
-        console.error('Failed to fetch karma:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+async function readNextCommentTime(userRegistry: UserRegistry, address: string): Promise<number | null> {
+  const next = await userRegistry.getNextCommentTime(address);
+  // Unregistered wallets get type(uint256).max back
+  return next > BigInt(Number.MAX_SAFE_INTEGER) ? null : Number(next);
+}
 
-    fetchData();
-  }, [contracts.userRegistry, address]);
+/**
+ * When a wallet may next comment, in unix seconds (null if unregistered).
+ * Read once per thread and passed down, not per comment.
+ */
+export function useNextCommentTime(address?: string) {
+  const { contracts } = useWeb3();
+  const { data, isLoading } = useContractQuery(
+    queryKeys.nextCommentTime(address ?? ''),
+    contracts.userRegistry && address ? () => readNextCommentTime(contracts.userRegistry!, address) : null
+  );
 
-  return { data, isLoading };
+  return { data: data ?? null, isLoading };
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -187,100 +187,88 @@ export function useUserKarma(address?: string) {
  */
 export function useSubreddit(subredditId: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (!contracts.subredditDAO || !subredditId) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.subredditDAO!.getSubreddit(subredditId);
-        setData({
-          id: result.id,
-          name: bytes32ToString(result.name),
-          description: bytesToString(result.description),
-          creator: result.creator,
-          createdAt: result.createdAt,
-          minKarmaToPost: result.minKarmaToPost,
-          minKarmaToComment: result.minKarmaToComment,
-          minKarmaToVote: result.minKarmaToVote,
-          postCooldown: result.postCooldown,
-          commentCooldown: result.commentCooldown,
-          isActive: result.isActive,
-        });
-      } catch (err) {
-        console.error('Failed to fetch subreddit:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.subredditDAO, subredditId]);
+  const { data, isLoading } = useContractQuery(
+    queryKeys.subreddit(subredditId),
+    contracts.subredditDAO && subredditId
+      ? async () => parseSubreddit(await contracts.subredditDAO!.getSubreddit(subredditId))
+      : null
+  );
 
-  return { data, isLoading };
+  return { data: data ?? null, isLoading };
 }
 
 /**
- * Get subreddit by name
+ * Get subreddit by name. Loading until the name has resolved; a name that
+ * resolves to no community is re-read later in case it gets created.
  */
 export function useSubredditByName(name: string) {
   const { contracts } = useWeb3();
-  const [subredditId, setSubredditId] = useState<bigint | null>(null);
-
-  useEffect(() => {
-    if (!contracts.subredditDAO || !name) return;
-
-    const fetchId = async () => {
-      try {
-        const nameBytes = stringToBytes32(name);
-        const id = await contracts.subredditDAO!.getSubredditIdByName(nameBytes);
-        setSubredditId(id);
-      } catch (err) {
-        console.error('Failed to fetch subreddit ID:', err);
-      }
-    };
-
-    fetchId();
-  }, [contracts.subredditDAO, name]);
+  const { data: subredditId, error } = useContractQuery<bigint>(
+    queryKeys.subredditIdByName(name),
+    contracts.subredditDAO && name
+      ? () => contracts.subredditDAO!.getSubredditIdByName(stringToBytes32(name))
+      : null,
+    { staleTime: (id) => (id ? Infinity : DEFAULT_STALE_TIME) }
+  );
+  const subreddit = useSubreddit(subredditId || 0n);
 
-  return useSubreddit(subredditId || 0n);
+  return {
+    data: subreddit.data,
+    isLoading: (subredditId === undefined && !error) || subreddit.isLoading,
+  };
 }
 
 /**
- * Get list of subreddits
+ * Get a subreddit's rules, falling back to the defaults while the community
+ * hasn't stored any
  */
-export function useSubredditList() {
+export function useSubredditRules(subredditId: bigint | undefined) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { data, isLoading } = useContractQuery<string[]>(
+    queryKeys.subredditRules(subredditId ?? 0n),
+    contracts.subredditDAO && subredditId
+      ? async () => parseRules(await contracts.subredditDAO!.getRules(subredditId))
+      : null
+  );
 
-  useEffect(() => {
-    if (!contracts.subredditDAO) return;
+  const isDefault = !data || data.length === 0;
+  return { data: isDefault ? DEFAULT_COMMUNITY_RULES : data, isDefault, isLoading };
+}
 
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const count = await contracts.subredditDAO!.subredditCount;
-        const subreddits = Array.from({ length: Number(count) }, (_, i) => ({
-          id: BigInt(i + 1),
-          name: `subreddit_${i + 1}`,
-          memberCount: 0,
-        }));
-        setData(subreddits);
-      } catch (err) {
-        console.error('Failed to fetch subreddit list:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+/** An active community with its member count, as listed in the sidebar */
+export type SubredditListItem = ReturnType<typeof parseSubreddit> & { memberCount: bigint };
 
-    fetchData();
-  }, [contracts.subredditDAO]);
+const EMPTY_SUBREDDITS: SubredditListItem[] = [];
 
-  return { data, isLoading };
+/**
+ * Get every active subreddit, most members first
+ */
+export function useSubredditList() {
+  const { contracts } = useWeb3();
+  const { data, isLoading } = useContractQuery<SubredditListItem[]>(
+    queryKeys.subredditList(),
+    contracts.subredditDAO
+      ? async () => {
+          const dao = contracts.subredditDAO!;
+          const count = Number(await dao.subredditCount());
+          const ids = Array.from({ length: count }, (_, i) => BigInt(i + 1));
+          const subreddits = await Promise.all(
+            ids.map(async (id) => {
+              const [subreddit, memberCount] = await Promise.all([
+                fetchQuery(queryKeys.subreddit(id), async () => parseSubreddit(await dao.getSubreddit(id))),
+                fetchQuery(queryKeys.memberCount(id), () => dao.memberCount(id)),
+              ]);
+              return { ...subreddit, memberCount };
+            })
+          );
+          return subreddits
+            .filter((subreddit) => subreddit.isActive)
+            .sort((a, b) => Number(b.memberCount - a.memberCount));
+        }
+      : null
+  );
+
+  return { data: data ?? EMPTY_SUBREDDITS, isLoading };
 }
 
 /**
@@ -288,22 +276,12 @@ export function useSubredditList() {
  */
 export function useSubredditMemberCount(subredditId: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint | undefined>(undefined);
-
-  useEffect(() => {
-    if (!contracts.subredditDAO || !subredditId) return;
-
-    const fetchData = async () => {
-      try {
-        const count = await contracts.subredditDAO!.memberCount(subredditId);
-        setData(count);
-      } catch (err) {
-        console.error('Failed to fetch member count:', err);
-      }
-    };
-
-    fetchData();
-  }, [contracts.subredditDAO, subredditId]);
+  const { data } = useContractQuery<bigint>(
+    queryKeys.memberCount(subredditId),
+    contracts.subredditDAO && subredditId
+      ? () => contracts.subredditDAO!.memberCount(subredditId)
+      : null
+  );
 
   return { data };
 }
@@ -313,31 +291,36 @@ export function useSubredditMemberCount(subredditId: bigint) {
  */
 export function useIsMember(address?: string, subredditId?: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<boolean | undefined>(undefined);
-
-  useEffect(() => {
-    if (!contracts.subredditDAO || !address || !subredditId) return;
+  const { data } = useContractQuery<boolean>(
+    queryKeys.isMember(address ?? '', subredditId ?? 0n),
+    contracts.subredditDAO && address && subredditId
+      ? () => contracts.subredditDAO!.isMember(address, subredditId)
+      : null
+  );
 
-    const fetchData = async () => {
-      try {
-        const result = await contracts.subredditDAO!.isMember(address, subredditId);
-        setData(result);
-      } catch (err) {
-        console.error('Failed to check membership:', err);
-      }
-    };
+  return { data };
+}
 
-    fetchData();
-  }, [contracts.subredditDAO, address, subredditId]);
+/**
+ * Check if a wallet moderates a subreddit
+ */
+export function useIsModerator(address?: string, subredditId?: bigint) {
+  const { contracts } = useWeb3();
+  const { data, isLoading } = useContractQuery<boolean>(
+    queryKeys.isModerator(address ?? '', subredditId ?? 0n),
+    contracts.subredditDAO && address && subredditId
+      ? () => contracts.subredditDAO!.isModerator(subredditId, address)
+      : null
+  );
 
-  return { data };
+  return { data, isLoading };
 }
 
 /**
  * Create a new subreddit
  */
 export function useCreateSubreddit() {
-  const { contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -368,11 +351,13 @@ export function useCreateSubreddit() {
           BigInt(postCooldown),
           { value: parseEther(PROTOCOL_CONSTANTS.SUBREDDIT_CREATION_COST) }
         );
-        await tx.wait();
+        await trackTransaction(tx, `Create r/${name}`);
         setIsSuccess(true);
+        invalidateQueries(queryKeys.subredditCount(), queryKeys.subredditList(), queryKeys.subredditIdByName(name));
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'create a community' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
@@ -380,14 +365,44 @@ export function useCreateSubreddit() {
     [contracts.subredditDAO]
   );
 
-  return { createSubreddit, isPending, isSuccess, error };
+  const estimate = useCallback(
+    async (
+      name: string,
+      description: string,
+      minKarmaToPost: number = 1,
+      minKarmaToComment: number = 0,
+      postCooldown: number = 60
+    ) => {
+      if (!contracts.subredditDAO) throw new Error('Contract not initialized');
+      const subredditDAO = contracts.subredditDAO;
+      const value = parseEther(PROTOCOL_CONSTANTS.SUBREDDIT_CREATION_COST);
+      return estimateWrite(
+        readProvider,
+        address,
+        'create a community',
+        (overrides) =>
+          subredditDAO.createSubreddit.estimateGas(
+            stringToBytes32(name),
+            hexlify(toUtf8Bytes(description)),
+            BigInt(minKarmaToPost),
+            BigInt(minKarmaToComment),
+            BigInt(postCooldown),
+            overrides
+          ),
+        value
+      );
+    },
+    [contracts.subredditDAO, address, readProvider]
+  );
+
+  return { createSubreddit, estimate, isPending, isSuccess, error };
 }
 
 /**
  * Join a subreddit
  */
 export function useJoinSubreddit() {
-  const { contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -401,19 +416,33 @@ export function useJoinSubreddit() {
 
       try {
         const tx = await contracts.subredditDAO.joinSubreddit(subredditId);
-        await tx.wait();
+        await trackTransaction(tx, `Join community #${subredditId}`);
         setIsSuccess(true);
+        invalidateQueries(queryKeys.memberCount(subredditId), queryKeys.subredditList());
+        if (address) invalidateQueries(queryKeys.isMember(address, subredditId));
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'join' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.subredditDAO]
+    [contracts.subredditDAO, address]
   );
 
-  return { joinSubreddit, isPending, isSuccess, error };
+  const estimate = useCallback(
+    async (subredditId: bigint) => {
+      if (!contracts.subredditDAO) throw new Error('Contract not initialized');
+      const subredditDAO = contracts.subredditDAO;
+      return estimateWrite(readProvider, address, 'join', (overrides) =>
+        subredditDAO.joinSubreddit.estimateGas(subredditId, overrides)
+      );
+    },
+    [contracts.subredditDAO, address, readProvider]
+  );
+
+  return { joinSubreddit, estimate, isPending, isSuccess, error };
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -425,85 +454,96 @@ export function useJoinSubreddit() {
  */
 export function usePost(postId: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (!contracts.postManager || !postId) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.postManager!.getPost(postId);
-        setData({
-          id: result.id,
-          subredditId: result.subredditId,
-          author: result.author,
-          postType: result.postType,
-          title: bytesToString(result.title),
-          body: bytesToString(result.body),
-          ipfsCid: bytesToString(result.ipfsCid),
-          mimeType: bytes32ToString(result.mimeType),
-          score: result.score,
-          commentCount: result.commentCount,
-          createdAt: result.createdAt,
-          status: result.status,
-        });
-      } catch (err) {
-        console.error('Failed to fetch post:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.postManager, postId]);
+  const { data, isLoading } = useContractQuery(
+    queryKeys.post(postId),
+    contracts.postManager && postId
+      ? async () => parsePost(await contracts.postManager!.getPost(postId))
+      : null
+  );
 
-  return { data, isLoading };
+  return { data: data ?? null, isLoading };
 }
 
 /**
  * Get posts for a subreddit
  */
 export function useSubredditPosts(subredditId: bigint, offset: number = 0, limit: number = 25) {
-  const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (!contracts.postManager || !subredditId) return;
+  const { contracts, readProvider } = useWeb3();
+  const { data, isLoading } = useContractQuery<bigint[]>(
+    queryKeys.subredditPosts(subredditId, offset, limit),
+    contracts.postManager && subredditId
+      ? () => fetchSubredditPostIds(contracts.postManager!, readProvider, subredditId, offset, limit)
+      : null
+  );
 
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.postManager!.getSubredditPosts(
-          subredditId,
-          BigInt(offset),
-          BigInt(limit)
-        );
-        setData(result);
-      } catch (err) {
-        console.error('Failed to fetch subreddit posts:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  return { data: data ?? EMPTY_IDS, isLoading };
+}
 
-    fetchData();
-  }, [contracts.postManager, subredditId, offset, limit]);
+/**
+ * Get total number of posts in a subreddit
+ */
+export function useSubredditPostCount(subredditId: bigint) {
+  const { contracts } = useWeb3();
+  const { data, refetch } = useContractQuery<bigint>(
+    queryKeys.subredditPostCount(subredditId),
+    contracts.postManager && subredditId
+      ? () => contracts.postManager!.getSubredditPostCount(subredditId)
+      : null
+  );
 
-  return { data, isLoading };
+  return { data, refetch };
 }
 
+/** What a new post carries besides its title */
+export type PostContentInput = { body: string } | { ipfsCid: string; mimeType: string; isMeme: boolean };
+
 /**
  * Create a post
  */
 export function useCreatePost() {
-  const { contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
+  // PostManager reverts with the last post time rather than the next allowed
+  // one, so check the cooldown up front to give an exact wait
+  const checkPostCooldown = useCallback(async () => {
+    if (!contracts.userRegistry || !address) return;
+    const next = await contracts.userRegistry.getNextPostTime(address);
+    // Unregistered wallets get type(uint256).max back
+    if (next > BigInt(Number.MAX_SAFE_INTEGER)) return;
+    const remaining = secondsUntil(next);
+    if (remaining > 0) {
+      throw new ContractError(
+        'RateLimitExceeded',
+        { wallet: address, nextAllowedTime: next },
+        `You can post again in ${formatDuration(remaining)}`
+      );
+    }
+  }, [contracts.userRegistry, address]);
+
+  // The new post's id, from the PostCreated event in the receipt
+  const createdPostId = useCallback(
+    (receipt: TransactionReceipt): bigint => {
+      const [created] = parseEventLogs(contracts.postManager!, receipt.logs, ['PostCreated']);
+      if (!created) throw new Error('The transaction did not create a post');
+      return created.args.postId;
+    },
+    [contracts.postManager]
+  );
+
+  const invalidateAfterPost = useCallback(
+    (subredditId: bigint) => {
+      invalidateQueries(
+        queryKeys.subredditPostCount(subredditId),
+        queryKeys.subredditPosts(subredditId)
+      );
+      if (address) invalidateQueries(queryKeys.user(address));
+    },
+    [address]
+  );
+
   const createTextPost = useCallback(
     async (subredditId: bigint, title: string, body: string) => {
       if (!contracts.postManager) throw new Error('Contract not initialized');
@@ -513,21 +553,24 @@ export function useCreatePost() {
       setIsSuccess(false);
 
       try {
+        await checkPostCooldown();
         const titleBytes = hexlify(toUtf8Bytes(title));
         const bodyBytes = hexlify(toUtf8Bytes(body));
 
         const tx = await contracts.postManager.createTextPost(subredditId, titleBytes, bodyBytes);
-        await tx.wait();
+        const receipt = await trackTransaction(tx, `Post "${title}"`);
         setIsSuccess(true);
-        return 1n;
+        invalidateAfterPost(subredditId);
+        return createdPostId(receipt);
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'post' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.postManager]
+    [contracts.postManager, checkPostCooldown, invalidateAfterPost, createdPostId]
   );
 
   const createMediaPost = useCallback(
@@ -545,6 +588,7 @@ export function useCreatePost() {
       setIsSuccess(false);
 
       try {
+        await checkPostCooldown();
         const titleBytes = hexlify(toUtf8Bytes(title));
         const cidBytes = hexlify(toUtf8Bytes(ipfsCid));
         const mimeBytes = stringToBytes32(mimeType);
@@ -556,20 +600,46 @@ export function useCreatePost() {
           mimeBytes,
           isMeme
         );
-        await tx.wait();
+        const receipt = await trackTransaction(tx, `Post "${title}"`);
         setIsSuccess(true);
-        return 1n;
+        invalidateAfterPost(subredditId);
+        return createdPostId(receipt);
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'post' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.postManager]
+    [contracts.postManager, checkPostCooldown, invalidateAfterPost, createdPostId]
+  );
+
+  /**
+   * Price a text post (`{ body }`) or a media post
+   */
+  const estimate = useCallback(
+    async (subredditId: bigint, title: string, content: PostContentInput) => {
+      if (!contracts.postManager) throw new Error('Contract not initialized');
+      const postManager = contracts.postManager;
+      const titleBytes = hexlify(toUtf8Bytes(title));
+      return estimateWrite(readProvider, address, 'post', (overrides) =>
+        'body' in content
+          ? postManager.createTextPost.estimateGas(subredditId, titleBytes, hexlify(toUtf8Bytes(content.body)), overrides)
+          : postManager.createMediaPost.estimateGas(
+              subredditId,
+              titleBytes,
+              hexlify(toUtf8Bytes(content.ipfsCid)),
+              stringToBytes32(content.mimeType),
+              content.isMeme,
+              overrides
+            )
+      );
+    },
+    [contracts.postManager, address, readProvider]
   );
 
-  return { createTextPost, createMediaPost, isPending, isSuccess, error };
+  return { createTextPost, createMediaPost, estimate, isPending, isSuccess, error };
 }
 
 /**
@@ -577,37 +647,14 @@ export function useCreatePost() {
  */
 export function useComment(commentId: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (!contracts.postManager || !commentId) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.postManager!.getComment(commentId);
-        setData({
-          id: result.id,
-          postId: result.postId,
-          parentId: result.parentId,
-          author: result.author,
-          content: bytesToString(result.content),
-          score: result.score,
-          createdAt: result.createdAt,
-          status: result.status,
-        });
-      } catch (err) {
-        console.error('Failed to fetch comment:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.postManager, commentId]);
+  const { data, isLoading } = useContractQuery(
+    queryKeys.comment(commentId),
+    contracts.postManager && commentId
+      ? async () => parseComment(await contracts.postManager!.getComment(commentId))
+      : null
+  );
 
-  return { data, isLoading };
+  return { data: data ?? null, isLoading };
 }
 
 /**
@@ -615,32 +662,15 @@ export function useComment(commentId: bigint) {
  */
 export function usePostComments(postId: bigint, offset: number = 0, limit: number = 50) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (!contracts.postManager || !postId) return;
-
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        const result = await contracts.postManager!.getPostComments(
-          postId,
-          BigInt(offset),
-          BigInt(limit)
-        );
-        setData(result);
-      } catch (err) {
-        console.error('Failed to fetch comments:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [contracts.postManager, postId, offset, limit]);
+  const { data, isLoading } = useContractQuery<bigint[]>(
+    queryKeys.postComments(postId, offset, limit),
+    contracts.postManager && postId
+      ? async () =>
+          [...(await contracts.postManager!.getPostComments(postId, BigInt(offset), BigInt(limit)))]
+      : null
+  );
 
-  return { data, isLoading };
+  return { data: data ?? EMPTY_IDS, isLoading };
 }
 
 /**
@@ -648,24 +678,105 @@ export function usePostComments(postId: bigint, offset: number = 0, limit: numbe
  */
 export function useCommentReplies(commentId: bigint) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint[]>([]);
+  const { data } = useContractQuery<bigint[]>(
+    queryKeys.commentReplies(commentId),
+    contracts.postManager && commentId
+      ? async () => [...(await contracts.postManager!.getCommentReplies(commentId))]
+      : null
+  );
+
+  return { data: data ?? EMPTY_IDS };
+}
+
+/**
+ * Create a comment or reply
+ */
+export function useCreateComment() {
+  const { address, contracts, readProvider } = useWeb3();
+  const [isPending, setIsPending] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Re-read the cooldown before sending; this also updates useNextCommentTime
+  const refreshCooldown = useCallback(async () => {
+    if (!contracts.userRegistry || !address) return null;
+    const userRegistry = contracts.userRegistry;
+    try {
+      return await fetchQuery(
+        queryKeys.nextCommentTime(address),
+        () => readNextCommentTime(userRegistry, address),
+        { force: true }
+      );
+    } catch (err) {
+      console.error('Failed to fetch comment cooldown:', err);
+      return null;
+    }
+  }, [contracts.userRegistry, address]);
 
-  useEffect(() => {
-    if (!contracts.postManager || !commentId) return;
+  const createComment = useCallback(
+    async (postId: bigint, parentId: bigint, content: string): Promise<bigint> => {
+      if (!contracts.postManager) throw new Error('Contract not initialized');
+
+      setIsPending(true);
+      setError(null);
+      setIsSuccess(false);
 
-    const fetchData = async () => {
       try {
-        const result = await contracts.postManager!.getCommentReplies(commentId);
-        setData(result);
+        const contentBytes = toUtf8Bytes(content);
+        if (contentBytes.length === 0) {
+          throw new Error('Comment cannot be empty');
+        }
+        if (contentBytes.length > PROTOCOL_CONSTANTS.MAX_COMMENT_LENGTH) {
+          throw new Error(
+            `Comment too long. Max ${PROTOCOL_CONSTANTS.MAX_COMMENT_LENGTH} bytes.`
+          );
+        }
+
+        const next = await refreshCooldown();
+        if (next !== null && secondsUntil(next) > 0) {
+          throw new Error(`You can comment again in ${formatDuration(secondsUntil(next))}`);
+        }
+
+        const tx = await contracts.postManager.createComment(postId, parentId, hexlify(contentBytes));
+        const receipt = await trackTransaction(tx, `${parentId ? 'Reply' : 'Comment'} on post #${postId}`);
+
+        let commentId = 0n;
+        for (const log of receipt.logs) {
+          const parsed = contracts.postManager.interface.parseLog(log);
+          if (parsed?.name === 'CommentCreated') {
+            commentId = parsed.args.commentId;
+            break;
+          }
+        }
+
+        setIsSuccess(true);
+        invalidateQueries(queryKeys.post(postId), queryKeys.postComments(postId));
+        if (parentId) invalidateQueries(queryKeys.commentReplies(parentId));
+        if (address) invalidateQueries(queryKeys.user(address), queryKeys.nextCommentTime(address));
+        return commentId;
       } catch (err) {
-        console.error('Failed to fetch replies:', err);
+        const decoded = decodeContractError(err, { action: 'comment' });
+        setError(decoded);
+        throw decoded;
+      } finally {
+        setIsPending(false);
       }
-    };
+    },
+    [contracts.postManager, address, refreshCooldown]
+  );
 
-    fetchData();
-  }, [contracts.postManager, commentId]);
+  const estimate = useCallback(
+    async (postId: bigint, parentId: bigint, content: string) => {
+      if (!contracts.postManager) throw new Error('Contract not initialized');
+      const postManager = contracts.postManager;
+      return estimateWrite(readProvider, address, 'comment', (overrides) =>
+        postManager.createComment.estimateGas(postId, parentId, hexlify(toUtf8Bytes(content)), overrides)
+      );
+    },
+    [contracts.postManager, address, readProvider]
+  );
 
-  return { data };
+  return { createComment, estimate, isPending, isSuccess, error };
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -673,84 +784,192 @@ export function useCommentReplies(commentId: bigint) {
 // ═══════════════════════════════════════════════════════════
 
 /**
- * Vote on content
+ * Vote on content with a stake (defaults to the minimum for the direction)
  */
 export function useVote(contentId: bigint, isPost: boolean) {
-  const { address, contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [userVote, setUserVote] = useState<number | null>(null);
 
-  // Get existing vote
-  useEffect(() => {
-    if (!contracts.voting || !address || !contentId) return;
-
-    const fetchVote = async () => {
-      try {
-        const result = await contracts.voting!.getVote(contentId, isPost, address);
-        setUserVote(Number(result));
-      } catch (err) {
-        console.error('Failed to fetch vote:', err);
-      }
-    };
+  // Votes that would revert still cost gas, so check eligibility and the
+  // content's voting window first
+  const checkCanVote = useCallback(async () => {
+    if (!contracts.userRegistry || !contracts.postManager || !address) return;
+    const postManager = contracts.postManager;
+
+    const readCreatedAt = async () =>
+      isPost
+        ? (await fetchQuery(queryKeys.post(contentId), async () => parsePost(await postManager.getPost(contentId))))
+            .createdAt
+        : (
+            await fetchQuery(queryKeys.comment(contentId), async () =>
+              parseComment(await postManager.getComment(contentId))
+            )
+          ).createdAt;
+
+    const [allowed, createdAt] = await Promise.all([
+      contracts.userRegistry.canVote(address),
+      readCreatedAt(),
+    ]);
+
+    if (!allowed) {
+      const profile = await fetchQuery(queryKeys.user(address), async () =>
+        parseUserProfile(await contracts.userRegistry!.getUser(address))
+      );
+      if (profile.createdAt === 0n) throw new Error('You need to register a username before voting');
+      if (profile.isBanned) throw new Error('This account is banned');
+      throw new Error(
+        `You need ${PROTOCOL_CONSTANTS.MIN_KARMA_TO_VOTE} karma to vote (you have ${profile.karma})`
+      );
+    }
 
-    fetchVote();
-  }, [contracts.voting, contentId, isPost, address]);
+    if (nowSeconds() > votingClosesAt(createdAt)) {
+      throw new Error(`Voting is closed: this was posted ${formatDuration(nowSeconds() - Number(createdAt))} ago`);
+    }
+  }, [contracts.userRegistry, contracts.postManager, address, contentId, isPost]);
 
   const vote = useCallback(
-    async (voteType: 1 | 2) => {
+    async (voteType: 1 | 2, stake: bigint = minStake(voteType)) => {
       if (!contracts.voting) throw new Error('Contract not initialized');
 
       setIsPending(true);
       setError(null);
 
       try {
-        const stake =
-          voteType === 1
-            ? parseEther(PROTOCOL_CONSTANTS.MIN_UPVOTE_STAKE)
-            : parseEther(PROTOCOL_CONSTANTS.MIN_DOWNVOTE_STAKE);
+        if (stake < minStake(voteType)) {
+          throw new Error(
+            `The minimum stake for ${voteType === 1 ? 'an upvote' : 'a downvote'} is ${formatEther(minStake(voteType))} ${monadTestnet.nativeCurrency.symbol}`
+          );
+        }
+        await checkCanVote();
 
         const tx = await contracts.voting.vote(contentId, isPost, voteType, { value: stake });
-        await tx.wait();
+        const receipt = await trackTransaction(
+          tx,
+          `${voteType === 1 ? 'Upvote' : 'Downvote'} ${isPost ? 'post' : 'comment'} #${contentId}`
+        );
         setIsSuccess(true);
-        setUserVote(voteType);
+        if (address) {
+          const events = parseEventLogs(contracts.voting, receipt.logs, STAKE_EVENTS);
+          applyVoteEvents(contracts.voting, address, events);
+          invalidateQueries(queryKeys.stakes(address));
+        }
+        invalidateQueries(
+          queryKeys.voteCounts(contentId, isPost),
+          queryKeys.voteHistory(contentId, isPost),
+          isPost ? queryKeys.post(contentId) : queryKeys.comment(contentId)
+        );
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'vote' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.voting, contentId, isPost]
+    [contracts.voting, address, contentId, isPost, checkCanVote]
   );
 
-  return { vote, userVote, isPending, isSuccess, error };
+  /**
+   * Price a vote; the stake is part of the total
+   */
+  const estimate = useCallback(
+    async (voteType: 1 | 2, stake: bigint = minStake(voteType)) => {
+      if (!contracts.voting) throw new Error('Contract not initialized');
+      const voting = contracts.voting;
+      return estimateWrite(
+        readProvider,
+        address,
+        'vote',
+        (overrides) => voting.vote.estimateGas(contentId, isPost, voteType, overrides),
+        stake
+      );
+    },
+    [contracts.voting, address, readProvider, contentId, isPost]
+  );
+
+  return { vote, estimate, isPending, isSuccess, error };
 }
 
 /**
- * Get vote counts for content
+ * Withdraw several unlocked stakes in one transaction. The contract skips
+ * stakes that are still locked, withdrawn or slashed.
  */
-export function useVoteCounts(contentId: bigint, isPost: boolean) {
-  const { contracts } = useWeb3();
-  const [data, setData] = useState<{ upvotes: bigint; downvotes: bigint } | null>(null);
+export function useWithdrawStakes() {
+  const { address, contracts, readProvider } = useWeb3();
+  const [isPending, setIsPending] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const withdrawStakes = useCallback(
+    async (stakes: { contentId: bigint; isPost: boolean }[]) => {
+      if (!contracts.voting) throw new Error('Contract not initialized');
 
-  useEffect(() => {
-    if (!contracts.voting || !contentId) return;
+      setIsPending(true);
+      setError(null);
+      setIsSuccess(false);
 
-    const fetchData = async () => {
       try {
-        const result = await contracts.voting!.getVoteCounts(contentId, isPost);
-        setData({ upvotes: result[0], downvotes: result[1] });
+        const tx = await contracts.voting.batchWithdrawStakes(
+          stakes.map((s) => s.contentId),
+          stakes.map((s) => s.isPost)
+        );
+        const receipt = await trackTransaction(
+          tx,
+          `Withdraw ${stakes.length} ${stakes.length === 1 ? 'stake' : 'stakes'}`
+        );
+        setIsSuccess(true);
+        if (address) {
+          const events = parseEventLogs(contracts.voting, receipt.logs, STAKE_EVENTS);
+          applyVoteEvents(contracts.voting, address, events);
+          invalidateQueries(queryKeys.stakes(address));
+        }
       } catch (err) {
-        console.error('Failed to fetch vote counts:', err);
+        const decoded = decodeContractError(err, { action: 'withdraw' });
+        setError(decoded);
+        throw decoded;
+      } finally {
+        setIsPending(false);
       }
-    };
+    },
+    [contracts.voting, address]
+  );
 
-    fetchData();
-  }, [contracts.voting, contentId, isPost]);
+  const estimate = useCallback(
+    async (stakes: { contentId: bigint; isPost: boolean }[]) => {
+      if (!contracts.voting) throw new Error('Contract not initialized');
+      const voting = contracts.voting;
+      return estimateWrite(readProvider, address, 'withdraw', (overrides) =>
+        voting.batchWithdrawStakes.estimateGas(
+          stakes.map((s) => s.contentId),
+          stakes.map((s) => s.isPost),
+          overrides
+        )
+      );
+    },
+    [contracts.voting, address, readProvider]
+  );
 
-  return { data };
+  return { withdrawStakes, estimate, isPending, isSuccess, error };
+}
+
+/**
+ * Get vote counts for content
+ */
+export function useVoteCounts(contentId: bigint, isPost: boolean) {
+  const { contracts } = useWeb3();
+  const { data } = useContractQuery(
+    queryKeys.voteCounts(contentId, isPost),
+    contracts.voting && contentId
+      ? async () => {
+          const result = await contracts.voting!.getVoteCounts(contentId, isPost);
+          return { upvotes: result[0] as bigint, downvotes: result[1] as bigint };
+        }
+      : null
+  );
+
+  return { data: data ?? null };
 }
 
 // ═══════════════════════════════════════════════════════════
@@ -761,7 +980,7 @@ export function useVoteCounts(contentId: bigint, isPost: boolean) {
  * Report content
  */
 export function useReportContent() {
-  const { contracts } = useWeb3();
+  const { address, contracts, readProvider } = useWeb3();
   const [isPending, setIsPending] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -776,42 +995,296 @@ export function useReportContent() {
       try {
         const reasonBytes = hexlify(toUtf8Bytes(reason));
         const tx = await contracts.moderation.reportContent(contentId, isPost, reasonBytes);
-        await tx.wait();
+        await trackTransaction(tx, `Report ${isPost ? 'post' : 'comment'} #${contentId}`);
         setIsSuccess(true);
+        invalidateQueries(queryKeys.reportCount(contentId, isPost));
+        if (address) {
+          invalidateQueries(queryKeys.canReport(address), queryKeys.hasReported(address, contentId, isPost));
+        }
       } catch (err) {
-        setError(err as Error);
-        throw err;
+        const decoded = decodeContractError(err, { action: 'report' });
+        setError(decoded);
+        throw decoded;
       } finally {
         setIsPending(false);
       }
     },
-    [contracts.moderation]
+    [contracts.moderation, address]
   );
 
-  return { reportContent, isPending, isSuccess, error };
+  const estimate = useCallback(
+    async (contentId: bigint, isPost: boolean, reason: string) => {
+      if (!contracts.moderation) throw new Error('Contract not initialized');
+      const moderation = contracts.moderation;
+      return estimateWrite(readProvider, address, 'report', (overrides) =>
+        moderation.reportContent.estimateGas(contentId, isPost, hexlify(toUtf8Bytes(reason)), overrides)
+      );
+    },
+    [contracts.moderation, address, readProvider]
+  );
+
+  return { reportContent, estimate, isPending, isSuccess, error };
 }
 
 /**
- * Get report count for content
+ * When a wallet may next report. Reports share one cooldown across all
+ * content.
  */
-export function useReportCount(contentId: bigint, isPost: boolean) {
+export function useCanReport(address: string | undefined) {
   const { contracts } = useWeb3();
-  const [data, setData] = useState<bigint | undefined>(undefined);
+  const { data, isLoading } = useContractQuery(
+    queryKeys.canReport(address ?? ''),
+    contracts.moderation && address
+      ? async () => {
+          const [canReportNow, nextReportTime] = await contracts.moderation!.canReport(address);
+          return { canReportNow, nextReportTime };
+        }
+      : null
+  );
 
-  useEffect(() => {
-    if (!contracts.moderation || !contentId) return;
+  return { data, isLoading };
+}
+
+/**
+ * Whether a wallet already reported a post or comment
+ */
+export function useHasReported(address: string | undefined, contentId: bigint, isPost: boolean) {
+  const { contracts } = useWeb3();
+  const { data, isLoading } = useContractQuery(
+    queryKeys.hasReported(address ?? '', contentId, isPost),
+    contracts.moderation && address && contentId
+      ? () => fetchHasReported(contracts.moderation!, address, contentId, isPost)
+      : null
+  );
+
+  return { data, isLoading };
+}
+
+/**
+ * A community's unresolved reports, grouped by content
+ */
+export function useModQueue(subredditId: bigint) {
+  const { contracts, readProvider } = useWeb3();
+  const { data, isLoading, error, refetch } = useContractQuery(
+    queryKeys.modQueue(subredditId),
+    contracts.moderation && contracts.postManager && subredditId
+      ? () =>
+          fetchModQueue(
+            readProvider,
+            { moderation: contracts.moderation!, postManager: contracts.postManager! },
+            subredditId
+          )
+      : null
+  );
+
+  return { data: data ?? [], isLoading, error, refetch };
+}
+
+/**
+ * A community's public moderation log, newest first
+ */
+export function useModLog(subredditId: bigint | undefined) {
+  const { contracts, readProvider } = useWeb3();
+  const { data, isLoading, error, refetch } = useContractQuery(
+    queryKeys.modLog(subredditId ?? 0n),
+    contracts.moderation && contracts.postManager && subredditId
+      ? () =>
+          fetchModLog(
+            readProvider,
+            { moderation: contracts.moderation!, postManager: contracts.postManager! },
+            subredditId
+          )
+      : null
+  );
+
+  return { data: data ?? [], isLoading, error, refetch };
+}
+
+/**
+ * The last moderator action on a post or comment, e.g. for the reason it was
+ * removed. Pass enabled=false to skip the read until it's needed.
+ */
+export function useLatestModerationAction(contentId: bigint, isPost: boolean, enabled = true) {
+  const { contracts } = useWeb3();
+  const { data, isLoading } = useContractQuery(
+    queryKeys.latestAction(contentId, isPost),
+    contracts.moderation && contentId && enabled
+      ? () => fetchLatestAction(contracts.moderation!, contentId, isPost)
+      : null
+  );
+
+  return { data, isLoading };
+}
+
+/**
+ * Resolve a report as a moderator: uphold it (hide the content and slash its
+ * author) or dismiss it, optionally penalising the reporter
+ */
+export function useResolveReport() {
+  const { address, contracts, readProvider } = useWeb3();
+  const [isPending, setIsPending] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const resolveReport = useCallback(
+    async (report: ReportData, subredditId: bigint, resolution: ReportResolution) => {
+      if (!contracts.moderation) throw new Error('Contract not initialized');
+
+      setIsPending(true);
+      setError(null);
+      setIsSuccess(false);
+
+      try {
+        const tx = await contracts.moderation.resolveReport(
+          report.id,
+          resolution === 'uphold',
+          resolutionAction(resolution)
+        );
+        await trackTransaction(
+          tx,
+          `${RESOLUTION_VERBS[resolution]} report #${report.id} on ${report.isPost ? 'post' : 'comment'} #${report.contentId}`
+        );
+        setIsSuccess(true);
+        invalidateQueries(
+          queryKeys.modQueue(subredditId),
+          queryKeys.modLog(subredditId),
+          queryKeys.latestAction(report.contentId, report.isPost),
+          queryKeys.reportCount(report.contentId, report.isPost),
+          report.isPost ? queryKeys.post(report.contentId) : queryKeys.comment(report.contentId)
+        );
+      } catch (err) {
+        const decoded = decodeContractError(err, { action: 'moderate' });
+        setError(decoded);
+        throw decoded;
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [contracts.moderation]
+  );
+
+  const estimate = useCallback(
+    async (report: ReportData, resolution: ReportResolution) => {
+      if (!contracts.moderation) throw new Error('Contract not initialized');
+      const moderation = contracts.moderation;
+      return estimateWrite(readProvider, address, 'moderate', (overrides) =>
+        moderation.resolveReport.estimateGas(
+          report.id,
+          resolution === 'uphold',
+          resolutionAction(resolution),
+          overrides
+        )
+      );
+    },
+    [contracts.moderation, address, readProvider]
+  );
+
+  return { resolveReport, estimate, isPending, isSuccess, error };
+}
+
+/** Transaction labels for direct moderator actions */
+const MODERATOR_ACTION_VERBS: Record<ModeratorAction, string> = {
+  hide: 'Hide',
+  hideAndSlash: 'Hide and slash',
+  unhide: 'Unhide',
+};
+
+/**
+ * Act on content directly as a moderator, without a report. Resolves with
+ * the status change PostManager emitted, if any.
+ */
+export function useModerateContent(contentId: bigint, isPost: boolean) {
+  const { address, contracts, readProvider } = useWeb3();
+  const [isPending, setIsPending] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const send = useCallback(
+    (moderation: Moderation, action: ModeratorAction, reason: string) => {
+      const reasonBytes = hexlify(toUtf8Bytes(reason));
+      return action === 'unhide'
+        ? moderation.unhideContent(contentId, isPost, reasonBytes)
+        : moderation.moderatorAction(contentId, isPost, true, action === 'hideAndSlash', reasonBytes);
+    },
+    [contentId, isPost]
+  );
+
+  const moderate = useCallback(
+    async (action: ModeratorAction, reason: string): Promise<StatusChange | null> => {
+      if (!contracts.moderation || !contracts.postManager) throw new Error('Contract not initialized');
+
+      setIsPending(true);
+      setError(null);
+      setIsSuccess(false);
 
-    const fetchData = async () => {
       try {
-        const result = await contracts.moderation!.getReportCount(contentId, isPost);
-        setData(result);
+        if (!reason.trim()) throw new Error('Please give a reason');
+        const tx = await send(contracts.moderation, action, reason.trim());
+        const receipt = await trackTransaction(
+          tx,
+          `${MODERATOR_ACTION_VERBS[action]} ${isPost ? 'post' : 'comment'} #${contentId}`
+        );
+        setIsSuccess(true);
+        invalidateQueries(
+          isPost ? queryKeys.post(contentId) : queryKeys.comment(contentId),
+          queryKeys.latestAction(contentId, isPost),
+          ['modLog']
+        );
+
+        const [changed] = parseEventLogs(contracts.postManager, receipt.logs, ['ContentStatusChanged']);
+        return changed
+          ? {
+              oldStatus: Number(changed.args.oldStatus),
+              newStatus: Number(changed.args.newStatus),
+              reason: changed.args.reason,
+            }
+          : null;
       } catch (err) {
-        console.error('Failed to fetch report count:', err);
+        const decoded = decodeContractError(err, { action: 'moderate' });
+        setError(decoded);
+        throw decoded;
+      } finally {
+        setIsPending(false);
       }
-    };
+    },
+    [contracts.moderation, contracts.postManager, send, contentId, isPost]
+  );
 
-    fetchData();
-  }, [contracts.moderation, contentId, isPost]);
+  const estimate = useCallback(
+    async (action: ModeratorAction, reason: string) => {
+      if (!contracts.moderation) throw new Error('Contract not initialized');
+      const moderation = contracts.moderation;
+      const reasonBytes = hexlify(toUtf8Bytes(reason));
+      return estimateWrite(readProvider, address, 'moderate', (overrides) =>
+        action === 'unhide'
+          ? moderation.unhideContent.estimateGas(contentId, isPost, reasonBytes, overrides)
+          : moderation.moderatorAction.estimateGas(
+              contentId,
+              isPost,
+              true,
+              action === 'hideAndSlash',
+              reasonBytes,
+              overrides
+            )
+      );
+    },
+    [contracts.moderation, address, readProvider, contentId, isPost]
+  );
+
+  return { moderate, estimate, isPending, isSuccess, error };
+}
+
+/**
+ * Get report count for content
+ */
+export function useReportCount(contentId: bigint, isPost: boolean) {
+  const { contracts } = useWeb3();
+  const { data } = useContractQuery<bigint>(
+    queryKeys.reportCount(contentId, isPost),
+    contracts.moderation && contentId
+      ? () => contracts.moderation!.getReportCount(contentId, isPost)
+      : null
+  );
 
   return { data };
 }
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { CostEstimate } from '@/utils/gas';
+
+/** Quiet time after the last input change before estimating */
+const DEBOUNCE_MS = 400;
+
+/**
+ * Keep a write's cost estimate current while a form is edited. `key`
+ * identifies the inputs (re-estimates when it changes); pass null to skip,
+ * e.g. while the form is incomplete. `estimate` can be an inline closure.
+ */
+export function useCostEstimate(key: string | null, estimate: () => Promise<CostEstimate>) {
+  const [data, setData] = useState<CostEstimate | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const estimateRef = useRef(estimate);
+  estimateRef.current = estimate;
+
+  useEffect(() => {
+    setData(null);
+    setError(null);
+    if (key === null) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await estimateRef.current();
+        if (!cancelled) setData(result);
+      } catch (err) {
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return {
+    data,
+    error,
+    isLoading,
+    /** Known to exceed the wallet's balance; submitting would fail */
+    isInsufficient: data !== null && !data.isAffordable,
+  };
+}
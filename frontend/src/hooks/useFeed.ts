@@ -0,0 +1,526 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useWeb3 } from '@/context/Web3Context';
+import { useSubredditPostCount } from '@/hooks/useContracts';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
+import { parsePost, parseSubreddit, parseUserProfile } from '@/utils/encoding';
+import { fetchQuery, isQueryStale, queryKeys } from '@/store/queryCache';
+import { fetchIndexedPosts } from '@/utils/indexerApi';
+import { fetchSubredditPostIds } from '@/utils/indexer';
+import {
+  oldestRankable,
+  rankContent,
+  type ArchiveFilter,
+  type SortOption,
+  type TopWindow,
+} from '@/utils/ranking';
+import { nowSeconds } from '@/utils/time';
+import { applyLiveEvent, clearLiveDeltas, withLiveDelta, type LiveDelta, type LiveEvent } from '@/utils/liveEvents';
+import { stakeKey } from '@/utils/stakes';
+import { isRemoved } from '@/utils/moderation';
+import type { PostData } from '@/components/PostCard';
+import type { PostManager, UserRegistry, Voting } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type FeedScope = 'all' | 'joined';
+
+interface FeedOptions {
+  sortBy: SortOption;
+  topWindow?: TopWindow;
+  archive?: ArchiveFilter;
+  scope?: FeedScope;
+  pageSize?: number;
+}
+
+/** Per-community paging cursor. Posts are stored oldest-first on-chain,
+ *  so `remaining` counts down from the post count towards zero. */
+interface CommunityCursor {
+  id: bigint;
+  name: string;
+  remaining: number;
+  /** Creation time of the oldest post fetched; unfetched ones are no newer */
+  watermark: bigint | null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Removed posts stay reachable by link but are left out of ranked feeds
+ */
+function isListed(post: PostData): boolean {
+  return !isRemoved(post.status);
+}
+
+/**
+ * Newest creation time an unfetched post can have: the highest watermark
+ * among communities with posts left. Null once nothing still unfetched can
+ * be shown, because it's all older than `oldest`.
+ */
+function frontierOf(cursors: CommunityCursor[], oldest: number): bigint | null {
+  let frontier: bigint | null = null;
+  for (const cursor of cursors) {
+    if (cursor.remaining === 0 || cursor.watermark === null) continue;
+    if (frontier === null || cursor.watermark > frontier) frontier = cursor.watermark;
+  }
+  return frontier !== null && Number(frontier) >= oldest ? frontier : null;
+}
+
+/**
+ * Fetch posts with their vote counts through the shared query cache. Posts
+ * it can't serve come from the indexer service when it has them, otherwise
+ * from chain; both are cached under the same keys, so invalidating a post
+ * refetches it either way.
+ */
+async function fetchPosts(postManager: PostManager, voting: Voting, ids: bigint[]): Promise<PostData[]> {
+  const indexed = await fetchIndexedPosts(
+    ids.filter((id) => isQueryStale(queryKeys.post(id)) || isQueryStale(queryKeys.voteCounts(id, true)))
+  );
+  return Promise.all(
+    ids.map(async (id) => {
+      const fromIndexer = indexed.get(id);
+      const [post, counts] = await Promise.all([
+        fetchQuery(queryKeys.post(id), async () => fromIndexer ?? parsePost(await postManager.getPost(id))),
+        fetchQuery(queryKeys.voteCounts(id, true), async () => {
+          if (fromIndexer) return { upvotes: fromIndexer.upvotes ?? 0n, downvotes: fromIndexer.downvotes ?? 0n };
+          const result = await voting.getVoteCounts(id, true);
+          return { upvotes: result[0] as bigint, downvotes: result[1] as bigint };
+        }),
+      ]);
+      return { ...post, ...counts };
+    })
+  );
+}
+
+/**
+ * Attach registered usernames to posts, one cached profile read per unique author
+ */
+async function attachUsernames(userRegistry: UserRegistry, posts: PostData[]): Promise<PostData[]> {
+  const authors = Array.from(new Set(posts.map((p) => p.author)));
+  const names = new Map<string, string>();
+
+  await Promise.all(
+    authors.map(async (author) => {
+      try {
+        const user = await fetchQuery(queryKeys.user(author), async () =>
+          parseUserProfile(await userRegistry.getUser(author))
+        );
+        if (user.username) names.set(author, user.username);
+      } catch (err) {
+        console.error('Failed to resolve username:', err);
+      }
+    })
+  );
+
+  return posts.map((post) => ({ ...post, authorName: names.get(post.author) }));
+}
+
+/**
+ * Track live changes to a feed without reordering it: vote, comment and
+ * status changes are overlaid on the loaded posts, and posts created in
+ * `inScope` communities by someone else are only counted until the reader
+ * asks for them.
+ */
+function useLiveFeed(inScope: (subredditId: bigint) => boolean) {
+  const { address } = useWeb3();
+  const [deltas, setDeltas] = useState<Map<string, LiveDelta>>(new Map());
+  const [newPostIds, setNewPostIds] = useState<bigint[]>([]);
+
+  useLiveEvents((event: LiveEvent) => {
+    if (event.eventName === 'PostCreated') {
+      const { postId, subredditId, author } = event.args;
+      if (author.toLowerCase() === address?.toLowerCase() || !inScope(subredditId)) return;
+      setNewPostIds((prev) => (prev.includes(postId) ? prev : [...prev, postId]));
+      return;
+    }
+    setDeltas((prev) => applyLiveEvent(prev, event) ?? prev);
+  });
+
+  /** Forget tracked changes once the feed is reloaded with them included */
+  const reset = useCallback(() => {
+    setDeltas(new Map());
+    setNewPostIds([]);
+  }, []);
+
+  /** Posts read after loading already include the votes tracked for them */
+  const forget = useCallback((ids: bigint[]) => {
+    const keys = ids.map((id) => stakeKey(id, true));
+    setDeltas((prev) => clearLiveDeltas(prev, keys));
+  }, []);
+
+  const overlay = useCallback(
+    (posts: PostData[]) => posts.map((post) => withLiveDelta(post, deltas.get(stakeKey(post.id, true)))),
+    [deltas]
+  );
+
+  return { newPostCount: newPostIds.length, overlay, reset, forget };
+}
+
+// ═══════════════════════════════════════════════════════════
+// HOME FEED
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Aggregate posts from every active community (or only joined ones) into a
+ * single paginated, sorted feed.
+ *
+ * Communities are merged newest-first by watermark: a post is only shown
+ * once it's at least as new as everything still unfetched, so no later
+ * chunk can hold a post that belongs above it. Each page is ranked among
+ * the posts revealed so far and appended; pages already shown never move.
+ */
+export function useHomeFeed({
+  sortBy,
+  topWindow = 'all',
+  archive = 'all',
+  scope = 'all',
+  pageSize = 25,
+}: FeedOptions) {
+  const { address, contracts, readProvider } = useWeb3();
+  const [shown, setShown] = useState<PostData[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const cursors = useRef<CommunityCursor[]>([]);
+  // Every post fetched so far, shown or not
+  const pool = useRef<PostData[]>([]);
+  const isLoaded = useRef(false);
+  // Bumped by every load and re-rank; older ones drop their results
+  const request = useRef(0);
+  const live = useLiveFeed((subredditId) => cursors.current.some((c) => c.id === subredditId));
+
+  /**
+   * Fetch the next (older) chunk of one community's posts. Nothing is
+   * recorded until every read succeeded, so a failed chunk is fetched again
+   * next time instead of skipped.
+   */
+  const fetchChunk = useCallback(
+    async (cursor: CommunityCursor) => {
+      if (!contracts.postManager || !contracts.voting || !contracts.userRegistry) {
+        throw new Error('Contract not initialized');
+      }
+      const offset = Math.max(0, cursor.remaining - pageSize);
+      const limit = cursor.remaining - offset;
+      const ids = await fetchSubredditPostIds(contracts.postManager, readProvider, cursor.id, offset, limit);
+      const posts = await fetchPosts(contracts.postManager, contracts.voting, [...ids]);
+      const named = await attachUsernames(contracts.userRegistry, posts);
+      return { cursor, offset, posts: named.map((post) => ({ ...post, subredditName: cursor.name })) };
+    },
+    [contracts.postManager, contracts.voting, contracts.userRegistry, readProvider, pageSize]
+  );
+
+  const applyChunk = ({ cursor, offset, posts }: Awaited<ReturnType<typeof fetchChunk>>) => {
+    // A chunk from before a reload belongs to cursors no longer in use
+    if (!cursors.current.includes(cursor)) return;
+    cursor.remaining = offset;
+    for (const post of posts) {
+      if (cursor.watermark === null || post.createdAt < cursor.watermark) cursor.watermark = post.createdAt;
+    }
+    const seen = new Set(pool.current.map((p) => p.id));
+    pool.current = [...pool.current, ...posts.filter((p) => !seen.has(p.id))];
+    live.forget(posts.map((p) => p.id));
+  };
+
+  /**
+   * Reveal the next page after `before`, first pulling chunks from whichever
+   * community holds the merge back until a full page can be shown
+   */
+  const nextPage = useCallback(
+    async (before: PostData[]) => {
+      const now = nowSeconds();
+      const options = { window: topWindow, archive, now };
+      const oldest = oldestRankable(sortBy, options);
+      const shownIds = new Set(before.map((p) => p.id));
+      const candidates = (frontier: bigint | null) =>
+        rankContent(
+          pool.current.filter(
+            (p) => !shownIds.has(p.id) && isListed(p) && (frontier === null || p.createdAt >= frontier)
+          ),
+          sortBy,
+          options
+        );
+
+      let frontier = frontierOf(cursors.current, oldest);
+      while (frontier !== null && candidates(frontier).length < pageSize) {
+        const holding = cursors.current.find((c) => c.remaining > 0 && c.watermark === frontier)!;
+        applyChunk(await fetchChunk(holding));
+        frontier = frontierOf(cursors.current, oldest);
+      }
+
+      const ranked = candidates(frontier);
+      return { posts: [...before, ...ranked.slice(0, pageSize)], hasMore: frontier !== null || ranked.length > pageSize };
+    },
+    [fetchChunk, sortBy, topWindow, archive, pageSize]
+  );
+  const nextPageRef = useRef(nextPage);
+  nextPageRef.current = nextPage;
+
+  // Discover communities, sample each one's newest posts and show the first page
+  const load = useCallback(async () => {
+    const id = ++request.current;
+    isLoaded.current = false;
+    if (!contracts.subredditDAO || !contracts.postManager) return;
+    if (scope === 'joined' && !address) {
+      cursors.current = [];
+      pool.current = [];
+      setShown([]);
+      setHasMore(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    live.reset();
+
+    try {
+      const count = Number(await contracts.subredditDAO.subredditCount());
+      const ids = Array.from({ length: count }, (_, i) => BigInt(i + 1));
+
+      const communities = await Promise.all(
+        ids.map(async (id): Promise<CommunityCursor | null> => {
+          const subreddit = parseSubreddit(await contracts.subredditDAO!.getSubreddit(id));
+          if (!subreddit.isActive) return null;
+          if (scope === 'joined' && !(await contracts.subredditDAO!.isMember(address!, id))) {
+            return null;
+          }
+          const postCount = await contracts.postManager!.getSubredditPostCount(id);
+          return { id, name: subreddit.name, remaining: Number(postCount), watermark: null };
+        })
+      );
+      if (id !== request.current) return;
+
+      cursors.current = communities.filter((c): c is CommunityCursor => c !== null && c.remaining > 0);
+      pool.current = [];
+      // Every community's watermark has to be known before anything is shown
+      const chunks = await Promise.all(cursors.current.map(fetchChunk));
+      chunks.forEach(applyChunk);
+
+      const page = await nextPageRef.current([]);
+      if (id !== request.current) return;
+      setShown(page.posts);
+      setHasMore(page.hasMore);
+      isLoaded.current = true;
+    } catch (err) {
+      console.error('Failed to load feed:', err);
+      if (id === request.current) setError(err as Error);
+    } finally {
+      if (id === request.current) setIsLoading(false);
+    }
+  }, [contracts.subredditDAO, contracts.postManager, address, scope, fetchChunk, live.reset]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // A new sort, window or archive filter re-ranks from the top, reusing what was fetched
+  useEffect(() => {
+    if (!isLoaded.current) return;
+    const id = ++request.current;
+    setIsLoading(true);
+    setError(null);
+    nextPage([])
+      .then((page) => {
+        if (id !== request.current) return;
+        setShown(page.posts);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => {
+        console.error('Failed to rank feed:', err);
+        if (id === request.current) setError(err as Error);
+      })
+      .finally(() => {
+        if (id === request.current) setIsLoading(false);
+      });
+  }, [nextPage]);
+
+  // Ranked when revealed, so live updates don't move posts around
+  const posts = useMemo(() => live.overlay(shown), [shown, live.overlay]);
+
+  /**
+   * Append the next page
+   */
+  const loadMore = useCallback(async () => {
+    if (isLoading || isLoadingMore || !hasMore) return;
+    const id = request.current;
+
+    setIsLoadingMore(true);
+    setError(null);
+    try {
+      const page = await nextPage(shown);
+      if (id !== request.current) return;
+      setShown(page.posts);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Failed to load more posts:', err);
+      if (id === request.current) setError(err as Error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoading, isLoadingMore, hasMore, nextPage, shown]);
+
+  return {
+    posts,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    refetch: load,
+    error,
+    newPostCount: live.newPostCount,
+    showNewPosts: load,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// SUBREDDIT FEED
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Page through a single community's posts, newest page first. Each page is
+ * ranked on its own and appended below the ones already shown.
+ */
+export function useSubredditFeed(
+  subredditId: bigint,
+  { sortBy, topWindow = 'all', archive = 'all', pageSize = 25 }: Omit<FeedOptions, 'scope'>
+) {
+  const { contracts, readProvider } = useWeb3();
+  const { data: postCount, refetch: refetchPostCount } = useSubredditPostCount(subredditId);
+  // Pages read so far, newest first, as fetched
+  const [pages, setPages] = useState<PostData[][]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // Post count when the feed was (re)loaded; pages count down from it so
+  // posts created meanwhile don't shift the pages still to come
+  const [anchor, setAnchor] = useState<{ subredditId: bigint; count: number } | null>(null);
+  const inFlight = useRef(false);
+  // Bumped on every restart; reads from before it drop their results
+  const request = useRef(0);
+  const live = useLiveFeed((id) => id === subredditId);
+
+  const anchored = anchor?.subredditId === subredditId ? anchor.count : undefined;
+  useEffect(() => {
+    if (anchored === undefined && postCount !== undefined) {
+      setAnchor({ subredditId, count: Number(postCount) });
+    }
+  }, [anchored, postCount, subredditId]);
+
+  // Posts are stored oldest-first, so the next page ends where the last began
+  const total = postCount !== undefined ? Number(postCount) : 0;
+  const end = Math.max(0, (anchored ?? 0) - pages.length * pageSize);
+  const offset = Math.max(0, end - pageSize);
+
+  const restart = useCallback(() => {
+    request.current++;
+    inFlight.current = false;
+    setPages([]);
+    setIsFetching(false);
+    setError(null);
+  }, []);
+
+  // Start over when switching communities
+  useEffect(() => {
+    restart();
+  }, [subredditId, restart]);
+
+  /**
+   * Read the next page and append it. Nothing advances unless every read
+   * succeeded, so a failed page is read again on retry instead of skipped.
+   */
+  const fetchNextPage = useCallback(async () => {
+    if (!contracts.postManager || !contracts.voting || !contracts.userRegistry) return;
+    if (anchored === undefined || end === 0 || inFlight.current) return;
+    const id = request.current;
+
+    inFlight.current = true;
+    setIsFetching(true);
+    setError(null);
+    try {
+      const ids = await fetchQuery(queryKeys.subredditPosts(subredditId, offset, end - offset), () =>
+        fetchSubredditPostIds(contracts.postManager!, readProvider, subredditId, offset, end - offset)
+      );
+      const posts = await fetchPosts(contracts.postManager, contracts.voting, [...ids]);
+      const named = await attachUsernames(contracts.userRegistry, posts);
+      if (id !== request.current) return;
+      setPages((prev) => [...prev, named]);
+      live.forget(named.map((p) => p.id));
+    } catch (err) {
+      console.error('Failed to fetch subreddit feed:', err);
+      if (id === request.current) setError(err as Error);
+    } finally {
+      if (id === request.current) {
+        inFlight.current = false;
+        setIsFetching(false);
+      }
+    }
+  }, [
+    contracts.postManager,
+    contracts.voting,
+    contracts.userRegistry,
+    readProvider,
+    subredditId,
+    anchored,
+    offset,
+    end,
+    live.forget,
+  ]);
+
+  // The first page loads by itself; after a failure it waits for a retry
+  useEffect(() => {
+    if (pages.length === 0 && !error) fetchNextPage();
+  }, [pages.length, error, fetchNextPage]);
+
+  // Ranked on the values as loaded, so live updates don't move posts around
+  const posts = useMemo(
+    () =>
+      live.overlay(
+        pages.flatMap((page) => rankContent(page.filter(isListed), sortBy, { window: topWindow, archive }))
+      ),
+    [pages, sortBy, topWindow, archive, live.overlay]
+  );
+
+  const isLoading =
+    Boolean(contracts.postManager && subredditId) &&
+    !error &&
+    (anchored === undefined || (pages.length === 0 && anchored > 0));
+  const isLoadingMore = pages.length > 0 && isFetching;
+  const hasMore = pages.length > 0 && end > 0;
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || isFetching) return;
+    fetchNextPage();
+  }, [hasMore, isFetching, fetchNextPage]);
+
+  /**
+   * Start over from the newest page, picking up posts created since loading
+   */
+  const showNewPosts = useCallback(async () => {
+    try {
+      const count = await refetchPostCount();
+      if (count === undefined) return;
+      live.reset();
+      setAnchor({ subredditId, count: Number(count) });
+      restart();
+    } catch (err) {
+      console.error('Failed to load new posts:', err);
+    }
+  }, [refetchPostCount, live.reset, subredditId, restart]);
+
+  return {
+    posts,
+    total,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    retry: fetchNextPage,
+    newPostCount: live.newPostCount,
+    showNewPosts,
+  };
+}
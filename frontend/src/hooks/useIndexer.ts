@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useWeb3 } from '@/context/Web3Context';
+import { useIndexerStatus } from '@/store/indexerStatus';
+import { EVENTS_CONFIG } from '@/config/contracts';
+import { syncIndex } from '@/utils/indexer';
+
+/** How often the index is brought up to the chain head */
+const SYNC_INTERVAL_MS = 15_000;
+
+/**
+ * Run the browser indexer: backfill protocol events into IndexedDB, then
+ * keep following the chain head. Mount once, inside the Web3Provider. Does
+ * nothing unless the indexer is enabled, and refuses to start without a
+ * deployment block to backfill from.
+ */
+export function useIndexerSync() {
+  const { readProvider } = useWeb3();
+
+  useEffect(() => {
+    if (!EVENTS_CONFIG.browserIndexer) return;
+    if (EVENTS_CONFIG.deploymentBlock <= 0) {
+      const error = 'Browser indexer disabled: NEXT_PUBLIC_DEPLOYMENT_BLOCK is not set';
+      console.warn(error);
+      useIndexerStatus.setState({ error });
+      return;
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const sync = async () => {
+      useIndexerStatus.setState({ isSyncing: true });
+      try {
+        const progress = await syncIndex(readProvider, {
+          signal: controller.signal,
+          onProgress: (p) => useIndexerStatus.setState({ ...p, error: null }),
+        });
+        useIndexerStatus.setState({ ...progress, error: null });
+      } catch (err) {
+        console.error('Failed to sync event index:', err);
+        useIndexerStatus.setState({ error: err instanceof Error ? err.message : String(err) });
+      }
+      useIndexerStatus.setState({ isSyncing: false });
+      if (!controller.signal.aborted) timer = setTimeout(sync, SYNC_INTERVAL_MS);
+    };
+
+    sync();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [readProvider]);
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Call `onReachEnd` whenever the returned sentinel element scrolls into view
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+  onReachEnd: () => void,
+  enabled: boolean = true,
+  rootMargin: string = '400px'
+) {
+  const sentinelRef = useRef<T>(null);
+  const callbackRef = useRef(onReachEnd);
+  callbackRef.current = onReachEnd;
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !enabled || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          callbackRef.current();
+        }
+      },
+      { rootMargin }
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return sentinelRef;
+}
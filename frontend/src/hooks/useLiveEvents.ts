@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useWeb3 } from '@/context/Web3Context';
+import { invalidateQueries, queryKeys } from '@/store/queryCache';
+import type { LiveEventListener } from '@/utils/liveEvents';
+
+/**
+ * Call `listener` for every new PostManager and Voting event while mounted
+ */
+export function useLiveEvents(listener: LiveEventListener) {
+  const { subscribeLiveEvents } = useWeb3();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeLiveEvents((event) => listenerRef.current(event)), [subscribeLiveEvents]);
+}
+
+/**
+ * Mark cached reads stale when a new event changes them, so mounted views
+ * of a single post or comment refetch. Lists (feeds, comment trees) keep
+ * their order and track new items themselves. Mount once, inside the
+ * Web3Provider.
+ */
+export function useLiveQuerySync() {
+  useLiveEvents((event) => {
+    switch (event.eventName) {
+      case 'Voted':
+      case 'VoteChanged': {
+        const { contentId, isPost } = event.args;
+        invalidateQueries(
+          queryKeys.voteCounts(contentId, isPost),
+          queryKeys.voteHistory(contentId, isPost),
+          isPost ? queryKeys.post(contentId) : queryKeys.comment(contentId)
+        );
+        break;
+      }
+      case 'ContentStatusChanged': {
+        const { contentId, isPost } = event.args;
+        invalidateQueries(isPost ? queryKeys.post(contentId) : queryKeys.comment(contentId));
+        break;
+      }
+      case 'CommentCreated': {
+        const { postId, parentId } = event.args;
+        invalidateQueries(queryKeys.post(postId), queryKeys.postComments(postId));
+        if (parentId) invalidateQueries(queryKeys.commentReplies(parentId));
+        break;
+      }
+    }
+  });
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { nowSeconds, secondsUntil } from '@/utils/time';
+
+/**
+ * Current unix time in seconds, re-rendering every `intervalMs` so
+ * countdowns stay live
+ */
+export function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(nowSeconds);
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(nowSeconds()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
+
+/**
+ * Seconds left until `timestamp`, ticking every second and stopping once it
+ * reaches zero
+ */
+export function useSecondsUntil(timestamp: number | bigint | null | undefined): number {
+  const target = timestamp === null || timestamp === undefined ? null : Number(timestamp);
+  const [remaining, setRemaining] = useState(() => (target === null ? 0 : secondsUntil(target)));
+
+  useEffect(() => {
+    if (target === null) {
+      setRemaining(0);
+      return;
+    }
+    const tick = () => {
+      const left = secondsUntil(target);
+      setRemaining(left);
+      return left;
+    };
+    if (tick() === 0) return;
+    const id = setInterval(() => {
+      if (tick() === 0) clearInterval(id);
+    }, 1000);
+    return () => clearInterval(id);
+  }, [target]);
+
+  return remaining;
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useWeb3 } from '@/context/Web3Context';
+import { useContractQuery } from '@/hooks/useContractQuery';
+import { parseComment, parsePost } from '@/utils/encoding';
+import {
+  buildStakePositions,
+  fetchStakeEvents,
+  stakeKey,
+  votedContent,
+  type StakePosition,
+} from '@/utils/stakes';
+import { fetchQuery, queryKeys } from '@/store/queryCache';
+import type { PostManager, Vote } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export interface StakeEntry extends StakePosition {
+  /** Post title, or an excerpt of the comment */
+  label: string;
+  /** Thread the vote was cast in */
+  postId: bigint;
+}
+
+/** Shared empty result so consumers keep a stable reference */
+const NO_STAKES: StakeEntry[] = [];
+
+// ═══════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Label each position with the content it was staked on
+ */
+async function attachContent(postManager: PostManager, positions: StakePosition[]): Promise<StakeEntry[]> {
+  return Promise.all(
+    positions.map(async (position) => {
+      const { contentId } = position;
+      if (position.isPost) {
+        const post = await fetchQuery(queryKeys.post(contentId), async () =>
+          parsePost(await postManager.getPost(contentId))
+        );
+        return { ...position, label: post.title, postId: contentId };
+      }
+      const comment = await fetchQuery(queryKeys.comment(contentId), async () =>
+        parseComment(await postManager.getComment(contentId))
+      );
+      const excerpt = comment.content.length > 80 ? `${comment.content.slice(0, 80)}…` : comment.content;
+      return { ...position, label: excerpt, postId: comment.postId };
+    })
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// HOOK
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Every stake a wallet has placed, newest vote first
+ */
+export function useStakes(address?: string) {
+  const { contracts, readProvider } = useWeb3();
+
+  const { data, isLoading, isFetching, error, refetch } = useContractQuery<StakeEntry[]>(
+    queryKeys.stakes(address ?? ''),
+    contracts.voting && contracts.postManager && address
+      ? async () => {
+          const voting = contracts.voting!;
+          const events = await fetchStakeEvents(readProvider, voting, address);
+
+          const voted = votedContent(events);
+          const votes = new Map<string, Vote>();
+          await Promise.all(
+            voted.map(async ({ contentId, isPost }) => {
+              votes.set(stakeKey(contentId, isPost), await voting.getVote(contentId, isPost, address));
+            })
+          );
+
+          const positions = buildStakePositions(events, votes).reverse();
+          return attachContent(contracts.postManager!, positions);
+        }
+      : null
+  );
+
+  return { data: data ?? NO_STAKES, isLoading, isFetching, error, refetch };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useWeb3 } from '@/context/Web3Context';
+import { monadTestnet } from '@/config/contracts';
+import { isSettled, resumeTransactions, useTransactionStore } from '@/store/transactions';
+
+/**
+ * The connected wallet's recent transactions on this chain, newest first
+ */
+export function useWalletTransactions() {
+  const { address } = useWeb3();
+  const wallet = address?.toLowerCase();
+  const transactions = useTransactionStore(
+    useShallow((s) => s.transactions.filter((t) => t.from === wallet && t.chainId === monadTestnet.id))
+  );
+
+  return {
+    transactions,
+    pendingCount: transactions.filter((t) => !isSettled(t.status)).length,
+  };
+}
+
+/**
+ * Resume waiting on transactions left pending by an earlier visit. Mount
+ * once, inside the Web3Provider.
+ */
+export function useTransactionSync() {
+  const { readProvider } = useWeb3();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    resumeTransactions(readProvider, controller.signal);
+    return () => controller.abort();
+  }, [readProvider]);
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { toBeHex, zeroPadValue } from 'ethers';
+import { useWeb3 } from '@/context/Web3Context';
+import { useContractQuery } from '@/hooks/useContractQuery';
+import { useVoteCounts } from '@/hooks/useContracts';
+import { eventTopics, parseEventLogs } from '@/utils/logs';
+import { readLogs } from '@/utils/indexer';
+import {
+  VOTE_HISTORY_EVENTS,
+  blocksNeedingTimestamps,
+  buildVoteTimeline,
+  stakeBySide,
+  votersOf,
+  type StakeBySide,
+  type VoteTimelinePoint,
+} from '@/utils/voteAnalytics';
+import { queryKeys } from '@/store/queryCache';
+
+interface VoteHistory extends StakeBySide {
+  timeline: VoteTimelinePoint[];
+  voterCount: number;
+}
+
+/**
+ * Vote counts, stake per side and the vote timeline for one piece of
+ * content, rebuilt from its Voting logs
+ */
+export function useVoteBreakdown(contentId: bigint, isPost: boolean) {
+  const { contracts, readProvider } = useWeb3();
+  const { data: counts } = useVoteCounts(contentId, isPost);
+
+  const { data: history, isLoading, error } = useContractQuery<VoteHistory>(
+    queryKeys.voteHistory(contentId, isPost),
+    contracts.voting && contentId
+      ? async () => {
+          const voting = contracts.voting!;
+          const logs = await readLogs(
+            readProvider,
+            {
+              address: await voting.getAddress(),
+              topics: [eventTopics(voting, VOTE_HISTORY_EVENTS), zeroPadValue(toBeHex(contentId), 32)],
+            },
+            { events: VOTE_HISTORY_EVENTS, where: { contentId, isPost } }
+          );
+          // Posts and comments share id space; isPost isn't indexed
+          const events = parseEventLogs(voting, logs, VOTE_HISTORY_EVENTS).filter(
+            (event) => event.args.isPost === isPost
+          );
+
+          const voters = votersOf(events);
+          const [votes, blocks] = await Promise.all([
+            Promise.all(voters.map((voter) => voting.getVote(contentId, isPost, voter))),
+            Promise.all(blocksNeedingTimestamps(events).map((n) => readProvider.getBlock(n))),
+          ]);
+
+          const blockTimes = new Map<number, number>();
+          for (const block of blocks) {
+            if (block) blockTimes.set(block.number, block.timestamp);
+          }
+
+          return {
+            ...stakeBySide(votes),
+            timeline: buildVoteTimeline(events, blockTimes),
+            voterCount: voters.length,
+          };
+        }
+      : null
+  );
+
+  return { counts, history, isLoading, error };
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useWeb3 } from '@/context/Web3Context';
+import { useNow } from '@/hooks/useNow';
+import { useVotingWindow } from '@/hooks/useVotingWindow';
+import {
+  applyVoteEvents,
+  markHistorySynced,
+  requestVoteStates,
+  useVoteStateStore,
+  type VoteState,
+} from '@/store/voteState';
+import { fetchStakeEvents, minStake, stakeKey, type StakeStatus } from '@/utils/stakes';
+import { formatEther } from 'ethers';
+import { PROTOCOL_CONSTANTS, monadTestnet } from '@/config/contracts';
+import { formatDuration } from '@/utils/time';
+
+/** How often the wallet's new Voting events are polled for */
+const SYNC_INTERVAL_MS = 15_000;
+
+const LOCK_SECONDS = PROTOCOL_CONSTANTS.STAKE_LOCK_HOURS * 3600;
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+// ═══════════════════════════════════════════════════════════
+// READING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * The connected wallet's vote on one piece of content. `createdAt` lets
+ * `canChange` account for the voting window (archived content is final).
+ */
+export function useVoteState(contentId: bigint, isPost: boolean, createdAt?: bigint) {
+  const { address, contracts } = useWeb3();
+  const now = useNow(30_000);
+  const { isArchived } = useVotingWindow(createdAt);
+  const state: VoteState | undefined = useVoteStateStore((s) =>
+    address ? s.byWallet[address.toLowerCase()]?.[stakeKey(contentId, isPost)] : undefined
+  );
+  const historySynced = useVoteStateStore((s) => (address ? !!s.historySynced[address.toLowerCase()] : false));
+
+  useEffect(() => {
+    if (!contracts.voting || !address || !contentId) return;
+    requestVoteStates(contracts.voting, address, [{ contentId, isPost }]);
+  }, [contracts.voting, address, contentId, isPost]);
+
+  const hasVote = !!state && state.voteType !== 0;
+  const unlockTime = hasVote ? state.timestamp + LOCK_SECONDS : null;
+
+  let stakeStatus: StakeStatus | null = null;
+  if (hasVote) {
+    if (state.slashed) stakeStatus = 'slashed';
+    else if (state.withdrawn) stakeStatus = 'withdrawn';
+    else stakeStatus = now < unlockTime! ? 'locked' : 'withdrawable';
+  }
+
+  // A change tops up the existing stake, which would then be stuck behind a
+  // withdrawn or slashed flag. Those flags only come from the event history,
+  // so an existing vote stays put until it has been replayed.
+  let lockedReason: string | null = null;
+  if (isArchived) lockedReason = 'Archived: voting closed';
+  else if (stakeStatus === 'withdrawn') lockedReason = 'Your stake was withdrawn, so this vote is final';
+  else if (stakeStatus === 'slashed') lockedReason = 'Your stake was slashed, so this vote is final';
+  else if (address && !state) lockedReason = 'Loading your vote';
+  else if (hasVote && !historySynced) lockedReason = "Your vote history hasn't loaded, so this vote can't be changed yet";
+
+  /** Tooltip for a vote arrow */
+  const titleFor = (voteType: 1 | 2): string => {
+    const verb = voteType === 1 ? 'Upvote' : 'Downvote';
+    if (hasVote && state.voteType === voteType) {
+      const staked = `${verb}d with ${formatEther(state.stake)} ${symbol}`;
+      switch (stakeStatus) {
+        case 'locked':
+          return `${staked}, unlocks in ${formatDuration(unlockTime! - now)}`;
+        case 'withdrawable':
+          return `${staked}, ready to withdraw`;
+        case 'withdrawn':
+          return `${verb}d; stake withdrawn`;
+        default:
+          return `${verb}d; stake slashed`;
+      }
+    }
+    return lockedReason ?? `${verb} (stake from ${formatEther(minStake(voteType))} ${symbol})`;
+  };
+
+  return {
+    /** 0 = none, 1 = upvote, 2 = downvote; null until loaded */
+    voteType: state ? state.voteType : null,
+    stake: hasVote ? state.stake : null,
+    unlockTime,
+    stakeStatus,
+    /** Whether a vote in the other direction (or a first vote) can be sent */
+    canChange: lockedReason === null,
+    lockedReason,
+    titleFor,
+    isLoading: !!address && !state,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// SYNCING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Keep the vote state store in step with the connected wallet's Voting
+ * events: replay its history from the deployment block once, then poll for
+ * new blocks. A failed replay (including an unset deployment block) is
+ * retried and leaves the wallet unsynced. Mount once, inside the
+ * Web3Provider.
+ */
+export function useVoteStateSync() {
+  const { address, contracts, readProvider } = useWeb3();
+  // Contracts are recreated when the signer changes; that alone shouldn't
+  // trigger another full history replay
+  const votingRef = useRef(contracts.voting);
+  votingRef.current = contracts.voting;
+
+  useEffect(() => {
+    if (!address) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let nextBlock: number | undefined;
+
+    const sync = async () => {
+      const voting = votingRef.current;
+      try {
+        if (!voting) throw new Error('Contract not initialized');
+        const toBlock = await readProvider.getBlockNumber();
+        if (nextBlock === undefined || toBlock >= nextBlock) {
+          const events = await fetchStakeEvents(readProvider, voting, address, {
+            fromBlock: nextBlock,
+            toBlock,
+          });
+          if (cancelled) return;
+          applyVoteEvents(voting, address, events);
+          if (nextBlock === undefined) markHistorySynced(address);
+          nextBlock = toBlock + 1;
+        }
+      } catch (err) {
+        console.error('Failed to sync vote state:', err);
+      }
+      if (!cancelled) timer = setTimeout(sync, SYNC_INTERVAL_MS);
+    };
+
+    sync();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [address, readProvider]);
+}
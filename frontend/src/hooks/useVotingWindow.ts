@@ -0,0 +1,22 @@
+'use client';
+
+import { useNow } from '@/hooks/useNow';
+import { isArchived, votingClosesAt } from '@/utils/time';
+
+/**
+ * Voting window of a piece of content, refreshed every minute
+ */
+export function useVotingWindow(createdAt: bigint | undefined) {
+  const now = useNow(60_000);
+
+  if (createdAt === undefined) {
+    return { isArchived: false, closesAt: null, secondsLeft: null };
+  }
+
+  const closesAt = votingClosesAt(createdAt);
+  return {
+    isArchived: isArchived(createdAt, now),
+    closesAt,
+    secondsLeft: Math.max(0, closesAt - now),
+  };
+}
@@ -4,14 +4,16 @@ import { useState, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import { useWeb3 } from '@/context/Web3Context';
 import { Header } from '@/components/Header';
+import { CostEstimate } from '@/components/CostEstimate';
 import { useIsRegistered, useCreateSubreddit } from '@/hooks/useContracts';
+import { useCostEstimate } from '@/hooks/useCostEstimate';
 import { PROTOCOL_CONSTANTS } from '@/config/contracts';
 
 export default function CreateCommunityPage() {
   const router = useRouter();
   const { address, isConnected } = useWeb3();
   const { data: isRegistered } = useIsRegistered(address || undefined);
-  const { createSubreddit, isPending, error } = useCreateSubreddit();
+  const { createSubreddit, estimate, isPending, error } = useCreateSubreddit();
 
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
@@ -20,6 +22,14 @@ export default function CreateCommunityPage() {
   const [postCooldown, setPostCooldown] = useState(60);
   const [validationError, setValidationError] = useState('');
 
+  const cost = useCostEstimate(
+    isRegistered && name && !validationError
+      ? JSON.stringify([name, description, minKarmaToPost, minKarmaToComment, postCooldown])
+      : null,
+    () => estimate(name, description, minKarmaToPost, minKarmaToComment, postCooldown)
+  );
+  const cannotSubmit = isPending || !!validationError || !name || cost.isInsufficient;
+
   // Name validation
   const validateName = useCallback((value: string) => {
     if (value.length < 3) {
@@ -222,6 +232,13 @@ export default function CreateCommunityPage() {
                   Creating a community costs <strong>{PROTOCOL_CONSTANTS.SUBREDDIT_CREATION_COST} MON</strong>.
                   This is sent to the community treasury.
                 </p>
+                <CostEstimate
+                  estimate={cost.data}
+                  isLoading={cost.isLoading}
+                  error={cost.error}
+                  valueLabel="Creation fee"
+                  className="mt-3"
+                />
               </div>
             </div>
           </div>
@@ -260,9 +277,9 @@ export default function CreateCommunityPage() {
             </button>
             <button
               type="submit"
-              disabled={isPending || !!validationError || !name}
+              disabled={cannotSubmit}
               className={`flex-1 py-3 rounded-full font-semibold text-white transition-all shadow-md hover:shadow-lg ${
-                isPending || !!validationError || !name
+                cannotSubmit
                   ? 'bg-gray-400 cursor-not-allowed'
                   : 'bg-gradient-to-r from-bread-500 to-bread-600 hover:from-bread-600 hover:to-bread-700'
               }`}
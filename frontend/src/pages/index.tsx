@@ -1,34 +1,42 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useWeb3 } from '@/context/Web3Context';
 import { Header } from '@/components/Header';
 import { Sidebar } from '@/components/Sidebar';
-import { PostCard, type PostData } from '@/components/PostCard';
-import { useIsRegistered, useSubredditPosts } from '@/hooks/useContracts';
-
-// Feed sort options
-type SortOption = 'hot' | 'new' | 'top';
+import { PostCard } from '@/components/PostCard';
+import { NewContentBanner } from '@/components/NewContentBanner';
+import { useIsRegistered } from '@/hooks/useContracts';
+import { useHomeFeed, type FeedScope } from '@/hooks/useFeed';
+import {
+  ARCHIVE_FILTERS,
+  SORT_OPTIONS,
+  TOP_WINDOWS,
+  type ArchiveFilter,
+  type SortOption,
+  type TopWindow,
+} from '@/utils/ranking';
 
 export default function Home() {
   const { address } = useWeb3();
   const { data: isRegistered } = useIsRegistered(address || undefined);
   const [sortBy, setSortBy] = useState<SortOption>('hot');
-  const [posts, setPosts] = useState<PostData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [topWindow, setTopWindow] = useState<TopWindow>('day');
+  const [scope, setScope] = useState<FeedScope>('all');
+  const [archive, setArchive] = useState<ArchiveFilter>('all');
 
   // Load real posts from blockchain
-  useEffect(() => {
-    const loadPosts = async () => {
-      setIsLoading(true);
-      // TODO: Implement fetching posts from all subreddits
-      // For now, show empty state
-      setPosts([]);
-      setIsLoading(false);
-    };
+  const { posts, isLoading, isLoadingMore, hasMore, loadMore, newPostCount, showNewPosts } = useHomeFeed({
+    sortBy,
+    topWindow,
+    archive,
+    scope: address ? scope : 'all',
+  });
 
-    loadPosts();
-  }, [sortBy]);
+  const handleShowNewPosts = () => {
+    showNewPosts();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -41,7 +49,7 @@ export default function Home() {
             {/* Sort Options */}
             <div className="card p-3">
               <div className="flex gap-2">
-                {(['hot', 'new', 'top'] as SortOption[]).map((option) => (
+                {SORT_OPTIONS.map((option) => (
                   <button
                     key={option}
                     onClick={() => setSortBy(option)}
@@ -54,10 +62,65 @@ export default function Home() {
                     {option === 'hot' && '🔥 '}
                     {option === 'new' && '✨ '}
                     {option === 'top' && '📈 '}
+                    {option === 'controversial' && '⚔️ '}
                     {option}
                   </button>
                 ))}
               </div>
+
+              {/* Time Window */}
+              {(sortBy === 'top' || sortBy === 'controversial') && (
+                <div className="flex items-center gap-2 mt-3 text-sm text-gray-500">
+                  <span>From:</span>
+                  <select
+                    value={topWindow}
+                    onChange={(e) => setTopWindow(e.target.value as TopWindow)}
+                    className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-gray-700 capitalize"
+                  >
+                    {(Object.keys(TOP_WINDOWS) as TopWindow[]).map((window) => (
+                      <option key={window} value={window}>
+                        {window === 'all' ? 'All time' : `Past ${window}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Voting Window */}
+              <div className="flex items-center gap-2 mt-3 pt-3 border-t border-gray-100 text-sm">
+                {ARCHIVE_FILTERS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setArchive(option)}
+                    className={`px-3 py-1 rounded-full font-medium transition-colors ${
+                      archive === option
+                        ? 'bg-bread-100 text-bread-700'
+                        : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option === 'all' ? 'Any age' : option === 'open' ? '🗳 Open for voting' : '📦 Archived'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Feed Scope */}
+              {address && (
+                <div className="flex gap-2 mt-3 pt-3 border-t border-gray-100 text-sm">
+                  {(['all', 'joined'] as FeedScope[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setScope(option)}
+                      className={`px-3 py-1 rounded-full font-medium transition-colors ${
+                        scope === option
+                          ? 'bg-bread-100 text-bread-700'
+                          : 'text-gray-500 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option === 'all' ? 'All communities' : 'My communities'}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Welcome Banner for New Users */}
@@ -78,6 +141,7 @@ export default function Home() {
             )}
 
             {/* Posts */}
+            <NewContentBanner count={newPostCount} noun="post" onShow={handleShowNewPosts} />
             {isLoading ? (
               <div className="space-y-4">
                 {[1, 2, 3].map((i) => (
@@ -97,8 +161,17 @@ export default function Home() {
             ) : posts.length > 0 ? (
               <div className="space-y-4">
                 {posts.map((post) => (
-                  <PostCard key={post.id.toString()} post={post} />
+                  <PostCard key={post.id.toString()} post={post} subredditName={post.subredditName} />
                 ))}
+                {hasMore && (
+                  <button
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                    className="btn-secondary w-full"
+                  >
+                    {isLoadingMore ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
               </div>
             ) : (
               <div className="card p-16 text-center">
@@ -1,26 +1,44 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import { useWeb3 } from '@/context/Web3Context';
 import { formatDistanceToNow } from 'date-fns';
 import { Header } from '@/components/Header';
 import { CommentSection } from '@/components/Comment';
-import { usePost, useVote, useVoteCounts } from '@/hooks/useContracts';
+import { VoteStakePopover } from '@/components/VoteStakePopover';
+import { VotingWindowBadge } from '@/components/VotingWindowBadge';
+import { VoteBreakdownPanel } from '@/components/VoteBreakdownPanel';
+import { ModeratorMenu } from '@/components/ModeratorMenu';
+import { FlaggedBadge, RemovedNotice } from '@/components/ContentStatus';
+import { ReportDialog } from '@/components/ReportDialog';
+import { usePost, useVote } from '@/hooks/useContracts';
+import { useVoteState } from '@/hooks/useVoteState';
+import { useVotingWindow } from '@/hooks/useVotingWindow';
+import { parseIdParam } from '@/utils/encoding';
 import { getIPFSUrl } from '@/utils/ipfs';
+import { CONTENT_STATUS, isRemoved, type StatusChange } from '@/utils/moderation';
 
 export default function PostPage() {
   const router = useRouter();
-  const { id } = router.query;
+  const { id, comment } = router.query;
   const { address } = useWeb3();
   
-  const postId = id ? BigInt(id as string) : 0n;
+  const postId = parseIdParam(id) ?? 0n;
+  const rootCommentId = parseIdParam(comment);
   const { data: post, isLoading: loadingPost } = usePost(postId);
-  const { vote, userVote, isPending: voting } = useVote(postId, true);
-  const { data: voteCounts } = useVoteCounts(postId, true);
+  const { vote, estimate, isPending: voting } = useVote(postId, true);
+  const { voteType: userVote, canChange, titleFor } = useVoteState(postId, true, post?.createdAt);
+  const { isArchived } = useVotingWindow(post?.createdAt);
 
   const [currentVote, setCurrentVote] = useState<1 | 2 | null>(null);
   const [localScore, setLocalScore] = useState(0n);
+  const [confirmingVote, setConfirmingVote] = useState<1 | 2 | null>(null);
+  const [statusChange, setStatusChange] = useState<StatusChange | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const closeStakePicker = useCallback(() => setConfirmingVote(null), []);
+  const closeReport = useCallback(() => setIsReporting(false), []);
 
   useEffect(() => {
     if (post?.score !== undefined) {
@@ -34,18 +52,21 @@ export default function PostPage() {
     }
   }, [userVote]);
 
-  const handleVote = async (voteType: 1 | 2) => {
-    if (!address) return;
-    
+  const handleVote = (voteType: 1 | 2) => {
+    // A vote can be switched but not retracted, so re-clicking it does nothing;
+    // the arrow's tooltip explains a locked vote
+    if (!address || currentVote === voteType || !canChange) return;
+
+    setConfirmingVote(voteType);
+  };
+
+  const submitVote = async (voteType: 1 | 2, stake: bigint) => {
+    setConfirmingVote(null);
+
     // Optimistic update
     const prevVote = currentVote;
     const prevScore = localScore;
     
-    if (currentVote === voteType) {
-      // Already voted this way - could implement unvote
-      return;
-    }
-    
     setCurrentVote(voteType);
     if (voteType === 1) {
       setLocalScore(prev => prev + (prevVote === 2 ? 2n : 1n));
@@ -54,7 +75,7 @@ export default function PostPage() {
     }
     
     try {
-      await vote(voteType);
+      await vote(voteType, stake);
     } catch (err) {
       // Revert on error
       setCurrentVote(prevVote);
@@ -81,6 +102,20 @@ export default function PostPage() {
   const isMedia = post.postType === 1 || post.postType === 2;
   const isImage = post.mimeType?.startsWith('image/');
   const isVideo = post.mimeType?.startsWith('video/');
+  const status = statusChange?.newStatus ?? post.status;
+  const isHidden = isRemoved(status);
+
+  const moderatorMenu = (
+    <ModeratorMenu
+      contentId={postId}
+      isPost
+      subredditId={post.subredditId}
+      status={status}
+      lastChange={statusChange}
+      onStatusChange={setStatusChange}
+      buttonClassName="flex items-center gap-1 hover:bg-gray-100 px-2 py-1 rounded"
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -90,10 +125,11 @@ export default function PostPage() {
         <div className="card">
           <div className="flex gap-4">
             {/* Vote Column */}
-            <div className="flex flex-col items-center gap-1 min-w-[40px]">
+            <div className={`relative flex flex-col items-center gap-1 min-w-[40px] ${isArchived ? 'opacity-60' : ''}`}>
               <button
                 onClick={() => handleVote(1)}
-                disabled={voting || !address}
+                disabled={voting || !address || (currentVote !== 1 && !canChange)}
+                title={titleFor(1)}
                 className={`p-2 rounded-lg transition-colors ${
                   currentVote === 1 ? 'text-bread-500 bg-bread-100' : 'text-gray-400 hover:text-bread-500 hover:bg-bread-50'
                 }`}
@@ -112,7 +148,8 @@ export default function PostPage() {
               
               <button
                 onClick={() => handleVote(2)}
-                disabled={voting || !address}
+                disabled={voting || !address || (currentVote !== 2 && !canChange)}
+                title={titleFor(2)}
                 className={`p-2 rounded-lg transition-colors ${
                   currentVote === 2 ? 'text-blue-600 bg-blue-100' : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'
                 }`}
@@ -121,6 +158,17 @@ export default function PostPage() {
                   <path d="M12 20l-8-8h6V4h4v8h6l-8 8z" />
                 </svg>
               </button>
+
+              {confirmingVote && (
+                <VoteStakePopover
+                  voteType={confirmingVote}
+                  isChange={currentVote !== null}
+                  onConfirm={(stake) => submitVote(confirmingVote, stake)}
+                  onEstimate={(stake) => estimate(confirmingVote, stake)}
+                  onCancel={closeStakePicker}
+                  className="left-full top-0 ml-2"
+                />
+              )}
             </div>
 
             {/* Content */}
@@ -137,22 +185,36 @@ export default function PostPage() {
                 <span>Posted by u/{post.author.slice(0, 6)}...{post.author.slice(-4)}</span>
                 <span>•</span>
                 <span>{timeAgo}</span>
+                {status === CONTENT_STATUS.FLAGGED && <FlaggedBadge />}
+                <VotingWindowBadge createdAt={post.createdAt} className="ml-auto" />
               </div>
 
+              {isHidden && (
+                <RemovedNotice
+                  contentId={postId}
+                  isPost
+                  revealed={revealed}
+                  onToggle={() => setRevealed(!revealed)}
+                  className="mb-4"
+                />
+              )}
+
               {/* Title */}
-              <h1 className="text-2xl font-bold text-gray-900 mb-4">
-                {post.title}
-              </h1>
+              {(!isHidden || revealed) && (
+                <h1 className="text-2xl font-bold text-gray-900 mb-4">
+                  {post.title}
+                </h1>
+              )}
 
               {/* Content */}
-              {post.body && (
+              {post.body && (!isHidden || revealed) && (
                 <div className="prose max-w-none mb-6">
                   <p className="text-gray-800 whitespace-pre-wrap">{post.body}</p>
                 </div>
               )}
 
               {/* Media */}
-              {isMedia && post.ipfsCid && (
+              {isMedia && post.ipfsCid && (!isHidden || revealed) && (
                 <div className="mb-6">
                   {isImage && (
                     <img
@@ -182,17 +244,39 @@ export default function PostPage() {
                 <button className="flex items-center gap-1 hover:bg-gray-100 px-2 py-1 rounded">
                   ⚑ Save
                 </button>
-                <button className="flex items-center gap-1 hover:bg-gray-100 px-2 py-1 rounded">
-                  ⚠️ Report
-                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setIsReporting(true)}
+                    className="flex items-center gap-1 hover:bg-gray-100 px-2 py-1 rounded"
+                  >
+                    ⚠️ Report
+                  </button>
+
+                  {isReporting && (
+                    <ReportDialog
+                      contentId={postId}
+                      isPost
+                      subredditId={post.subredditId}
+                      author={post.author}
+                      onClose={closeReport}
+                      className="left-0 top-full mt-1"
+                    />
+                  )}
+                </div>
+                {moderatorMenu}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Vote Breakdown */}
+        <div className="mt-4">
+          <VoteBreakdownPanel contentId={postId} isPost />
+        </div>
+
         {/* Comments Section */}
         <div className="mt-4">
-          <CommentSection postId={postId} />
+          <CommentSection postId={postId} rootCommentId={rootCommentId} />
         </div>
 
         {/* Back Link */}
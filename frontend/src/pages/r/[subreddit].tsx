@@ -1,14 +1,30 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/router';
 import { useWeb3 } from '@/context/Web3Context';
 import { Header } from '@/components/Header';
 import { Sidebar } from '@/components/Sidebar';
-import { PostCard, type PostData } from '@/components/PostCard';
-import { useSubredditByName, useIsMember, useJoinSubreddit, useSubredditMemberCount } from '@/hooks/useContracts';
-
-type SortOption = 'hot' | 'new' | 'top';
+import { PostCard } from '@/components/PostCard';
+import { NewContentBanner } from '@/components/NewContentBanner';
+import {
+  useSubredditByName,
+  useIsMember,
+  useIsModerator,
+  useJoinSubreddit,
+  useSubredditMemberCount,
+  useSubredditRules,
+} from '@/hooks/useContracts';
+import { useSubredditFeed } from '@/hooks/useFeed';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import {
+  ARCHIVE_FILTERS,
+  SORT_OPTIONS,
+  TOP_WINDOWS,
+  type ArchiveFilter,
+  type SortOption,
+  type TopWindow,
+} from '@/utils/ranking';
 
 export default function SubredditPage() {
   const router = useRouter();
@@ -19,41 +35,22 @@ export default function SubredditPage() {
     typeof subredditName === 'string' ? subredditName : ''
   );
   const { data: isMember } = useIsMember(address || undefined, subreddit?.id);
+  const { data: isModerator } = useIsModerator(address || undefined, subreddit?.id);
   const { data: memberCount } = useSubredditMemberCount(subreddit?.id || 0n);
+  const { data: rules } = useSubredditRules(subreddit?.id);
   const { joinSubreddit, isPending: joining } = useJoinSubreddit();
   
   const [sortBy, setSortBy] = useState<SortOption>('hot');
-  const [posts, setPosts] = useState<PostData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Load posts for this subreddit
-  useEffect(() => {
-    if (!subredditName) return;
-    
-    setIsLoading(true);
-    
-    // Mock posts for demo
-    const mockPosts: PostData[] = [
-      {
-        id: 1n,
-        subredditId: 1n,
-        subredditName: subredditName as string,
-        author: '0x1234...5678',
-        postType: 0,
-        title: `Welcome to r/${subredditName}!`,
-        body: `This is the ${subredditName} community on Bread-it. Share posts, discuss topics, and earn karma!`,
-        ipfsCid: '',
-        mimeType: '',
-        score: 42n,
-        commentCount: 5n,
-        createdAt: BigInt(Math.floor(Date.now() / 1000) - 3600),
-        status: 0,
-      },
-    ];
+  const [topWindow, setTopWindow] = useState<TopWindow>('day');
+  const [archive, setArchive] = useState<ArchiveFilter>('all');
+  const { posts, isLoading, isLoadingMore, hasMore, loadMore, error, retry, newPostCount, showNewPosts } =
+    useSubredditFeed(subreddit?.id || 0n, { sortBy, topWindow, archive });
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !isLoading && !isLoadingMore && !error);
 
-    setPosts(mockPosts);
-    setIsLoading(false);
-  }, [subredditName, sortBy]);
+  const handleShowNewPosts = () => {
+    showNewPosts();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const handleJoin = async () => {
     if (!subreddit?.id) return;
@@ -113,6 +110,11 @@ export default function SubredditPage() {
                 >
                   Create Post
                 </a>
+                {isModerator && (
+                  <a href={`/r/${subredditName}/mod/queue`} className="btn-secondary">
+                    🛡️ Mod Queue
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -128,7 +130,7 @@ export default function SubredditPage() {
               <div className="flex items-center gap-2">
                 <span className="text-gray-500 text-sm">Sort by:</span>
                 <div className="flex gap-2">
-                  {(['hot', 'new', 'top'] as SortOption[]).map((option) => (
+                  {SORT_OPTIONS.map((option) => (
                     <button
                       key={option}
                       onClick={() => setSortBy(option)}
@@ -142,10 +144,41 @@ export default function SubredditPage() {
                     </button>
                   ))}
                 </div>
+                {(sortBy === 'top' || sortBy === 'controversial') && (
+                  <select
+                    value={topWindow}
+                    onChange={(e) => setTopWindow(e.target.value as TopWindow)}
+                    className="ml-auto bg-white border border-gray-200 rounded-full px-3 py-2 text-sm text-gray-700"
+                  >
+                    {(Object.keys(TOP_WINDOWS) as TopWindow[]).map((window) => (
+                      <option key={window} value={window}>
+                        {window === 'all' ? 'All time' : `Past ${window}`}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {/* Voting Window */}
+              <div className="flex items-center gap-2 mt-3 text-sm">
+                {ARCHIVE_FILTERS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setArchive(option)}
+                    className={`px-3 py-1 rounded-full font-medium transition-colors ${
+                      archive === option
+                        ? 'bg-bread-100 text-bread-700'
+                        : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option === 'all' ? 'Any age' : option === 'open' ? '🗳 Open for voting' : '📦 Archived'}
+                  </button>
+                ))}
               </div>
             </div>
 
             {/* Posts List */}
+            <NewContentBanner count={newPostCount} noun="post" onShow={handleShowNewPosts} />
             {isLoading ? (
               <div className="space-y-4">
                 {[1, 2, 3].map((i) => (
@@ -154,11 +187,44 @@ export default function SubredditPage() {
                   </div>
                 ))}
               </div>
+            ) : error && posts.length === 0 ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+                <p className="text-sm text-red-800">Couldn&apos;t load posts: {error.message}</p>
+                <button onClick={retry} className="btn-secondary text-sm">
+                  Try again
+                </button>
+              </div>
             ) : posts.length > 0 ? (
               <div className="space-y-4">
                 {posts.map((post) => (
-                  <PostCard key={post.id.toString()} post={post} />
+                  <PostCard
+                    key={post.id.toString()}
+                    post={post}
+                    subredditName={subredditName as string}
+                    showSubreddit={false}
+                  />
                 ))}
+
+                {/* Infinite scroll sentinel */}
+                <div ref={sentinelRef} />
+                {isLoadingMore && (
+                  <div className="card animate-pulse">
+                    <div className="h-24 bg-gray-200 rounded" />
+                  </div>
+                )}
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+                    <p className="text-sm text-red-800">Couldn&apos;t load posts: {error.message}</p>
+                    <button onClick={retry} className="btn-secondary text-sm">
+                      Try again
+                    </button>
+                  </div>
+                )}
+                {!hasMore && (
+                  <p className="text-center text-sm text-gray-500 py-6">
+                    You&apos;ve reached the end of r/{subredditName} 🍞
+                  </p>
+                )}
               </div>
             ) : (
               <div className="card text-center py-12">
@@ -213,11 +279,9 @@ export default function SubredditPage() {
             <div className="card">
               <h3 className="font-semibold text-gray-800 mb-4">Community Rules</h3>
               <ol className="text-sm text-gray-600 space-y-2 list-decimal list-inside">
-                <li>Be respectful to others</li>
-                <li>No spam or self-promotion</li>
-                <li>Stay on topic</li>
-                <li>No illegal content</li>
-                <li>Stake responsibly when voting</li>
+                {rules.map((rule, i) => (
+                  <li key={i}>{rule}</li>
+                ))}
               </ol>
             </div>
 
@@ -231,6 +295,9 @@ export default function SubredditPage() {
                     : 'Loading...'
                   }
                 </p>
+                <a href={`/r/${subredditName}/modlog`} className="mt-3 inline-block text-bread-600 hover:underline">
+                  📜 View moderation log
+                </a>
               </div>
             </div>
           </div>
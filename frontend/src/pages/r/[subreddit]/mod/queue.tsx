@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { useWeb3 } from '@/context/Web3Context';
+import { Header } from '@/components/Header';
+import { useIsModerator, useModQueue, useResolveReport, useSubredditByName } from '@/hooks/useContracts';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import {
+  CONTENT_STATUS,
+  CONTENT_STATUS_LABELS,
+  RESOLUTION_VERBS,
+  type QueueItem,
+  type ReportData,
+  type ReportResolution,
+} from '@/utils/moderation';
+
+/** Characters of the reported text shown in the queue */
+const PREVIEW_LENGTH = 280;
+
+const RESOLUTION_HINTS: Record<ReportResolution, string> = {
+  uphold: `Hide the content, ${PROTOCOL_CONSTANTS.KARMA_PENALTY_CONTENT_HIDDEN} karma to its author, +${PROTOCOL_CONSTANTS.KARMA_BONUS_VALID_REPORT} to the reporter`,
+  dismiss: 'Keep the content up',
+  frivolous: `Keep the content up, ${PROTOCOL_CONSTANTS.KARMA_PENALTY_FRIVOLOUS_REPORT} karma to the reporter`,
+};
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function preview(text: string) {
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+interface ReportRowProps {
+  report: ReportData;
+  busy: boolean;
+  onResolve: (resolution: ReportResolution) => void;
+}
+
+function ReportRow({ report, busy, onResolve }: ReportRowProps) {
+  return (
+    <li className="flex items-start justify-between gap-4 border-t border-gray-100 py-3 first:border-0">
+      <div className="min-w-0 text-sm">
+        <p className="text-gray-800 break-words">{report.reason || <em className="text-gray-400">No reason given</em>}</p>
+        <p className="mt-1 text-xs text-gray-500">
+          Report #{report.id.toString()} by{' '}
+          <Link href={`/u/${report.reporter}`} className="text-bread-600 hover:underline">
+            {shortAddress(report.reporter)}
+          </Link>{' '}
+          · {formatDistanceToNow(new Date(Number(report.timestamp) * 1000))} ago
+        </p>
+      </div>
+      <div className="flex shrink-0 gap-2">
+        {(['dismiss', 'frivolous', 'uphold'] as const).map((resolution) => (
+          <button
+            key={resolution}
+            onClick={() => onResolve(resolution)}
+            disabled={busy}
+            title={RESOLUTION_HINTS[resolution]}
+            className={clsx(
+              'rounded-full px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50',
+              resolution === 'uphold'
+                ? 'bg-red-500 text-white hover:bg-red-600'
+                : 'border border-gray-200 text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {resolution === 'dismiss' ? 'Approve' : RESOLUTION_VERBS[resolution]}
+          </button>
+        ))}
+      </div>
+    </li>
+  );
+}
+
+interface QueueCardProps {
+  item: QueueItem;
+  busyReportId: bigint | null;
+  onResolve: (report: ReportData, resolution: ReportResolution) => void;
+}
+
+function QueueCard({ item, busyReportId, onResolve }: QueueCardProps) {
+  const { post, comment } = item;
+  const author = comment?.author ?? post.author;
+  const status = comment?.status ?? post.status;
+  const href = comment ? `/post/${post.id}?comment=${comment.id}` : `/post/${post.id}`;
+
+  return (
+    <div className="card p-5">
+      <div className="mb-3 flex items-center gap-2 text-xs">
+        <span className="rounded-full bg-gray-100 px-2 py-0.5 font-medium text-gray-600">
+          {item.isPost ? 'Post' : 'Comment'}
+        </span>
+        <span className="rounded-full bg-red-100 px-2 py-0.5 font-medium text-red-700">
+          {item.reports.length} open {item.reports.length === 1 ? 'report' : 'reports'}
+          {item.totalReports > BigInt(item.reports.length) && ` (${item.totalReports} total)`}
+        </span>
+        {status !== CONTENT_STATUS.VISIBLE && (
+          <span className="rounded-full bg-yellow-100 px-2 py-0.5 font-medium text-yellow-700">
+            {CONTENT_STATUS_LABELS[status] ?? 'Unknown'}
+          </span>
+        )}
+        <span className="text-gray-400">
+          by{' '}
+          <Link href={`/u/${author}`} className="hover:underline">
+            {shortAddress(author)}
+          </Link>
+        </span>
+      </div>
+
+      {/* Content Preview */}
+      <Link href={href} className="block rounded-xl bg-gray-50 p-3 hover:bg-gray-100 transition-colors">
+        {comment ? (
+          <>
+            <p className="text-xs text-gray-500 mb-1">On “{post.title}”</p>
+            <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{preview(comment.content)}</p>
+          </>
+        ) : (
+          <>
+            <p className="font-semibold text-gray-900">{post.title}</p>
+            {post.body && (
+              <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap break-words">{preview(post.body)}</p>
+            )}
+            {post.ipfsCid && <p className="mt-1 text-xs text-gray-500">Media: {post.mimeType || 'file'}</p>}
+          </>
+        )}
+      </Link>
+
+      {/* Reports */}
+      <ul className="mt-3">
+        {item.reports.map((report) => (
+          <ReportRow
+            key={report.id.toString()}
+            report={report}
+            busy={busyReportId !== null}
+            onResolve={(resolution) => onResolve(report, resolution)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ModQueuePage() {
+  const router = useRouter();
+  const { subreddit: subredditName } = router.query;
+  const { address, isConnected } = useWeb3();
+
+  const { data: subreddit, isLoading: loadingSubreddit } = useSubredditByName(
+    typeof subredditName === 'string' ? subredditName : ''
+  );
+  const { data: isModerator, isLoading: checkingModerator } = useIsModerator(address || undefined, subreddit?.id);
+  const { data: queue, isLoading, error: queueError } = useModQueue(isModerator ? subreddit?.id ?? 0n : 0n);
+  const { resolveReport, error } = useResolveReport();
+  const [busyReportId, setBusyReportId] = useState<bigint | null>(null);
+
+  const handleResolve = async (report: ReportData, resolution: ReportResolution) => {
+    if (!subreddit) return;
+    setBusyReportId(report.id);
+    try {
+      await resolveReport(report, subreddit.id, resolution);
+    } catch (err) {
+      console.error('Failed to resolve report:', err);
+    } finally {
+      setBusyReportId(null);
+    }
+  };
+
+  const openReports = queue.reduce((sum, item) => sum + item.reports.length, 0);
+
+  let body: React.ReactNode;
+  if (!isConnected) {
+    body = (
+      <div className="card text-center py-12">
+        <div className="text-6xl mb-4">🔗</div>
+        <p className="text-gray-600">Connect your wallet to moderate this community.</p>
+      </div>
+    );
+  } else if (loadingSubreddit || checkingModerator || isModerator === undefined) {
+    body = <div className="card h-24 animate-pulse" />;
+  } else if (!isModerator) {
+    body = (
+      <div className="card text-center py-12">
+        <div className="text-6xl mb-4">🛡️</div>
+        <p className="text-gray-600">Only moderators of r/{subredditName} can see its mod queue.</p>
+      </div>
+    );
+  } else if (isLoading && queue.length === 0) {
+    body = (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <div key={i} className="card h-40 animate-pulse" />
+        ))}
+      </div>
+    );
+  } else if (queueError && queue.length === 0) {
+    body = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">Couldn&apos;t load the mod queue: {queueError.message}</p>
+      </div>
+    );
+  } else if (queue.length === 0) {
+    body = (
+      <div className="card text-center py-12">
+        <div className="text-6xl mb-4">✨</div>
+        <p className="text-gray-600">No open reports. The queue is clear.</p>
+      </div>
+    );
+  } else {
+    body = (
+      <div className="space-y-4">
+        {queue.map((item) => (
+          <QueueCard
+            key={`${item.isPost ? 'p' : 'c'}${item.contentId}`}
+            item={item}
+            busyReportId={busyReportId}
+            onResolve={handleResolve}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <Header />
+
+      <main className="container mx-auto max-w-4xl px-4 py-6">
+        <div className="mb-6 flex items-end justify-between">
+          <div>
+            <Link href={`/r/${subredditName}`} className="text-sm text-bread-600 hover:underline">
+              ← r/{subredditName}
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-800">Mod Queue</h1>
+          </div>
+          {isModerator && queue.length > 0 && (
+            <p className="text-sm text-gray-500">
+              {openReports} open {openReports === 1 ? 'report' : 'reports'} on {queue.length}{' '}
+              {queue.length === 1 ? 'item' : 'items'}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{error.message}</p>
+          </div>
+        )}
+
+        {body}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { Header } from '@/components/Header';
+import { useModLog, useSubredditByName } from '@/hooks/useContracts';
+import { explorerTxUrl } from '@/store/transactions';
+import {
+  MOD_LOG_ACTION_LABELS,
+  modLogToCsv,
+  modLogToJson,
+  type ModLogAction,
+  type ModLogEntry,
+} from '@/utils/moderation';
+
+/** Moderator filter value for entries no moderator took */
+const AUTOMATIC = 'automatic';
+
+const ACTION_STYLES: Partial<Record<ModLogAction, string>> = {
+  hide: 'bg-red-100 text-red-700',
+  hideAndSlash: 'bg-red-100 text-red-700',
+  slash: 'bg-red-100 text-red-700',
+  uphold: 'bg-red-100 text-red-700',
+  unhide: 'bg-green-100 text-green-700',
+  dismiss: 'bg-green-100 text-green-700',
+  frivolous: 'bg-yellow-100 text-yellow-700',
+  autoFlag: 'bg-yellow-100 text-yellow-700',
+};
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Save text as a file through a temporary link
+ */
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ModLogRow({ entry }: { entry: ModLogEntry }) {
+  const href = entry.isPost ? `/post/${entry.postId}` : `/post/${entry.postId}?comment=${entry.contentId}`;
+  const time = new Date(Number(entry.timestamp) * 1000);
+
+  return (
+    <li className="flex items-start gap-4 border-t border-gray-100 py-4 first:border-0">
+      <div className="w-28 shrink-0 text-xs text-gray-500" title={time.toLocaleString()}>
+        {formatDistanceToNow(time)} ago
+      </div>
+      <div className="min-w-0 flex-1 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span
+            className={clsx(
+              'rounded-full px-2 py-0.5 text-xs font-medium',
+              ACTION_STYLES[entry.action] ?? 'bg-gray-100 text-gray-600'
+            )}
+          >
+            {MOD_LOG_ACTION_LABELS[entry.action]}
+          </span>
+          <Link href={href} className="text-bread-600 hover:underline">
+            {entry.isPost ? 'Post' : 'Comment'} #{entry.contentId.toString()}
+          </Link>
+          <span className="text-gray-500">
+            by{' '}
+            {entry.moderator ? (
+              <Link href={`/u/${entry.moderator}`} className="hover:underline">
+                {shortAddress(entry.moderator)}
+              </Link>
+            ) : (
+              'report threshold'
+            )}
+          </span>
+        </div>
+        <p className="mt-1 text-gray-800 break-words">
+          {entry.reason || <em className="text-gray-400">No reason given</em>}
+        </p>
+        {entry.karmaSlashed.length > 0 && (
+          <p className="mt-1 text-xs text-red-600">
+            {entry.karmaSlashed.map(({ user, amount }) => (
+              <span key={user} className="mr-3">
+                {amount.toString()} karma to{' '}
+                <Link href={`/u/${user}`} className="hover:underline">
+                  {shortAddress(user)}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+      <a
+        href={explorerTxUrl(entry.txHash)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="shrink-0 text-xs text-gray-400 hover:text-bread-600"
+      >
+        tx ↗
+      </a>
+    </li>
+  );
+}
+
+export default function ModLogPage() {
+  const router = useRouter();
+  const { subreddit: subredditName } = router.query;
+  const [moderator, setModerator] = useState('');
+  const [action, setAction] = useState<ModLogAction | ''>('');
+
+  const { data: subreddit, isLoading: loadingSubreddit } = useSubredditByName(
+    typeof subredditName === 'string' ? subredditName : ''
+  );
+  const { data: log, isLoading, error } = useModLog(subreddit?.id);
+
+  const moderators = useMemo(
+    () => [...new Set(log.flatMap((entry) => (entry.moderator ? [entry.moderator.toLowerCase()] : [])))],
+    [log]
+  );
+  const actions = useMemo(() => [...new Set(log.map((entry) => entry.action))], [log]);
+
+  const entries = log.filter(
+    (entry) =>
+      (!moderator ||
+        (moderator === AUTOMATIC ? entry.moderator === null : entry.moderator?.toLowerCase() === moderator)) &&
+      (!action || entry.action === action)
+  );
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const filename = `${subredditName}-modlog.${format}`;
+    if (format === 'csv') download(filename, modLogToCsv(entries), 'text/csv');
+    else download(filename, modLogToJson(entries), 'application/json');
+  };
+
+  let body: React.ReactNode;
+  if (loadingSubreddit || (isLoading && log.length === 0)) {
+    body = (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="card h-20 animate-pulse" />
+        ))}
+      </div>
+    );
+  } else if (!subreddit) {
+    body = (
+      <div className="card text-center py-12">
+        <p className="text-gray-600">r/{subredditName} doesn&apos;t exist.</p>
+      </div>
+    );
+  } else if (error) {
+    body = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">Couldn&apos;t load the moderation log: {error.message}</p>
+      </div>
+    );
+  } else if (entries.length === 0) {
+    body = (
+      <div className="card text-center py-12">
+        <div className="text-6xl mb-4">📜</div>
+        <p className="text-gray-600">
+          {log.length === 0 ? 'No moderation actions yet.' : 'No actions match these filters.'}
+        </p>
+      </div>
+    );
+  } else {
+    body = (
+      <ul className="card px-5 py-1">
+        {entries.map((entry) => (
+          <ModLogRow key={entry.id} entry={entry} />
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <Header />
+
+      <main className="container mx-auto max-w-4xl px-4 py-6">
+        <div className="mb-6">
+          <Link href={`/r/${subredditName}`} className="text-sm text-bread-600 hover:underline">
+            ← r/{subredditName}
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">Moderation Log</h1>
+          <p className="text-sm text-gray-500">
+            Every moderator action in this community, read from the chain.
+          </p>
+        </div>
+
+        {/* Filters and Export */}
+        <div className="card mb-4 flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={moderator}
+            onChange={(e) => setModerator(e.target.value)}
+            className="bg-white border border-gray-200 rounded-full px-3 py-2 text-gray-700"
+          >
+            <option value="">All moderators</option>
+            {moderators.map((address) => (
+              <option key={address} value={address}>
+                {shortAddress(address)}
+              </option>
+            ))}
+            <option value={AUTOMATIC}>Automatic</option>
+          </select>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as ModLogAction | '')}
+            className="bg-white border border-gray-200 rounded-full px-3 py-2 text-gray-700"
+          >
+            <option value="">All actions</option>
+            {actions.map((value) => (
+              <option key={value} value={value}>
+                {MOD_LOG_ACTION_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <span className="text-gray-500">
+            {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          </span>
+          <div className="ml-auto flex gap-2">
+            {(['csv', 'json'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={entries.length === 0}
+                className="btn-secondary text-xs disabled:opacity-50"
+              >
+                Export {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {body}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import clsx from 'clsx';
+import { formatEther } from 'ethers';
+import { formatDistanceToNow } from 'date-fns';
+import { useWeb3 } from '@/context/Web3Context';
+import { Header } from '@/components/Header';
+import { useWithdrawStakes } from '@/hooks/useContracts';
+import { useStakes, type StakeEntry } from '@/hooks/useStakes';
+import { useNow } from '@/hooks/useNow';
+import { PROTOCOL_CONSTANTS, monadTestnet } from '@/config/contracts';
+import { formatDuration } from '@/utils/time';
+import { stakeStatus, summarizeStakes, type StakeStatus } from '@/utils/stakes';
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+const STATUS_STYLES: Record<StakeStatus, string> = {
+  locked: 'bg-yellow-100 text-yellow-800',
+  withdrawable: 'bg-green-100 text-green-800',
+  withdrawn: 'bg-gray-100 text-gray-600',
+  slashed: 'bg-red-100 text-red-700',
+};
+
+function StakeRow({ stake, now }: { stake: StakeEntry; now: number }) {
+  const status = stakeStatus(stake, now);
+  const href = stake.isPost
+    ? `/post/${stake.postId}`
+    : `/post/${stake.postId}?comment=${stake.contentId}`;
+
+  return (
+    <li className="flex items-center justify-between gap-4 py-3">
+      <div className="min-w-0">
+        <Link href={href} className="block truncate font-medium text-gray-800 hover:text-bread-600">
+          {stake.label || (stake.isPost ? `Post #${stake.contentId}` : `Comment #${stake.contentId}`)}
+        </Link>
+        <div className="text-xs text-gray-500">
+          {stake.voteType === 1 ? '▲ Upvoted' : '▼ Downvoted'} {stake.isPost ? 'post' : 'comment'}
+          {' · '}
+          {formatDistanceToNow(new Date(stake.votedAt * 1000), { addSuffix: true })}
+        </div>
+      </div>
+
+      <div className="flex flex-shrink-0 items-center gap-3 text-right">
+        <div>
+          <div className="font-medium text-gray-800">
+            {formatEther(status === 'withdrawn' ? stake.withdrawnAmount : stake.stake)} {symbol}
+          </div>
+          <div className="text-xs text-gray-500">
+            {status === 'locked' && `Unlocks in ${formatDuration(stake.unlockTime - now)}`}
+            {status === 'withdrawable' && 'Ready to withdraw'}
+            {status === 'withdrawn' && 'Returned to your wallet'}
+            {status === 'slashed' &&
+              `${formatEther(stake.slashedAmount)} ${symbol} slashed${stake.slashReason ? `: ${stake.slashReason}` : ''}`}
+          </div>
+        </div>
+        <span className={clsx('rounded-full px-2 py-0.5 text-xs font-medium capitalize', STATUS_STYLES[status])}>
+          {status}
+        </span>
+      </div>
+    </li>
+  );
+}
+
+export default function StakesPage() {
+  const { address, isConnected } = useWeb3();
+  const { data: stakes, isLoading, error } = useStakes(address || undefined);
+  const { withdrawStakes, isPending, error: withdrawError } = useWithdrawStakes();
+  const now = useNow();
+
+  const totals = useMemo(() => summarizeStakes(stakes, now), [stakes, now]);
+  const withdrawable = useMemo(
+    () => stakes.filter((stake) => stakeStatus(stake, now) === 'withdrawable'),
+    [stakes, now]
+  );
+
+  const handleWithdrawAll = async () => {
+    try {
+      await withdrawStakes(withdrawable);
+    } catch (err) {
+      console.error('Failed to withdraw stakes:', err);
+    }
+  };
+
+  // Not connected
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gray-100">
+        <Header />
+        <main className="container mx-auto max-w-xl px-4 py-12">
+          <div className="card text-center py-12">
+            <div className="text-6xl mb-4">🔗</div>
+            <h1 className="text-2xl font-bold text-gray-800 mb-4">
+              Connect Your Wallet
+            </h1>
+            <p className="text-gray-600">
+              Please connect your wallet to see your voting stakes.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <Header />
+
+      <main className="container mx-auto max-w-3xl px-4 py-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">Your Stakes</h1>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {([
+            ['Locked', totals.locked, 'text-yellow-700'],
+            ['Withdrawable', totals.withdrawable, 'text-green-700'],
+            ['Withdrawn', totals.withdrawn, 'text-gray-700'],
+            ['Slashed', totals.slashed, 'text-red-700'],
+          ] as const).map(([label, amount, color]) => (
+            <div key={label} className="card">
+              <div className="text-sm text-gray-500">{label}</div>
+              <div className={clsx('text-lg font-bold', color)}>
+                {formatEther(amount)} {symbol}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Withdraw */}
+        <div className="card mb-6 flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            {withdrawable.length > 0
+              ? `${withdrawable.length} stake${withdrawable.length === 1 ? '' : 's'} can be withdrawn in one transaction.`
+              : `Stakes unlock ${PROTOCOL_CONSTANTS.STAKE_LOCK_HOURS} hours after your last vote on that content.`}
+          </p>
+          <button
+            onClick={handleWithdrawAll}
+            disabled={isPending || withdrawable.length === 0}
+            className="btn-primary flex-shrink-0 disabled:opacity-50"
+          >
+            {isPending ? 'Withdrawing...' : `Withdraw ${formatEther(totals.withdrawable)} ${symbol}`}
+          </button>
+        </div>
+
+        {withdrawError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-red-800">{withdrawError.message}</p>
+          </div>
+        )}
+
+        {/* Positions */}
+        <div className="card">
+          {isLoading ? (
+            <div className="py-8 text-center text-gray-500">Loading your votes...</div>
+          ) : error ? (
+            <div className="py-8 text-center text-red-600">Failed to load stakes: {error.message}</div>
+          ) : stakes.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">You haven&apos;t staked on any votes yet.</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {stakes.map((stake) => (
+                <StakeRow key={`${stake.isPost}-${stake.contentId}`} stake={stake} now={now} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,17 +4,22 @@ import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import { useWeb3 } from '@/context/Web3Context';
 import { Header } from '@/components/Header';
+import { CostEstimate } from '@/components/CostEstimate';
 import { useIsRegistered, useCreatePost, useSubredditList, useSubredditByName } from '@/hooks/useContracts';
+import { useCostEstimate } from '@/hooks/useCostEstimate';
 import { uploadMedia, isValidCID } from '@/utils/ipfs';
 
 type PostType = 'text' | 'media' | 'meme';
 
+/** Stands in for the real CID (same length) when pricing a media post before upload */
+const PLACEHOLDER_CID = `Qm${'1'.repeat(44)}`;
+
 export default function SubmitPage() {
   const router = useRouter();
   const { subreddit: defaultSubreddit } = router.query;
   const { address, isConnected } = useWeb3();
   const { data: isRegistered } = useIsRegistered(address || undefined);
-  const { createTextPost, createMediaPost, isPending, error } = useCreatePost();
+  const { createTextPost, createMediaPost, estimate, isPending, error } = useCreatePost();
   const { data: subreddits } = useSubredditList();
 
   const [postType, setPostType] = useState<PostType>('text');
@@ -37,6 +42,22 @@ export default function SubmitPage() {
   const TITLE_MAX = 300;
   const BODY_MAX = 30000;
 
+  const { data: community } = useSubredditByName(subreddit);
+  const mimeType = mediaFile?.type || 'image/png';
+  const cost = useCostEstimate(
+    isRegistered && community && title.trim()
+      ? JSON.stringify([community.id.toString(), postType, title.trim(), postType === 'text' ? body.trim() : mimeType])
+      : null,
+    () =>
+      estimate(
+        community!.id,
+        title.trim(),
+        postType === 'text'
+          ? { body: body.trim() }
+          : { ipfsCid: PLACEHOLDER_CID, mimeType, isMeme: postType === 'meme' }
+      )
+  );
+
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -62,16 +83,17 @@ export default function SubmitPage() {
     setMediaPreview(url);
   }, []);
 
+  const cannotSubmit = isPending || isUploading || !title.trim() || !community || cost.isInsufficient;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!subreddit || !title.trim()) {
+    if (!subreddit || !title.trim() || !community) {
       return;
     }
 
     try {
-      // Get subreddit ID (in real app, look up by name)
-      const subredditId = 1n; // Placeholder
+      const subredditId = community.id;
 
       if (postType === 'text') {
         await createTextPost(subredditId, title.trim(), body.trim());
@@ -318,6 +340,15 @@ export default function SubmitPage() {
             </div>
           </div>
 
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Estimated cost</h3>
+            {cost.data || cost.isLoading || cost.error ? (
+              <CostEstimate estimate={cost.data} isLoading={cost.isLoading} error={cost.error} />
+            ) : (
+              <p className="text-xs text-gray-400">Choose a community and add a title to see the cost.</p>
+            )}
+          </div>
+
           {/* Error Display */}
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -338,9 +369,9 @@ export default function SubmitPage() {
             </button>
             <button
               type="submit"
-              disabled={isPending || isUploading || !title.trim() || !subreddit}
+              disabled={cannotSubmit}
               className={`flex-1 py-3 rounded-full font-semibold text-white transition-all shadow-md hover:shadow-lg ${
-                isPending || isUploading || !title.trim() || !subreddit
+                cannotSubmit
                   ? 'bg-gray-400 cursor-not-allowed'
                   : 'bg-gradient-to-r from-bread-500 to-bread-600 hover:from-bread-600 hover:to-bread-700'
               }`}
@@ -0,0 +1,24 @@
+/**
+ * Indexer Status for Bread-it
+ *
+ * Progress of the browser indexer (utils/indexer), for display. Queries
+ * don't depend on it; they read the stored cursor directly.
+ */
+
+import { create } from 'zustand';
+
+export interface IndexerStatus {
+  /** Last block stored in the index; null before the first batch */
+  lastBlock: number | null;
+  /** Chain head when the current or last sync started */
+  headBlock: number | null;
+  isSyncing: boolean;
+  error: string | null;
+}
+
+export const useIndexerStatus = create<IndexerStatus>(() => ({
+  lastBlock: null,
+  headBlock: null,
+  isSyncing: false,
+  error: null,
+}));
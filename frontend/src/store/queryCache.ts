@@ -0,0 +1,196 @@
+/**
+ * Query Cache for Bread-it
+ *
+ * A single keyed cache for contract reads, shared by every hook. Entries are
+ * refetched once they are older than their stale time or explicitly
+ * invalidated (e.g. by a mutation after its transaction is mined), and
+ * concurrent requests for the same key share one in-flight promise.
+ */
+
+import { create } from 'zustand';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type QueryKey = readonly (string | number | bigint | boolean | null | undefined)[];
+
+export interface QueryEntry {
+  key: QueryKey;
+  data: unknown;
+  error: Error | null;
+  /** ms timestamp of the last successful fetch (0 = never) */
+  updatedAt: number;
+  /** Set by invalidateQueries; forces a refetch on next use */
+  isInvalidated: boolean;
+  isFetching: boolean;
+}
+
+interface QueryCacheState {
+  entries: Record<string, QueryEntry>;
+}
+
+// ═══════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════
+
+/** How long fetched data is served without refetching */
+export const DEFAULT_STALE_TIME = 30_000;
+
+/**
+ * Key factories, so that readers and mutations agree on key shapes
+ */
+export const queryKeys = {
+  isRegistered: (address: string) => ['isRegistered', address.toLowerCase()] as const,
+  user: (address: string) => ['user', address.toLowerCase()] as const,
+  userKarma: (address: string) => ['userKarma', address.toLowerCase()] as const,
+  nextCommentTime: (address: string) => ['nextCommentTime', address.toLowerCase()] as const,
+  subreddit: (id: bigint) => ['subreddit', id] as const,
+  subredditIdByName: (name: string) => ['subredditIdByName', name.toLowerCase()] as const,
+  subredditRules: (subredditId: bigint) => ['subredditRules', subredditId] as const,
+  subredditCount: () => ['subredditCount'] as const,
+  subredditList: () => ['subredditList'] as const,
+  memberCount: (subredditId: bigint) => ['memberCount', subredditId] as const,
+  isMember: (address: string, subredditId: bigint) =>
+    ['isMember', address.toLowerCase(), subredditId] as const,
+  post: (id: bigint) => ['post', id] as const,
+  subredditPosts: (subredditId: bigint, offset?: number, limit?: number) =>
+    offset === undefined ? (['subredditPosts', subredditId] as const) : (['subredditPosts', subredditId, offset, limit] as const),
+  subredditPostCount: (subredditId: bigint) => ['subredditPostCount', subredditId] as const,
+  comment: (id: bigint) => ['comment', id] as const,
+  postComments: (postId: bigint, offset?: number, limit?: number) =>
+    offset === undefined ? (['postComments', postId] as const) : (['postComments', postId, offset, limit] as const),
+  commentReplies: (commentId: bigint) => ['commentReplies', commentId] as const,
+  voteCounts: (contentId: bigint, isPost: boolean) => ['voteCounts', contentId, isPost] as const,
+  reportCount: (contentId: bigint, isPost: boolean) => ['reportCount', contentId, isPost] as const,
+  isModerator: (address: string, subredditId: bigint) =>
+    ['isModerator', address.toLowerCase(), subredditId] as const,
+  modQueue: (subredditId: bigint) => ['modQueue', subredditId] as const,
+  modLog: (subredditId: bigint) => ['modLog', subredditId] as const,
+  latestAction: (contentId: bigint, isPost: boolean) => ['latestAction', contentId, isPost] as const,
+  canReport: (address: string) => ['canReport', address.toLowerCase()] as const,
+  hasReported: (address: string, contentId: bigint, isPost: boolean) =>
+    ['hasReported', address.toLowerCase(), contentId, isPost] as const,
+  stakes: (address: string) => ['stakes', address.toLowerCase()] as const,
+  voteHistory: (contentId: bigint, isPost: boolean) => ['voteHistory', contentId, isPost] as const,
+};
+
+// ═══════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════
+
+export const useQueryCache = create<QueryCacheState>(() => ({
+  entries: {},
+}));
+
+/** In-flight requests by key hash; kept outside the store since promises aren't state */
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Stable string form of a key (bigint-safe)
+ */
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value) => (typeof value === 'bigint' ? `${value}n` : value));
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, i) => part === key[i]);
+}
+
+function updateEntry(hash: string, key: QueryKey, patch: Partial<QueryEntry>) {
+  useQueryCache.setState((state) => {
+    const current: QueryEntry = state.entries[hash] ?? {
+      key,
+      data: undefined,
+      error: null,
+      updatedAt: 0,
+      isInvalidated: false,
+      isFetching: false,
+    };
+    return { entries: { ...state.entries, [hash]: { ...current, ...patch } } };
+  });
+}
+
+/**
+ * Whether an entry needs to be (re)fetched
+ */
+export function isStale(entry: QueryEntry | undefined, staleTime: number = DEFAULT_STALE_TIME): boolean {
+  if (!entry || entry.isInvalidated || entry.updatedAt === 0) return true;
+  return Date.now() - entry.updatedAt > staleTime;
+}
+
+/**
+ * Whether fetchQuery would refetch a key rather than serve it from cache
+ */
+export function isQueryStale(key: QueryKey, staleTime: number = DEFAULT_STALE_TIME): boolean {
+  return isStale(useQueryCache.getState().entries[hashKey(key)], staleTime);
+}
+
+/**
+ * Fetch a key through the cache. Fresh data is returned as-is and concurrent
+ * callers share the same request.
+ */
+export async function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, force = false }: { staleTime?: number; force?: boolean } = {}
+): Promise<T> {
+  const hash = hashKey(key);
+  const entry = useQueryCache.getState().entries[hash];
+  if (!force && !isStale(entry, staleTime)) return entry!.data as T;
+
+  const pending = inFlight.get(hash);
+  if (pending) return pending as Promise<T>;
+
+  updateEntry(hash, key, { isFetching: true });
+  const request = fetcher()
+    .then((data) => {
+      updateEntry(hash, key, {
+        data,
+        error: null,
+        updatedAt: Date.now(),
+        isInvalidated: false,
+        isFetching: false,
+      });
+      return data;
+    })
+    .catch((err) => {
+      // Clear the invalidation flag so subscribers don't retry in a loop
+      updateEntry(hash, key, { error: err as Error, isInvalidated: false, isFetching: false });
+      throw err;
+    })
+    .finally(() => {
+      inFlight.delete(hash);
+    });
+
+  inFlight.set(hash, request);
+  return request;
+}
+
+/**
+ * Mark every entry whose key starts with one of the prefixes as stale.
+ * Mounted hooks refetch immediately; others refetch when next used.
+ */
+export function invalidateQueries(...prefixes: QueryKey[]) {
+  useQueryCache.setState((state) => {
+    const entries = { ...state.entries };
+    for (const [hash, entry] of Object.entries(entries)) {
+      if (prefixes.some((prefix) => matchesPrefix(entry.key, prefix))) {
+        entries[hash] = { ...entry, isInvalidated: true };
+      }
+    }
+    return { entries };
+  });
+}
+
+/**
+ * Write data for a key directly (e.g. after an optimistic update)
+ */
+export function setQueryData<T>(key: QueryKey, data: T) {
+  updateEntry(hashKey(key), key, {
+    data,
+    error: null,
+    updatedAt: Date.now(),
+    isInvalidated: false,
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Stake Preferences for Bread-it
+ *
+ * The stake each wallet last chose for upvotes and downvotes, persisted to
+ * localStorage so the vote popover opens on the same amount next time.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+/** Stake amounts in ether, as entered */
+export interface StakePreference {
+  up: string;
+  down: string;
+}
+
+interface StakePreferencesState {
+  byWallet: Record<string, StakePreference>;
+  setStake: (address: string, voteType: 1 | 2, amount: string) => void;
+}
+
+export const DEFAULT_STAKE_PREFERENCE: StakePreference = {
+  up: PROTOCOL_CONSTANTS.MIN_UPVOTE_STAKE,
+  down: PROTOCOL_CONSTANTS.MIN_DOWNVOTE_STAKE,
+};
+
+// ═══════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════
+
+export const useStakePreferences = create<StakePreferencesState>()(
+  persist(
+    (set) => ({
+      byWallet: {},
+      setStake: (address, voteType, amount) =>
+        set((state) => {
+          const key = address.toLowerCase();
+          const current = state.byWallet[key] ?? DEFAULT_STAKE_PREFERENCE;
+          return {
+            byWallet: {
+              ...state.byWallet,
+              [key]: { ...current, [voteType === 1 ? 'up' : 'down']: amount },
+            },
+          };
+        }),
+    }),
+    { name: 'bread-it:stake-preferences' }
+  )
+);
+
+/**
+ * The remembered stake for a wallet and vote direction
+ */
+export function usePreferredStake(address: string | null | undefined, voteType: 1 | 2): string {
+  return useStakePreferences((state) => {
+    const preference = (address && state.byWallet[address.toLowerCase()]) || DEFAULT_STAKE_PREFERENCE;
+    return voteType === 1 ? preference.up : preference.down;
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * Transaction Store for Bread-it
+ *
+ * Every transaction the app sends, from the moment the wallet returns a hash
+ * until it confirms, fails or is replaced. Recent entries are persisted to
+ * localStorage so history survives a reload, and transactions still pending
+ * at that point are picked up again by resumeTransactions.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { isError } from 'ethers';
+import type { Provider, TransactionReceipt, TransactionResponse } from 'ethers';
+import { monadTestnet } from '@/config/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * submitted: the wallet returned a hash
+ * pending: the network has seen it and it awaits a block
+ * confirmed / failed: mined, successfully or reverted
+ * replaced: another transaction took its nonce (sped up or cancelled)
+ */
+export type TxStatus = 'submitted' | 'pending' | 'confirmed' | 'failed' | 'replaced';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  /** Lowercased sender */
+  from: string;
+  nonce: number;
+  /** What the transaction does, e.g. "Upvote post #12" */
+  label: string;
+  status: TxStatus;
+  /** Unix milliseconds */
+  submittedAt: number;
+  /** Chain head when sent; replacements are searched for from here */
+  startBlock: number;
+  blockNumber?: number;
+  /** The transaction that took this one's place */
+  replacedBy?: string;
+  error?: string;
+  /** Hidden from toasts (still listed in history) */
+  dismissed?: boolean;
+}
+
+interface TransactionState {
+  /** Newest first */
+  transactions: TrackedTransaction[];
+  add: (tx: TrackedTransaction) => void;
+  update: (hash: string, patch: Partial<TrackedTransaction>) => void;
+  dismiss: (hash: string) => void;
+  clear: (from: string) => void;
+}
+
+/** Entries kept in history */
+const MAX_HISTORY = 30;
+
+/** How often a transaction the node doesn't know yet is looked up again */
+const LOOKUP_INTERVAL_MS = 4000;
+
+// ═══════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════
+
+export const useTransactionStore = create<TransactionState>()(
+  persist(
+    (set) => ({
+      transactions: [],
+      add: (tx) =>
+        set((state) => ({
+          transactions: [tx, ...state.transactions.filter((t) => t.hash !== tx.hash)].slice(0, MAX_HISTORY),
+        })),
+      update: (hash, patch) =>
+        set((state) => ({
+          transactions: state.transactions.map((t) => (t.hash === hash ? { ...t, ...patch } : t)),
+        })),
+      dismiss: (hash) =>
+        set((state) => ({
+          transactions: state.transactions.map((t) => (t.hash === hash ? { ...t, dismissed: true } : t)),
+        })),
+      clear: (from) =>
+        set((state) => ({
+          transactions: state.transactions.filter(
+            (t) => t.from !== from.toLowerCase() || !isSettled(t.status)
+          ),
+        })),
+    }),
+    { name: 'bread-it:transactions' }
+  )
+);
+
+export function isSettled(status: TxStatus): boolean {
+  return status === 'confirmed' || status === 'failed' || status === 'replaced';
+}
+
+/**
+ * Block explorer page for a transaction
+ */
+export function explorerTxUrl(hash: string): string {
+  return `${monadTestnet.blockExplorers.default.url}/tx/${hash}`;
+}
+
+// ═══════════════════════════════════════════════════════════
+// TRACKING
+// ═══════════════════════════════════════════════════════════
+
+/** Transactions being waited on in this tab, so each is waited on once */
+const watching = new Map<string, Promise<TransactionReceipt>>();
+
+const update = (hash: string, patch: Partial<TrackedTransaction>) =>
+  useTransactionStore.getState().update(hash, patch);
+
+/**
+ * Wait for a sent transaction and record each step. The receipt resolves
+ * for a confirmed transaction (or a sped-up copy of it); reverts, drops and
+ * cancellations reject.
+ */
+async function settle(entry: TrackedTransaction, tx: TransactionResponse): Promise<TransactionReceipt> {
+  try {
+    if (entry.status === 'submitted' && (await tx.provider.getTransaction(tx.hash))) {
+      update(entry.hash, { status: 'pending' });
+    }
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error('Transaction was not mined');
+    update(entry.hash, { status: 'confirmed', blockNumber: receipt.blockNumber });
+    return receipt;
+  } catch (err) {
+    if (isError(err, 'TRANSACTION_REPLACED')) {
+      update(entry.hash, { status: 'replaced', replacedBy: err.replacement.hash });
+      if (err.reason === 'repriced' && err.receipt.status === 1) {
+        // Sped up in the wallet: same call, new hash
+        useTransactionStore.getState().add({
+          ...entry,
+          hash: err.replacement.hash,
+          status: 'confirmed',
+          blockNumber: err.receipt.blockNumber,
+          dismissed: true,
+        });
+        return err.receipt;
+      }
+      throw new Error(
+        err.reason === 'cancelled' ? 'Transaction was cancelled in your wallet' : 'Transaction was replaced in your wallet',
+        { cause: err }
+      );
+    }
+    update(entry.hash, {
+      status: 'failed',
+      error: isError(err, 'CALL_EXCEPTION') ? 'Transaction reverted' : (err as Error).message,
+    });
+    throw err;
+  } finally {
+    watching.delete(entry.hash);
+  }
+}
+
+/**
+ * Record a transaction the wallet just sent and wait for it to settle.
+ * Use in place of `tx.wait()`.
+ */
+export async function trackTransaction(tx: TransactionResponse, label: string): Promise<TransactionReceipt> {
+  const entry: TrackedTransaction = {
+    hash: tx.hash,
+    chainId: Number(tx.chainId) || monadTestnet.id,
+    from: tx.from.toLowerCase(),
+    nonce: tx.nonce,
+    label,
+    status: 'submitted',
+    submittedAt: Date.now(),
+    startBlock: (await tx.provider.getBlockNumber().catch(() => null)) ?? 0,
+  };
+  useTransactionStore.getState().add(entry);
+
+  const waiting = settle(entry, tx.replaceableTransaction(entry.startBlock));
+  watching.set(entry.hash, waiting);
+  return waiting;
+}
+
+/**
+ * Resume waiting on one stored transaction. Returns once it settles, or
+ * once `signal` aborts.
+ */
+async function resume(provider: Provider, entry: TrackedTransaction, signal: AbortSignal): Promise<void> {
+  while (!signal.aborted) {
+    const tx = await provider.getTransaction(entry.hash);
+    if (tx) {
+      const waiting = settle(entry, tx.replaceableTransaction(entry.startBlock));
+      watching.set(entry.hash, waiting);
+      await waiting.catch(() => {});
+      return;
+    }
+
+    // Unknown to the node: dropped, unless its nonce is still open
+    const nonce = await provider.getTransactionCount(entry.from, 'latest');
+    if (nonce > entry.nonce) {
+      update(entry.hash, { status: 'replaced' });
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOOKUP_INTERVAL_MS));
+  }
+}
+
+/**
+ * Pick up every stored transaction on this chain that hadn't settled (e.g.
+ * before a reload)
+ */
+export function resumeTransactions(provider: Provider, signal: AbortSignal) {
+  const open = useTransactionStore
+    .getState()
+    .transactions.filter((t) => !isSettled(t.status) && t.chainId === monadTestnet.id && !watching.has(t.hash));
+
+  for (const entry of open) {
+    resume(provider, entry, signal).catch((err) => {
+      console.error(`Failed to resume transaction ${entry.hash}:`, err);
+    });
+  }
+}
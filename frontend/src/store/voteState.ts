@@ -0,0 +1,185 @@
+/**
+ * Vote State Store for Bread-it
+ *
+ * The connected wallet's vote on every piece of content on screen. Entries
+ * are seeded from Voting.getVote, with reads requested in the same tick
+ * collected into one batch, and then kept current from the wallet's Voting
+ * events. getVote doesn't say whether a stake was withdrawn or slashed, so
+ * those flags only ever come from StakeWithdrawn and StakeSlashed logs.
+ */
+
+import { create } from 'zustand';
+import { stakeKey, type StakeEventLog } from '@/utils/stakes';
+import type { Voting } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export interface VoteState {
+  /** 0 = none, 1 = upvote, 2 = downvote */
+  voteType: number;
+  stake: bigint;
+  /** Lock start (unix seconds); 0 when there is no vote */
+  timestamp: number;
+  withdrawn: boolean;
+  slashed: boolean;
+}
+
+interface VoteStateStore {
+  /** Vote states by lowercased wallet, then stakeKey */
+  byWallet: Record<string, Record<string, VoteState>>;
+  /** Lowercased wallets whose full event history has been applied */
+  historySynced: Record<string, true>;
+}
+
+export const NO_VOTE: VoteState = {
+  voteType: 0,
+  stake: 0n,
+  timestamp: 0,
+  withdrawn: false,
+  slashed: false,
+};
+
+// ═══════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════
+
+export const useVoteStateStore = create<VoteStateStore>(() => ({
+  byWallet: {},
+  historySynced: {},
+}));
+
+/** Reads waiting for the next flush, by wallet then stakeKey */
+const queued = new Map<string, Map<string, { contentId: bigint; isPost: boolean }>>();
+/** stakeKeys requested or loaded per wallet, so each is read once */
+const requested = new Map<string, Set<string>>();
+let flushScheduled = false;
+
+/**
+ * Read a vote state without subscribing
+ */
+export function getVoteState(wallet: string, contentId: bigint, isPost: boolean): VoteState | undefined {
+  return useVoteStateStore.getState().byWallet[wallet.toLowerCase()]?.[stakeKey(contentId, isPost)];
+}
+
+/**
+ * Merge a patch into a wallet's vote state
+ */
+export function updateVoteState(
+  wallet: string,
+  contentId: bigint,
+  isPost: boolean,
+  patch: Partial<VoteState>
+) {
+  const walletKey = wallet.toLowerCase();
+  const key = stakeKey(contentId, isPost);
+  useVoteStateStore.setState((state) => {
+    const votes = state.byWallet[walletKey] ?? {};
+    return {
+      byWallet: {
+        ...state.byWallet,
+        [walletKey]: { ...votes, [key]: { ...(votes[key] ?? NO_VOTE), ...patch } },
+      },
+    };
+  });
+}
+
+/**
+ * Record that a wallet's event history has been replayed, so its withdrawn
+ * and slashed flags can be trusted
+ */
+export function markHistorySynced(wallet: string) {
+  const walletKey = wallet.toLowerCase();
+  useVoteStateStore.setState((state) => ({ historySynced: { ...state.historySynced, [walletKey]: true } }));
+}
+
+/**
+ * Queue getVote reads for content not yet loaded. Everything requested in
+ * the same tick goes out together (one Multicall3 batch).
+ */
+export function requestVoteStates(
+  voting: Voting,
+  wallet: string,
+  items: { contentId: bigint; isPost: boolean }[],
+  { force = false }: { force?: boolean } = {}
+) {
+  const walletKey = wallet.toLowerCase();
+  const seen = requested.get(walletKey) ?? new Set<string>();
+  requested.set(walletKey, seen);
+  const pending = queued.get(walletKey) ?? new Map();
+  queued.set(walletKey, pending);
+
+  for (const item of items) {
+    const key = stakeKey(item.contentId, item.isPost);
+    if (!force && seen.has(key)) continue;
+    seen.add(key);
+    pending.set(key, item);
+  }
+
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setTimeout(() => {
+    flushScheduled = false;
+    flushVoteStates(voting);
+  }, 0);
+}
+
+function flushVoteStates(voting: Voting) {
+  for (const [walletKey, pending] of queued) {
+    const items = [...pending.values()];
+    pending.clear();
+
+    Promise.all(
+      items.map(async ({ contentId, isPost }) => {
+        try {
+          const vote = await voting.getVote(contentId, isPost, walletKey);
+          updateVoteState(walletKey, contentId, isPost, {
+            voteType: Number(vote.voteType),
+            stake: vote.stake,
+            timestamp: Number(vote.timestamp),
+          });
+        } catch (err) {
+          // Allow a retry the next time this content is shown
+          requested.get(walletKey)?.delete(stakeKey(contentId, isPost));
+          console.error('Failed to load vote state:', err);
+        }
+      })
+    );
+  }
+}
+
+/**
+ * Apply the wallet's Voting events (in chain order). Content whose stake
+ * changed by an amount the event doesn't carry is re-read from the contract.
+ */
+export function applyVoteEvents(voting: Voting, wallet: string, events: StakeEventLog[]) {
+  const stale: { contentId: bigint; isPost: boolean }[] = [];
+
+  for (const event of events) {
+    const { contentId, isPost } = event.args;
+    switch (event.eventName) {
+      case 'Voted':
+        updateVoteState(wallet, contentId, isPost, {
+          voteType: Number(event.args.voteType),
+          stake: event.args.stake,
+          timestamp: Number(event.args.timestamp),
+        });
+        break;
+      case 'VoteChanged':
+        // The top-up and restarted lock aren't logged
+        updateVoteState(wallet, contentId, isPost, { voteType: Number(event.args.newVote) });
+        stale.push({ contentId, isPost });
+        break;
+      case 'StakeWithdrawn':
+        updateVoteState(wallet, contentId, isPost, { withdrawn: true });
+        break;
+      case 'StakeSlashed':
+        updateVoteState(wallet, contentId, isPost, { slashed: true });
+        stale.push({ contentId, isPost });
+        break;
+    }
+  }
+
+  if (stale.length > 0) requestVoteStates(voting, wallet, stale, { force: true });
+}
@@ -0,0 +1,231 @@
+/**
+ * Typed Contract Bindings for Bread-it
+ *
+ * Derives method signatures, struct shapes and event filters for every
+ * protocol contract straight from the `as const` ABIs in config/abis.ts, so
+ * that editing an ABI entry immediately re-types every call site. Nothing
+ * here exists at runtime: the contracts are still plain ethers Contracts,
+ * only viewed through these types.
+ */
+
+import type {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  BlockTag,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventLog,
+  Overrides,
+} from 'ethers';
+import type {
+  UserRegistryABI,
+  SubredditDAOABI,
+  PostManagerABI,
+  VotingABI,
+  ModerationABI,
+  GovernanceABI,
+  BreadItErrorsABI,
+} from '@/config/abis';
+
+// ═══════════════════════════════════════════════════════════
+// ABI → TYPESCRIPT MAPPING
+// ═══════════════════════════════════════════════════════════
+
+interface AbiParameter {
+  readonly name?: string;
+  readonly type: string;
+  readonly indexed?: boolean;
+  readonly components?: readonly AbiParameter[];
+}
+
+interface AbiItem {
+  readonly type: string;
+  readonly name?: string;
+  readonly stateMutability?: string;
+  readonly inputs?: readonly AbiParameter[];
+  readonly outputs?: readonly AbiParameter[];
+}
+
+export type Abi = readonly AbiItem[];
+
+/** Value ethers decodes for a parameter */
+type OutputValue<P extends AbiParameter> = P['type'] extends `${infer Inner}[]`
+  ? OutputValue<Omit<P, 'type'> & { type: Inner }>[]
+  : P['type'] extends 'tuple'
+    ? P extends { components: infer C extends readonly AbiParameter[] }
+      ? NamedValues<C, 'output'>
+      : never
+    : P['type'] extends `uint${string}` | `int${string}`
+      ? bigint
+      : P['type'] extends 'bool'
+        ? boolean
+        : string;
+
+/** Value ethers accepts for a parameter */
+type InputValue<P extends AbiParameter> = P['type'] extends `${infer Inner}[]`
+  ? InputValue<Omit<P, 'type'> & { type: Inner }>[]
+  : P['type'] extends 'tuple'
+    ? P extends { components: infer C extends readonly AbiParameter[] }
+      ? NamedValues<C, 'input'>
+      : never
+    : P['type'] extends `uint${string}` | `int${string}`
+      ? BigNumberish
+      : P['type'] extends 'bool'
+        ? boolean
+        : P['type'] extends 'address'
+          ? AddressLike
+          : P['type'] extends `bytes${string}`
+            ? BytesLike
+            : string;
+
+type Value<P extends AbiParameter, Kind extends 'input' | 'output'> = Kind extends 'input'
+  ? InputValue<P>
+  : OutputValue<P>;
+
+type NamedValues<Params extends readonly AbiParameter[], Kind extends 'input' | 'output'> = {
+  [P in Params[number] as P['name'] extends string ? P['name'] : never]: Value<P, Kind>;
+};
+
+type PositionalValues<Params extends readonly AbiParameter[], Kind extends 'input' | 'output'> = {
+  -readonly [I in keyof Params]: Params[I] extends AbiParameter ? Value<Params[I], Kind> : never;
+};
+
+type ErrorItem<A extends Abi, Name extends string> = Extract<A[number], { type: 'error'; name: Name }>;
+type FunctionItem<A extends Abi, Name extends string> = Extract<A[number], { type: 'function'; name: Name }>;
+type EventItem<A extends Abi, Name extends string> = Extract<A[number], { type: 'event'; name: Name }>;
+
+export type FunctionName<A extends Abi> = Extract<A[number], { type: 'function' }>['name'] & string;
+export type EventName<A extends Abi> = Extract<A[number], { type: 'event' }>['name'] & string;
+export type ErrorName<A extends Abi> = Extract<A[number], { type: 'error' }>['name'] & string;
+
+/** Positional arguments of a function */
+export type FunctionArgs<A extends Abi, Name extends FunctionName<A>> = PositionalValues<
+  NonNullable<FunctionItem<A, Name>['inputs']>,
+  'input'
+>;
+
+/**
+ * Decoded return value: the bare value for single outputs, otherwise a
+ * Result-like tuple that can also be read by output name
+ */
+export type FunctionOutput<A extends Abi, Name extends FunctionName<A>> =
+  NonNullable<FunctionItem<A, Name>['outputs']> extends infer Outputs extends readonly AbiParameter[]
+    ? Outputs extends readonly [infer Only extends AbiParameter]
+      ? OutputValue<Only>
+      : Outputs extends readonly []
+        ? void
+        : PositionalValues<Outputs, 'output'> & NamedValues<Outputs, 'output'>
+    : never;
+
+/** Decoded event arguments, by name and position */
+export type EventArgs<A extends Abi, Name extends EventName<A>> = NonNullable<
+  EventItem<A, Name>['inputs']
+> extends infer Inputs extends readonly AbiParameter[]
+  ? PositionalValues<Inputs, 'output'> & NamedValues<Inputs, 'output'>
+  : never;
+
+/** Decoded custom error arguments, by name */
+export type ErrorArgs<A extends Abi, Name extends ErrorName<A>> = NamedValues<
+  NonNullable<ErrorItem<A, Name>['inputs']>,
+  'output'
+>;
+
+type IsReadOnly<Item> = Item extends { stateMutability: 'view' | 'pure' } ? true : false;
+
+type TypedMethod<A extends Abi, Name extends FunctionName<A>> =
+  IsReadOnly<FunctionItem<A, Name>> extends true
+    ? (...args: FunctionArgs<A, Name>) => Promise<FunctionOutput<A, Name>>
+    : {
+        (...args: [...FunctionArgs<A, Name>, overrides?: Overrides]): Promise<ContractTransactionResponse>;
+        /** Simulate the call without sending a transaction */
+        staticCall(...args: [...FunctionArgs<A, Name>, overrides?: Overrides]): Promise<FunctionOutput<A, Name>>;
+        estimateGas(...args: [...FunctionArgs<A, Name>, overrides?: Overrides]): Promise<bigint>;
+      };
+
+/** Filter for one event; indexed arguments may be omitted or null to match anything */
+export interface TypedEventFilter<A extends Abi, Name extends EventName<A>> extends DeferredTopicFilter {
+  /** Phantom marker carrying the event name for queryFilter inference */
+  readonly __event?: Name;
+}
+
+type IndexedFilterArgs<Inputs extends readonly AbiParameter[]> = {
+  -readonly [I in keyof Inputs]?: Inputs[I] extends { indexed: true } ? InputValue<Inputs[I]> | null : null;
+};
+
+type TypedFilters<A extends Abi> = {
+  [Name in EventName<A>]: (
+    ...args: IndexedFilterArgs<NonNullable<EventItem<A, Name>['inputs']>> extends infer Args extends unknown[]
+      ? Args
+      : never
+  ) => TypedEventFilter<A, Name>;
+};
+
+/** A decoded log for a known event */
+export type TypedEventLog<A extends Abi, Name extends EventName<A>> = Omit<EventLog, 'args'> & {
+  args: EventArgs<A, Name>;
+};
+
+/**
+ * An ethers Contract viewed through its ABI
+ */
+export type TypedContract<A extends Abi> = Omit<BaseContract, 'filters' | 'queryFilter' | 'connect'> & {
+  [Name in FunctionName<A>]: TypedMethod<A, Name>;
+} & {
+  readonly filters: TypedFilters<A>;
+  connect(runner: ContractRunner | null): TypedContract<A>;
+  queryFilter<Name extends EventName<A>>(
+    event: Name | TypedEventFilter<A, Name>,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<TypedEventLog<A, Name>[]>;
+};
+
+// ═══════════════════════════════════════════════════════════
+// CONTRACTS
+// ═══════════════════════════════════════════════════════════
+
+export type UserRegistry = TypedContract<typeof UserRegistryABI>;
+export type SubredditDAO = TypedContract<typeof SubredditDAOABI>;
+export type PostManager = TypedContract<typeof PostManagerABI>;
+export type Voting = TypedContract<typeof VotingABI>;
+export type Moderation = TypedContract<typeof ModerationABI>;
+export type Governance = TypedContract<typeof GovernanceABI>;
+
+// ═══════════════════════════════════════════════════════════
+// ERRORS
+// ═══════════════════════════════════════════════════════════
+
+export type BreadItErrorName = ErrorName<typeof BreadItErrorsABI>;
+
+export type BreadItErrorArgs<Name extends BreadItErrorName> = ErrorArgs<typeof BreadItErrorsABI, Name>;
+
+// ═══════════════════════════════════════════════════════════
+// STRUCTS
+// ═══════════════════════════════════════════════════════════
+
+/** UserRegistry.UserProfile */
+export type UserProfile = FunctionOutput<typeof UserRegistryABI, 'getUser'>;
+
+/** SubredditDAO.SubredditConfig */
+export type SubredditConfig = FunctionOutput<typeof SubredditDAOABI, 'getSubreddit'>;
+
+/** PostManager.Post */
+export type Post = FunctionOutput<typeof PostManagerABI, 'getPost'>;
+
+/** PostManager.Comment */
+export type Comment = FunctionOutput<typeof PostManagerABI, 'getComment'>;
+
+/** Governance.Proposal */
+export type Proposal = FunctionOutput<typeof GovernanceABI, 'getProposal'>;
+
+/** Voting.Vote */
+export type Vote = FunctionOutput<typeof VotingABI, 'getVote'>;
+
+/** Moderation.Report */
+export type Report = FunctionOutput<typeof ModerationABI, 'getReport'>;
+
+/** Moderation.ModerationAction */
+export type ModerationAction = FunctionOutput<typeof ModerationABI, 'getModerationAction'>;
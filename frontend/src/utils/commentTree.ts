@@ -0,0 +1,266 @@
+/**
+ * Comment Tree Utilities for Bread-it
+ *
+ * Builds a post's comment tree from PostManager in batched, level-by-level
+ * reads instead of one request per rendered comment, and sorts it.
+ */
+
+import type { CommentData } from '@/components/Comment';
+import type { PostManager, Voting } from '@/types/contracts';
+import { fetchQuery, isQueryStale, queryKeys } from '@/store/queryCache';
+import { parseComment } from '@/utils/encoding';
+import { fetchIndexedComments } from '@/utils/indexerApi';
+import { withLiveDelta, type LiveDelta } from '@/utils/liveEvents';
+import { confidenceScore, controversyScore, type Rankable } from '@/utils/ranking';
+import { stakeKey } from '@/utils/stakes';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type CommentSort = 'best' | 'top' | 'new' | 'controversial' | 'old';
+
+export interface CommentNode {
+  comment: CommentData;
+  upvotes: bigint;
+  downvotes: bigint;
+  /** Every reply id known on-chain */
+  replyIds: bigint[];
+  /** The replies that have been loaded so far (a prefix of replyIds) */
+  children: CommentNode[];
+}
+
+export interface TreeContracts {
+  postManager: PostManager;
+  voting: Voting;
+  /** Reply ids by parent id from the browser index; replaces getCommentReplies reads */
+  replies?: Map<bigint, bigint[]> | null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════
+
+export const COMMENT_SORTS: CommentSort[] = ['best', 'top', 'new', 'controversial', 'old'];
+
+/** Top-level comments fetched per getPostComments call */
+export const TOP_LEVEL_PAGE_SIZE = 50;
+
+/** Replies loaded per comment before showing "load more replies" */
+export const REPLIES_PER_NODE = 10;
+
+/** Maximum concurrent reads per batch */
+const BATCH_SIZE = 25;
+
+// ═══════════════════════════════════════════════════════════
+// FETCHING
+// ═══════════════════════════════════════════════════════════
+
+async function inBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...(await Promise.all(items.slice(i, i + BATCH_SIZE).map(fn))));
+  }
+  return results;
+}
+
+/**
+ * Wrap a bare comment (e.g. an optimistic reply) as a leaf node
+ */
+export function toNode(comment: CommentData): CommentNode {
+  return { comment, upvotes: 0n, downvotes: 0n, replyIds: [], children: [] };
+}
+
+/**
+ * Read comments, their vote counts and reply ids through the query cache.
+ * Cache misses are filled from the indexer service where it has the
+ * comment and from chain otherwise.
+ */
+async function fetchNodes(
+  { postManager, voting, replies: indexedReplies }: TreeContracts,
+  ids: bigint[]
+): Promise<CommentNode[]> {
+  const indexed = await fetchIndexedComments(
+    ids.filter(
+      (id) =>
+        isQueryStale(queryKeys.comment(id)) ||
+        isQueryStale(queryKeys.voteCounts(id, false)) ||
+        (!indexedReplies && isQueryStale(queryKeys.commentReplies(id)))
+    )
+  );
+  return inBatches(ids, async (id) => {
+    const fromIndexer = indexed.get(id);
+    const [comment, counts, replies] = await Promise.all([
+      fetchQuery(
+        queryKeys.comment(id),
+        async () => fromIndexer?.comment ?? parseComment(await postManager.getComment(id))
+      ),
+      fetchQuery(queryKeys.voteCounts(id, false), async () => {
+        if (fromIndexer) return { upvotes: fromIndexer.upvotes, downvotes: fromIndexer.downvotes };
+        const result = await voting.getVoteCounts(id, false);
+        return { upvotes: result[0] as bigint, downvotes: result[1] as bigint };
+      }),
+      indexedReplies
+        ? (indexedReplies.get(id) ?? [])
+        : fetchQuery(
+            queryKeys.commentReplies(id),
+            async () => fromIndexer?.replyIds ?? [...(await postManager.getCommentReplies(id))]
+          ),
+    ]);
+    return { comment, ...counts, replyIds: [...replies], children: [] };
+  });
+}
+
+/**
+ * Load replies breadth-first, one batched read per level, down to `levels`
+ */
+async function expand(contracts: TreeContracts, nodes: CommentNode[], levels: number): Promise<void> {
+  let level = nodes;
+  for (let d = 0; d < levels && level.length > 0; d++) {
+    const parents = level.filter((n) => n.replyIds.length > n.children.length);
+    const wanted = parents.map((n) => n.replyIds.slice(n.children.length, n.children.length + REPLIES_PER_NODE));
+    const fetched = await fetchNodes(contracts, wanted.flat());
+
+    let cursor = 0;
+    const next: CommentNode[] = [];
+    parents.forEach((parent, i) => {
+      const children = fetched.slice(cursor, cursor + wanted[i].length);
+      cursor += wanted[i].length;
+      parent.children = [...parent.children, ...children];
+      next.push(...children);
+    });
+    level = next;
+  }
+}
+
+/**
+ * Fetch every top-level comment id for a post, page by page (or from the
+ * browser index's reply ids when given)
+ */
+export async function fetchTopLevelIds(
+  postManager: PostManager,
+  postId: bigint,
+  indexedReplies?: Map<bigint, bigint[]> | null
+): Promise<bigint[]> {
+  if (indexedReplies) return indexedReplies.get(0n) ?? [];
+  const ids: bigint[] = [];
+  for (let offset = 0; ; offset += TOP_LEVEL_PAGE_SIZE) {
+    const page: bigint[] = await postManager.getPostComments(
+      postId,
+      BigInt(offset),
+      BigInt(TOP_LEVEL_PAGE_SIZE)
+    );
+    ids.push(...page);
+    if (page.length < TOP_LEVEL_PAGE_SIZE) return ids;
+  }
+}
+
+/**
+ * Hydrate a set of comment ids and their replies down to `maxDepth` levels
+ */
+export async function fetchCommentNodes(
+  contracts: TreeContracts,
+  ids: bigint[],
+  maxDepth: number
+): Promise<CommentNode[]> {
+  const nodes = await fetchNodes(contracts, ids);
+  await expand(contracts, nodes, maxDepth - 1);
+  return nodes;
+}
+
+/**
+ * Load the next batch of replies under a node (returns only the new replies)
+ */
+export async function fetchMoreReplies(
+  contracts: TreeContracts,
+  node: CommentNode,
+  maxDepth: number
+): Promise<CommentNode[]> {
+  const loaded = node.children.length;
+  const ids = node.replyIds.slice(loaded, loaded + REPLIES_PER_NODE);
+  return fetchCommentNodes(contracts, ids, maxDepth);
+}
+
+// ═══════════════════════════════════════════════════════════
+// TREE HELPERS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Append replies to the node with the given id anywhere in the tree,
+ * skipping any it already has
+ */
+export function appendReplies(nodes: CommentNode[], id: bigint, replies: CommentNode[]): CommentNode[] {
+  return nodes.map((node) => {
+    if (node.comment.id === id) {
+      const loaded = new Set(node.children.map((child) => child.comment.id));
+      return { ...node, children: [...node.children, ...replies.filter((reply) => !loaded.has(reply.comment.id))] };
+    }
+    if (node.children.length === 0) return node;
+    return { ...node, children: appendReplies(node.children, id, replies) };
+  });
+}
+
+/**
+ * Ids of every comment in the given nodes and their loaded descendants
+ */
+export function collectCommentIds(nodes: CommentNode[]): bigint[] {
+  return nodes.flatMap((node) => [node.comment.id, ...collectCommentIds(node.children)]);
+}
+
+/**
+ * Apply live vote and status changes (keyed by stakeKey) throughout the tree
+ */
+export function applyLiveDeltas(nodes: CommentNode[], deltas: Map<string, LiveDelta>): CommentNode[] {
+  if (deltas.size === 0) return nodes;
+  return nodes.map((node) => {
+    const delta = deltas.get(stakeKey(node.comment.id, false));
+    const children = node.children.length > 0 ? applyLiveDeltas(node.children, deltas) : node.children;
+    if (!delta) return children === node.children ? node : { ...node, children };
+    return {
+      ...node,
+      comment: withLiveDelta(node.comment, delta),
+      upvotes: node.upvotes + delta.upvotes,
+      downvotes: node.downvotes + delta.downvotes,
+      children,
+    };
+  });
+}
+
+function rankable(node: CommentNode): Rankable {
+  return {
+    score: node.comment.score,
+    createdAt: node.comment.createdAt,
+    upvotes: node.upvotes,
+    downvotes: node.downvotes,
+  };
+}
+
+function compare(sort: CommentSort) {
+  return (a: CommentNode, b: CommentNode): number => {
+    const newest = Number(b.comment.createdAt - a.comment.createdAt);
+    switch (sort) {
+      case 'top':
+        return Number(b.comment.score - a.comment.score) || newest;
+      case 'new':
+        return newest;
+      case 'old':
+        return -newest;
+      case 'controversial':
+        return controversyScore(rankable(b)) - controversyScore(rankable(a)) || newest;
+      case 'best':
+      default:
+        return confidenceScore(rankable(b)) - confidenceScore(rankable(a)) || newest;
+    }
+  };
+}
+
+/**
+ * Sort every level of the tree (returns new arrays, nodes are reused)
+ */
+export function sortCommentTree(nodes: CommentNode[], sort: CommentSort): CommentNode[] {
+  return [...nodes]
+    .sort(compare(sort))
+    .map((node) =>
+      node.children.length > 0 ? { ...node, children: sortCommentTree(node.children, sort) } : node
+    );
+}
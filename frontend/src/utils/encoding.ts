@@ -0,0 +1,184 @@
+/**
+ * Encoding Utilities for Bread-it
+ *
+ * Converts between the raw byte fields returned by the contracts
+ * and the plain strings / objects used throughout the UI.
+ */
+
+import { toUtf8Bytes, toUtf8String, zeroPadBytes } from 'ethers';
+import type { PostData } from '@/components/PostCard';
+import type { CommentData } from '@/components/Comment';
+import type { Comment, ModerationAction, Post, Report, SubredditConfig, UserProfile } from '@/types/contracts';
+
+/**
+ * Encode a string as bytes32 (truncated to 31 bytes)
+ */
+export function stringToBytes32(str: string): string {
+  const bytes = toUtf8Bytes(str.slice(0, 31));
+  return zeroPadBytes(bytes, 32);
+}
+
+/**
+ * Decode a zero-padded bytes32 value into a string
+ */
+export function bytes32ToString(bytes32: string): string {
+  try {
+    return toUtf8String(bytes32).replace(/\0/g, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Decode dynamic bytes into a UTF-8 string
+ */
+export function bytesToString(bytes: string): string {
+  try {
+    return toUtf8String(bytes);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Parse a content id from a URL parameter; undefined unless it's a plain
+ * positive integer
+ */
+export function parseIdParam(value: string | string[] | undefined): bigint | undefined {
+  if (typeof value !== 'string' || !/^[1-9]\d*$/.test(value)) return undefined;
+  return BigInt(value);
+}
+
+/**
+ * Convert a UserRegistry.getUser result into a plain object
+ */
+export function parseUserProfile(result: UserProfile) {
+  return {
+    wallet: result.wallet,
+    username: bytes32ToString(result.username),
+    karma: result.karma,
+    createdAt: result.createdAt,
+    lastPostTime: result.lastPostTime,
+    lastCommentTime: result.lastCommentTime,
+    totalPosts: result.totalPosts,
+    totalComments: result.totalComments,
+    isBanned: result.isBanned,
+  };
+}
+
+/**
+ * Convert a PostManager.getPost result into PostData
+ */
+export function parsePost(result: Post): PostData {
+  return {
+    id: result.id,
+    subredditId: result.subredditId,
+    author: result.author,
+    postType: Number(result.postType),
+    title: bytesToString(result.title),
+    body: bytesToString(result.body),
+    ipfsCid: bytesToString(result.ipfsCid),
+    mimeType: bytes32ToString(result.mimeType),
+    score: result.score,
+    commentCount: result.commentCount,
+    createdAt: result.createdAt,
+    status: Number(result.status),
+  };
+}
+
+/**
+ * Convert a PostManager.getComment result into CommentData
+ */
+export function parseComment(result: Comment): CommentData {
+  return {
+    id: result.id,
+    postId: result.postId,
+    parentId: result.parentId,
+    author: result.author,
+    content: bytesToString(result.content),
+    score: result.score,
+    createdAt: result.createdAt,
+    status: Number(result.status),
+  };
+}
+
+/**
+ * Convert a SubredditDAO.getSubreddit result into a plain object
+ */
+export function parseSubreddit(result: SubredditConfig) {
+  return {
+    id: result.id,
+    name: bytes32ToString(result.name),
+    description: bytesToString(result.description),
+    creator: result.creator,
+    createdAt: result.createdAt,
+    minKarmaToPost: result.minKarmaToPost,
+    minKarmaToComment: result.minKarmaToComment,
+    minKarmaToVote: result.minKarmaToVote,
+    postCooldown: result.postCooldown,
+    commentCooldown: result.commentCooldown,
+    isActive: result.isActive,
+  };
+}
+
+/**
+ * Decode SubredditDAO.getRules bytes into a list of rules. Rules are stored
+ * as UTF-8 text: either a JSON array of strings or one rule per line, with
+ * any "1." style numbering dropped.
+ */
+export function parseRules(bytes: string): string[] {
+  const text = bytesToString(bytes).trim();
+  if (!text) return [];
+
+  if (text.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter((rule): rule is string => typeof rule === 'string')
+          .map((rule) => rule.trim())
+          .filter(Boolean);
+      }
+    } catch {
+      // Not JSON after all; read it as lines
+    }
+  }
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\d+[.)]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Convert a Moderation.getReport result into a plain object
+ */
+export function parseReport(result: Report) {
+  return {
+    id: result.id,
+    contentId: result.contentId,
+    isPost: result.isPost,
+    reporter: result.reporter,
+    reason: bytesToString(result.reason),
+    timestamp: result.timestamp,
+    resolved: result.resolved,
+    upheld: result.upheld,
+  };
+}
+
+/**
+ * Convert a Moderation.getModerationAction result into a plain object. The
+ * action bytes are kept raw; their encoding depends on how the action was
+ * taken.
+ */
+export function parseModerationAction(result: ModerationAction) {
+  return {
+    id: result.id,
+    contentId: result.contentId,
+    isPost: result.isPost,
+    moderator: result.moderator,
+    action: result.action,
+    reason: bytesToString(result.reason),
+    timestamp: result.timestamp,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Error Decoding Utilities for Bread-it
+ *
+ * Turns failed contract calls into readable errors. Reverts carrying a
+ * BreadItErrors custom error are decoded into a typed ContractError with a
+ * message built from the error's parameters; wallet rejections and missing
+ * funds get short messages of their own. Anything else passes through.
+ */
+
+import { Interface, formatEther, isError } from 'ethers';
+import { BreadItErrorsABI } from '@/config/abis';
+import { monadTestnet } from '@/config/contracts';
+import { bytes32ToString } from '@/utils/encoding';
+import { formatDuration, nowSeconds } from '@/utils/time';
+import type { BreadItErrorArgs, BreadItErrorName } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type WalletErrorName = 'UserRejected' | 'InsufficientFunds' | 'WalletNotConnected';
+
+export type ContractErrorName = BreadItErrorName | WalletErrorName;
+
+export interface DecodeOptions {
+  /** Verb for the attempted action, used in messages ("post", "vote"...) */
+  action?: string;
+}
+
+/**
+ * A decoded revert. `args` is typed per error name once narrowed with
+ * isContractError(err, name).
+ */
+export class ContractError<Name extends ContractErrorName = ContractErrorName> extends Error {
+  readonly errorName: Name;
+  readonly args: Name extends BreadItErrorName ? BreadItErrorArgs<Name> : Record<string, never>;
+
+  constructor(
+    errorName: Name,
+    args: Name extends BreadItErrorName ? BreadItErrorArgs<Name> : Record<string, never>,
+    message: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ContractError';
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// MESSAGES
+// ═══════════════════════════════════════════════════════════
+
+const errorsInterface = new Interface(BreadItErrorsABI);
+
+const symbol = monadTestnet.nativeCurrency.symbol;
+
+type MessageBuilder<Name extends BreadItErrorName> = (
+  args: BreadItErrorArgs<Name>,
+  action: string
+) => string;
+
+/**
+ * One message per BreadItErrors entry
+ */
+const MESSAGES: { [Name in BreadItErrorName]: MessageBuilder<Name> } = {
+  // User Registry
+  UserAlreadyRegistered: () => 'This wallet is already registered',
+  UserNotRegistered: () => 'You need to register a username first',
+  UserIsBanned: () => 'This account is banned',
+  InvalidUsername: () => 'Please choose a username',
+  UsernameTaken: ({ username }) => {
+    const name = bytes32ToString(username);
+    return name ? `Username "${name}" is already taken` : 'Username already taken';
+  },
+  InsufficientKarma: ({ required, actual }, action) =>
+    `You need ${required} karma to ${action} here (you have ${actual})`,
+  RateLimitExceeded: ({ nextAllowedTime }, action) => {
+    const remaining = Number(nextAllowedTime) - nowSeconds();
+    return remaining > 0
+      ? `You can ${action} again in ${formatDuration(remaining)}`
+      : `You're doing that too often. Please wait a moment before you ${action} again.`;
+  },
+
+  // Post Manager
+  PostNotFound: ({ postId }) => `Post #${postId} does not exist`,
+  CommentNotFound: ({ commentId }) => `Comment #${commentId} does not exist`,
+  TitleTooLong: ({ length, maxLength }) => `Title is too long (${length}/${maxLength} bytes)`,
+  BodyTooLong: ({ length, maxLength }) => `Text is too long (${length}/${maxLength} bytes)`,
+  EmptyContent: () => 'Content cannot be empty',
+  InvalidIPFSCid: () => 'The uploaded media reference is invalid',
+  ContentHidden: () => 'This content has been removed by moderators',
+  InvalidMimeType: () => 'Unsupported media type',
+
+  // Subreddit
+  SubredditNotFound: ({ subredditId }) => `Community #${subredditId} does not exist`,
+  SubredditNameTaken: ({ name }) => {
+    const decoded = bytes32ToString(name);
+    return decoded ? `r/${decoded} already exists` : 'That community name is already taken';
+  },
+  SubredditInactive: () => 'This community is no longer active',
+  InvalidSubredditName: () => 'Please choose a community name',
+  NotModerator: () => 'Only moderators of this community can do that',
+  AlreadyModerator: () => 'That user is already a moderator',
+  CreatorCannotBeRemoved: () => 'The community creator cannot be removed',
+
+  // Voting
+  AlreadyVoted: () => "You've already voted on this",
+  CannotVoteOwnContent: () => "You can't vote on your own content",
+  InsufficientStake: ({ provided, required }) =>
+    `Stake too low: ${formatEther(provided)} ${symbol} sent, ${formatEther(required)} ${symbol} required`,
+  VoteNotFound: () => "You haven't voted on this",
+  StakeAlreadyWithdrawn: () => 'This stake has already been withdrawn or slashed',
+  ContentTooOldForVoting: ({ age }) =>
+    `Voting is closed: this was posted ${formatDuration(Number(age))} ago`,
+
+  // Governance
+  ProposalNotFound: ({ proposalId }) => `Proposal #${proposalId} does not exist`,
+  ProposalNotActive: () => 'Voting on this proposal is closed',
+  ProposalAlreadyExecuted: () => 'This proposal has already been executed',
+  ProposalNotSucceeded: () => 'This proposal did not pass',
+  TimelockNotPassed: ({ executeTime }, action) => {
+    const remaining = Number(executeTime) - nowSeconds();
+    return remaining > 0
+      ? `Still locked: you can ${action} in ${formatDuration(remaining)}`
+      : 'Still locked. Please try again shortly.';
+  },
+  AlreadyVotedOnProposal: () => "You've already voted on this proposal",
+  InsufficientVotingPower: () => "You don't have enough voting power",
+  QuorumNotReached: () => 'Not enough votes were cast to reach quorum',
+  InvalidProposalData: () => 'The proposal data is invalid',
+
+  // Moderation
+  ReportNotFound: ({ reportId }) => `Report #${reportId} does not exist`,
+  ReportAlreadyResolved: () => 'This report has already been resolved',
+  NotAuthorizedModerator: () => "You're not a moderator here",
+  CannotReportOwnContent: () => "You can't report your own content",
+  DuplicateReport: () => "You've already reported this",
+
+  // Treasury
+  InsufficientTreasuryBalance: ({ requested, available }) =>
+    `Treasury only holds ${formatEther(available)} ${symbol} (${formatEther(requested)} ${symbol} requested)`,
+  InvalidRecipient: () => 'Invalid recipient',
+  TransferFailed: () => 'The transfer failed',
+
+  // General
+  Unauthorized: () => "You're not allowed to do that",
+  ZeroAddress: () => 'Address cannot be empty',
+  InvalidAmount: () => 'Invalid amount',
+  ContractPaused: () => 'The protocol is paused. Please try again later.',
+  ReentrancyGuard: () => 'Transaction rejected by the reentrancy guard',
+};
+
+// ═══════════════════════════════════════════════════════════
+// DECODING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Find revert data anywhere in an error (ethers nests provider errors)
+ */
+function findRevertData(err: unknown, depth = 0): string | null {
+  if (!err || typeof err !== 'object' || depth > 5) return null;
+  const e = err as Record<string, unknown>;
+
+  if (typeof e.data === 'string' && e.data.startsWith('0x') && e.data.length >= 10) {
+    return e.data;
+  }
+  for (const nested of [e.data, e.error, e.info, e.cause]) {
+    const found = findRevertData(nested, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Decode raw revert data into a ContractError, if it is a BreadItErrors error
+ */
+export function decodeRevertData(
+  data: string,
+  { action = 'do that' }: DecodeOptions = {},
+  cause?: unknown
+): ContractError | null {
+  const parsed = errorsInterface.parseError(data);
+  // parseError also recognises the built-in Error(string) and Panic(uint256)
+  if (!parsed || !(parsed.name in MESSAGES)) return null;
+
+  const name = parsed.name as BreadItErrorName;
+  const args = Object.fromEntries(
+    parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i]])
+  ) as BreadItErrorArgs<typeof name>;
+  const build = MESSAGES[name] as MessageBuilder<typeof name>;
+
+  return new ContractError(name, args, build(args, action), cause);
+}
+
+/**
+ * Convert any error thrown by a contract call into a user-facing Error.
+ * BreadItErrors reverts become ContractErrors; other errors are returned
+ * unchanged when they already carry a readable message.
+ */
+export function decodeContractError(err: unknown, options: DecodeOptions = {}): Error {
+  if (err instanceof ContractError) return err;
+
+  // Read-only contracts (no wallet connected) can't send transactions
+  if (isError(err, 'UNSUPPORTED_OPERATION') && err.operation === 'sendTransaction') {
+    return new ContractError(
+      'WalletNotConnected',
+      {},
+      `Connect your wallet to ${options.action ?? 'continue'}`,
+      err
+    );
+  }
+  if (isError(err, 'ACTION_REJECTED')) {
+    return new ContractError('UserRejected', {}, 'Transaction rejected in wallet', err);
+  }
+  if (isError(err, 'INSUFFICIENT_FUNDS')) {
+    return new ContractError(
+      'InsufficientFunds',
+      {},
+      `Not enough ${symbol} to cover this transaction and gas`,
+      err
+    );
+  }
+
+  const data = findRevertData(err);
+  if (data) {
+    const decoded = decodeRevertData(data, options, err);
+    if (decoded) return decoded;
+  }
+
+  if (isError(err, 'CALL_EXCEPTION') && err.reason) {
+    return new Error(err.reason, { cause: err });
+  }
+  if (err instanceof Error) {
+    // ethers messages append a long debug payload after the short message
+    const short = (err as { shortMessage?: string }).shortMessage;
+    return short ? new Error(short, { cause: err }) : err;
+  }
+  return new Error(String(err));
+}
+
+/**
+ * Narrow an unknown error to a specific decoded contract error
+ */
+export function isContractError<Name extends ContractErrorName>(
+  err: unknown,
+  name: Name
+): err is ContractError<Name> {
+  return err instanceof ContractError && err.errorName === name;
+}
@@ -0,0 +1,64 @@
+/**
+ * Cost Estimation Utilities for Bread-it
+ *
+ * Prices a write before it is sent: estimated gas at the current fee, plus
+ * any value attached to the call (community creation fee, vote stake), set
+ * against the sender's balance.
+ */
+
+import type { Overrides, Provider } from 'ethers';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export interface CostEstimate {
+  /** Null when the call couldn't be simulated because the balance doesn't cover `value` */
+  gasLimit: bigint | null;
+  /** Highest price per gas the transaction should pay */
+  gasPrice: bigint;
+  /** gasLimit × gasPrice (0 when gasLimit is unknown) */
+  gasCost: bigint;
+  /** Native currency sent with the call */
+  value: bigint;
+  total: bigint;
+  balance: bigint;
+  isAffordable: boolean;
+}
+
+/** The call's own estimateGas, given the overrides it should run with */
+export type GasEstimator = (overrides: Overrides) => Promise<bigint>;
+
+// ═══════════════════════════════════════════════════════════
+// ESTIMATION
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Estimate what sending a call from `from` would cost in total. Throws
+ * whatever estimateGas throws when the call would revert.
+ */
+export async function estimateCost(
+  provider: Provider,
+  from: string,
+  estimateGas: GasEstimator,
+  value: bigint = 0n
+): Promise<CostEstimate> {
+  const [feeData, balance] = await Promise.all([provider.getFeeData(), provider.getBalance(from)]);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  // Simulating a payable call with more value than the wallet holds fails
+  // before the contract runs, so there'd be no gas figure anyway
+  const gasLimit = balance >= value ? await estimateGas(value > 0n ? { from, value } : { from }) : null;
+  const gasCost = gasLimit === null ? 0n : gasLimit * gasPrice;
+  const total = gasCost + value;
+
+  return {
+    gasLimit,
+    gasPrice,
+    gasCost,
+    value,
+    total,
+    balance,
+    isAffordable: gasLimit !== null && balance >= total,
+  };
+}
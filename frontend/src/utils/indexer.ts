@@ -0,0 +1,432 @@
+/**
+ * Browser Indexer Utilities for Bread-it
+ *
+ * Copies protocol event logs into IndexedDB so history reads (a wallet's
+ * votes, a post's voters, a user's karma changes...) are local lookups
+ * instead of eth_getLogs scans from the deployment block. Logs are stored
+ * raw and decoded by the caller with parseEventLogs, exactly as if they came
+ * from the RPC.
+ *
+ * Opt-in through NEXT_PUBLIC_BROWSER_INDEXER, and only with a configured
+ * deployment block. The index always covers one contiguous range starting
+ * at the deployment block. Each sync re-reads the last `reorgDepth` blocks it indexed and
+ * replaces whatever it had stored for them, so logs from orphaned blocks
+ * don't survive a reorg.
+ */
+
+import { Interface, Log, toBeHex, zeroPadValue } from 'ethers';
+import type { Filter, LogParams, Provider } from 'ethers';
+import type { PostManager } from '@/types/contracts';
+import {
+  UserRegistryABI,
+  SubredditDAOABI,
+  PostManagerABI,
+  VotingABI,
+  ModerationABI,
+  GovernanceABI,
+} from '@/config/abis';
+import { CONTRACT_ADDRESSES, EVENTS_CONFIG, monadTestnet } from '@/config/contracts';
+import { deploymentBlock, getLogsInChunks } from '@/utils/logs';
+
+// ═══════════════════════════════════════════════════════════
+// SOURCES
+// ═══════════════════════════════════════════════════════════
+
+const SOURCES = [
+  { address: CONTRACT_ADDRESSES.UserRegistry, abi: UserRegistryABI, events: ['UserRegistered', 'KarmaUpdated'] },
+  { address: CONTRACT_ADDRESSES.SubredditDAO, abi: SubredditDAOABI, events: ['SubredditCreated', 'MemberJoined'] },
+  {
+    address: CONTRACT_ADDRESSES.PostManager,
+    abi: PostManagerABI,
+    events: ['PostCreated', 'CommentCreated', 'ContentStatusChanged'],
+  },
+  { address: CONTRACT_ADDRESSES.Voting, abi: VotingABI, events: ['Voted', 'VoteChanged', 'StakeWithdrawn', 'StakeSlashed'] },
+  {
+    address: CONTRACT_ADDRESSES.Moderation,
+    abi: ModerationABI,
+    events: ['ContentReported', 'ModerationActionTaken', 'ReportResolved', 'ContentFlagged', 'KarmaSlashed'],
+  },
+  {
+    address: CONTRACT_ADDRESSES.Governance,
+    abi: GovernanceABI,
+    events: ['ProposalCreated', 'ProposalVoted', 'ProposalExecuted', 'ProposalCancelled'],
+  },
+] as const;
+
+export type IndexedEvent = (typeof SOURCES)[number]['events'][number];
+
+/** Interfaces by lowercased contract address */
+const interfaces = new Map(
+  SOURCES.map((source) => [source.address.toLowerCase(), new Interface(source.abi)] as const)
+);
+
+const ADDRESSES = SOURCES.map((source) => source.address);
+
+const TOPICS = SOURCES.flatMap((source) => {
+  const iface = interfaces.get(source.address.toLowerCase())!;
+  return source.events.map((name) => iface.getEvent(name)!.topicHash);
+});
+
+/** Changes whenever the indexed contracts do, invalidating stored logs */
+const FINGERPRINT = JSON.stringify([monadTestnet.id, EVENTS_CONFIG.deploymentBlock, ADDRESSES, TOPICS]);
+
+// ═══════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════
+
+const DB_NAME = 'bread-it-indexer';
+const DB_VERSION = 1;
+
+/** Blocks fetched between two cursor saves */
+const BATCH_BLOCKS = EVENTS_CONFIG.logChunkSize * 20;
+
+/** Most blocks the index may trail the head by and still answer lookups */
+const MAX_LOOKUP_LAG = EVENTS_CONFIG.logChunkSize * 4;
+
+interface StoredLog extends Omit<LogParams, 'removed' | 'topics'> {
+  topics: string[];
+  /** The event name, plus `Event|arg=value` for every fixed-size argument */
+  keys: string[];
+}
+
+interface Cursor {
+  fingerprint: string;
+  /** Every log up to and including this block is stored */
+  lastBlock: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Resolve an IndexedDB request
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits
+ */
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Index transaction aborted'));
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Primary key sorts logs in chain order
+        const logs = db.createObjectStore('logs', { keyPath: ['blockNumber', 'index'] });
+        logs.createIndex('keys', 'keys', { multiEntry: true });
+        db.createObjectStore('meta');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * The indexed range, or null if nothing valid is stored
+ */
+async function readCursor(db: IDBDatabase): Promise<Cursor | null> {
+  const cursor = await settle<Cursor | undefined>(db.transaction('meta').objectStore('meta').get('cursor'));
+  return cursor && cursor.fingerprint === FINGERPRINT ? cursor : null;
+}
+
+/**
+ * Normalise an argument or filter value for use in a key
+ */
+function keyValue(value: unknown): string {
+  return typeof value === 'string' ? value.toLowerCase() : String(value);
+}
+
+function toStoredLog(log: Log): StoredLog | null {
+  const iface = interfaces.get(log.address.toLowerCase());
+  const parsed = iface?.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const keys: string[] = [parsed.name];
+  parsed.fragment.inputs.forEach((input, i) => {
+    // Strings, bytes, arrays and tuples aren't useful to look up by
+    if (input.baseType === 'string' || input.baseType === 'bytes' || input.baseType === 'array' || input.baseType === 'tuple') {
+      return;
+    }
+    keys.push(`${parsed.name}|${input.name}=${keyValue(parsed.args[i])}`);
+  });
+
+  return {
+    address: log.address,
+    topics: [...log.topics],
+    data: log.data,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: log.transactionIndex,
+    index: log.index,
+    keys,
+  };
+}
+
+/**
+ * Replace everything stored for [fromBlock, toBlock] and advance the cursor,
+ * in one transaction
+ */
+async function writeRange(db: IDBDatabase, fromBlock: number, toBlock: number, logs: Log[]) {
+  const tx = db.transaction(['logs', 'meta'], 'readwrite');
+  const store = tx.objectStore('logs');
+  store.delete(IDBKeyRange.bound([fromBlock, 0], [toBlock, Infinity]));
+  for (const log of logs) {
+    const stored = toStoredLog(log);
+    if (stored) store.put(stored);
+  }
+  const cursor: Cursor = { fingerprint: FINGERPRINT, lastBlock: toBlock };
+  tx.objectStore('meta').put(cursor, 'cursor');
+  await committed(tx);
+}
+
+async function clearIndex(db: IDBDatabase) {
+  const tx = db.transaction(['logs', 'meta'], 'readwrite');
+  tx.objectStore('logs').clear();
+  tx.objectStore('meta').clear();
+  await committed(tx);
+}
+
+// ═══════════════════════════════════════════════════════════
+// SYNC
+// ═══════════════════════════════════════════════════════════
+
+export interface SyncProgress {
+  lastBlock: number;
+  headBlock: number;
+}
+
+interface SyncOptions {
+  signal?: AbortSignal;
+  /** Called after every batch is stored */
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+/**
+ * Bring the index up to the chain head: backfill from where the last sync
+ * stopped (or the deployment block), re-reading the most recent indexed
+ * blocks first. Batches are saved as they arrive, so an interrupted sync
+ * resumes where it left off.
+ */
+export async function syncIndex(provider: Provider, { signal, onProgress }: SyncOptions = {}): Promise<SyncProgress> {
+  const startBlock = deploymentBlock();
+  const db = await openDb();
+  const headBlock = await provider.getBlockNumber();
+
+  const cursor = await readCursor(db);
+  if (!cursor) await clearIndex(db);
+
+  let fromBlock = cursor
+    ? Math.max(startBlock, cursor.lastBlock - EVENTS_CONFIG.reorgDepth + 1)
+    : startBlock;
+  let lastBlock = cursor?.lastBlock ?? startBlock - 1;
+
+  while (fromBlock <= headBlock && !signal?.aborted) {
+    const toBlock = Math.min(fromBlock + BATCH_BLOCKS - 1, headBlock);
+    const logs = await getLogsInChunks(provider, { address: ADDRESSES, topics: [TOPICS] }, { fromBlock, toBlock });
+    if (signal?.aborted) break;
+
+    await writeRange(db, fromBlock, toBlock, logs);
+    lastBlock = toBlock;
+    onProgress?.({ lastBlock, headBlock });
+    fromBlock = toBlock + 1;
+  }
+
+  return { lastBlock, headBlock };
+}
+
+// ═══════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════
+
+export interface IndexQuery {
+  events: readonly IndexedEvent[];
+  /** Argument values every log must have, e.g. `{ voter }` or `{ contentId, isPost }` */
+  where?: Record<string, string | bigint | number | boolean>;
+}
+
+/**
+ * Stored logs matching a query within [fromBlock, toBlock], in chain order
+ */
+async function queryStoredLogs(
+  db: IDBDatabase,
+  provider: Provider,
+  { events, where = {} }: IndexQuery,
+  fromBlock: number,
+  toBlock: number
+): Promise<Log[]> {
+  const conditions = Object.entries(where);
+  const store = db.transaction('logs').objectStore('logs');
+
+  const matches = await Promise.all(
+    events.map(async (name) => {
+      const required = conditions.map(([arg, value]) => `${name}|${arg}=${keyValue(value)}`);
+      // Look up by the first condition, then check the rest
+      const stored = await settle<StoredLog[]>(store.index('keys').getAll(required[0] ?? name));
+      return stored.filter(
+        (log) =>
+          log.blockNumber >= fromBlock &&
+          log.blockNumber <= toBlock &&
+          required.every((key) => log.keys.includes(key))
+      );
+    })
+  );
+
+  return matches
+    .flat()
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+    .map(({ keys: _keys, ...log }) => new Log({ ...log, removed: false }, provider));
+}
+
+/**
+ * The index and its cursor, or null when it's disabled, empty or unreadable
+ */
+async function openIndex(): Promise<{ db: IDBDatabase; cursor: Cursor } | null> {
+  if (!EVENTS_CONFIG.browserIndexer || EVENTS_CONFIG.deploymentBlock <= 0) return null;
+  try {
+    const db = await openDb();
+    const cursor = await readCursor(db);
+    return cursor ? { db, cursor } : null;
+  } catch {
+    // No IndexedDB (private browsing, server render): read the chain
+    return null;
+  }
+}
+
+/**
+ * Logs matching `filter` over a block range, served from the browser index
+ * where it has them and from the chain for blocks it hasn't reached (or
+ * might still see reorged). `query` must describe the same logs as `filter`.
+ * Falls back to a plain chunked scan when the index isn't available.
+ */
+export async function readLogs(
+  provider: Provider,
+  filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+  query: IndexQuery,
+  { fromBlock = deploymentBlock(), toBlock }: { fromBlock?: number; toBlock?: number } = {}
+): Promise<Log[]> {
+  const index = await openIndex();
+
+  // Last block whose stored logs can't change any more
+  const settledBlock = index ? index.cursor.lastBlock - EVENTS_CONFIG.reorgDepth : -1;
+  if (!index || settledBlock < fromBlock) {
+    return getLogsInChunks(provider, filter, { fromBlock, toBlock });
+  }
+  const { db } = index;
+
+  const end = toBlock ?? (await provider.getBlockNumber());
+  const [stored, recent] = await Promise.all([
+    queryStoredLogs(db, provider, query, fromBlock, Math.min(settledBlock, end)),
+    settledBlock < end
+      ? getLogsInChunks(provider, filter, { fromBlock: settledBlock + 1, toBlock: end })
+      : Promise.resolve([]),
+  ]);
+  return [...stored, ...recent];
+}
+
+/**
+ * Every log matching `filter`, but only when the index is close enough to
+ * the head that the rest is a short read. Null otherwise, so callers use
+ * their contract reads instead of starting a history scan.
+ */
+async function readIndexedLogs(
+  provider: Provider,
+  filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+  query: IndexQuery
+): Promise<Log[] | null> {
+  const index = await openIndex();
+  if (!index) return null;
+
+  const headBlock = await provider.getBlockNumber();
+  const settledBlock = index.cursor.lastBlock - EVENTS_CONFIG.reorgDepth;
+  if (settledBlock < EVENTS_CONFIG.deploymentBlock || headBlock - settledBlock > MAX_LOOKUP_LAG) return null;
+
+  const [stored, recent] = await Promise.all([
+    queryStoredLogs(index.db, provider, query, EVENTS_CONFIG.deploymentBlock, settledBlock),
+    getLogsInChunks(provider, filter, { fromBlock: settledBlock + 1, toBlock: headBlock }),
+  ]);
+  return [...stored, ...recent];
+}
+
+const postManagerInterface = interfaces.get(CONTRACT_ADDRESSES.PostManager.toLowerCase())!;
+
+function topicFor(value: bigint): string {
+  return zeroPadValue(toBeHex(value), 32);
+}
+
+/**
+ * A community's post ids in creation order (the order getSubredditPosts
+ * pages through), or null when the index can't answer
+ */
+export async function indexedSubredditPostIds(provider: Provider, subredditId: bigint): Promise<bigint[] | null> {
+  const event = postManagerInterface.getEvent('PostCreated')!;
+  const logs = await readIndexedLogs(
+    provider,
+    { address: CONTRACT_ADDRESSES.PostManager, topics: [event.topicHash, null, topicFor(subredditId)] },
+    { events: ['PostCreated'], where: { subredditId } }
+  );
+  return logs?.map((log) => postManagerInterface.parseLog(log)!.args.postId as bigint) ?? null;
+}
+
+/**
+ * A page of a community's post ids: sliced from the index when it can
+ * answer, read with getSubredditPosts otherwise
+ */
+export async function fetchSubredditPostIds(
+  postManager: PostManager,
+  provider: Provider,
+  subredditId: bigint,
+  offset: number,
+  limit: number
+): Promise<bigint[]> {
+  const indexed = await indexedSubredditPostIds(provider, subredditId);
+  if (indexed) return indexed.slice(offset, offset + limit);
+  return [...(await postManager.getSubredditPosts(subredditId, BigInt(offset), BigInt(limit)))];
+}
+
+/**
+ * A post's comment ids by parent id (0 for top-level comments), each list in
+ * creation order like getPostComments and getCommentReplies. Null when the
+ * index can't answer.
+ */
+export async function indexedCommentReplies(
+  provider: Provider,
+  postId: bigint
+): Promise<Map<bigint, bigint[]> | null> {
+  const event = postManagerInterface.getEvent('CommentCreated')!;
+  const logs = await readIndexedLogs(
+    provider,
+    { address: CONTRACT_ADDRESSES.PostManager, topics: [event.topicHash, null, topicFor(postId)] },
+    { events: ['CommentCreated'], where: { postId } }
+  );
+  if (!logs) return null;
+
+  const replies = new Map<bigint, bigint[]>();
+  for (const log of logs) {
+    const { commentId, parentId } = postManagerInterface.parseLog(log)!.args;
+    replies.set(parentId, [...(replies.get(parentId) ?? []), commentId]);
+  }
+  return replies;
+}
@@ -0,0 +1,145 @@
+/**
+ * Indexer API Utilities for Bread-it
+ *
+ * Client for the optional self-hosted indexer service. Every helper returns
+ * whatever the service had and leaves the rest to the caller's chain reads;
+ * when the service is unset or unreachable they return nothing.
+ */
+
+import { INDEXER_CONFIG } from '@/config/contracts';
+import type { PostData } from '@/components/PostCard';
+import type { CommentNode } from '@/utils/commentTree';
+
+/** After a failed request the service is skipped for this long */
+const RETRY_AFTER_MS = 60_000;
+
+/** The service's limit on ids per request */
+const MAX_IDS = 100;
+
+let unavailableUntil = 0;
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+/** Integers arrive as decimal strings */
+interface PostJson {
+  id: string;
+  subredditId: string;
+  author: string;
+  postType: number;
+  title: string;
+  body: string;
+  ipfsCid: string;
+  mimeType: string;
+  score: string;
+  upvotes: string;
+  downvotes: string;
+  commentCount: string;
+  createdAt: string;
+  status: number;
+}
+
+interface CommentJson {
+  id: string;
+  postId: string;
+  parentId: string;
+  author: string;
+  content: string;
+  score: string;
+  upvotes: string;
+  downvotes: string;
+  createdAt: string;
+  status: number;
+  replyIds: string[];
+}
+
+// ═══════════════════════════════════════════════════════════
+// REQUESTS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Whether requests will be attempted at all
+ */
+export function isIndexerEnabled(): boolean {
+  return INDEXER_CONFIG.url !== '' && Date.now() >= unavailableUntil;
+}
+
+/**
+ * GET a path from the service, or null if it is disabled or failing
+ */
+async function request<T>(path: string): Promise<T | null> {
+  if (!isIndexerEnabled()) return null;
+  try {
+    const res = await fetch(`${INDEXER_CONFIG.url}${path}`, {
+      signal: AbortSignal.timeout(INDEXER_CONFIG.timeoutMs),
+    });
+    if (!res.ok) throw new Error(`Indexer responded with ${res.status}`);
+    return (await res.json()) as T;
+  } catch (err) {
+    unavailableUntil = Date.now() + RETRY_AFTER_MS;
+    console.warn('Indexer unavailable, reading from the chain:', err);
+    return null;
+  }
+}
+
+/**
+ * Look up items by id, in requests of up to MAX_IDS
+ */
+async function requestByIds<T>(path: string, ids: bigint[]): Promise<T[]> {
+  const items: T[] = [];
+  for (let i = 0; i < ids.length; i += MAX_IDS) {
+    const data = await request<{ items: T[] }>(`${path}?ids=${ids.slice(i, i + MAX_IDS).join(',')}`);
+    if (!data) break;
+    items.push(...data.items);
+  }
+  return items;
+}
+
+/**
+ * Posts the service has indexed, with vote counts
+ */
+export async function fetchIndexedPosts(ids: bigint[]): Promise<Map<bigint, PostData>> {
+  const posts = new Map<bigint, PostData>();
+  for (const post of await requestByIds<PostJson>('/posts', ids)) {
+    posts.set(BigInt(post.id), {
+      ...post,
+      id: BigInt(post.id),
+      subredditId: BigInt(post.subredditId),
+      score: BigInt(post.score),
+      upvotes: BigInt(post.upvotes),
+      downvotes: BigInt(post.downvotes),
+      commentCount: BigInt(post.commentCount),
+      createdAt: BigInt(post.createdAt),
+    });
+  }
+  return posts;
+}
+
+/**
+ * Comment tree nodes (without children) for the comments the service has
+ * indexed
+ */
+export async function fetchIndexedComments(ids: bigint[]): Promise<Map<bigint, CommentNode>> {
+  const nodes = new Map<bigint, CommentNode>();
+  for (const comment of await requestByIds<CommentJson>('/comments', ids)) {
+    const id = BigInt(comment.id);
+    nodes.set(id, {
+      comment: {
+        id,
+        postId: BigInt(comment.postId),
+        parentId: BigInt(comment.parentId),
+        author: comment.author,
+        content: comment.content,
+        score: BigInt(comment.score),
+        createdAt: BigInt(comment.createdAt),
+        status: comment.status,
+      },
+      upvotes: BigInt(comment.upvotes),
+      downvotes: BigInt(comment.downvotes),
+      replyIds: comment.replyIds.map(BigInt),
+      children: [],
+    });
+  }
+  return nodes;
+}
@@ -0,0 +1,263 @@
+/**
+ * Live Event Utilities for Bread-it
+ *
+ * Follows new PostManager and Voting events as they are mined: over a
+ * WebSocket subscription when the chain config has a WebSocket endpoint,
+ * otherwise by polling eth_getLogs. A failed socket falls back to polling.
+ * Consumers decide what to do with each event; this module only delivers
+ * them once each, in the order they arrive.
+ */
+
+import { WebSocketProvider, type JsonRpcProvider, type Log } from 'ethers';
+import { monadTestnet } from '@/config/contracts';
+import type { PostManagerABI, VotingABI } from '@/config/abis';
+import { eventTopics, getLogsInChunks, parseEventLogs, type AnyEventLog } from '@/utils/logs';
+import { stakeKey } from '@/utils/stakes';
+import type { PostManager, Voting } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export const LIVE_POST_EVENTS = ['PostCreated', 'CommentCreated', 'ContentStatusChanged'] as const;
+export const LIVE_VOTE_EVENTS = ['Voted', 'VoteChanged'] as const;
+
+export type LiveEvent =
+  | AnyEventLog<typeof PostManagerABI, (typeof LIVE_POST_EVENTS)[number]>
+  | AnyEventLog<typeof VotingABI, (typeof LIVE_VOTE_EVENTS)[number]>;
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+export type LiveMode = 'websocket' | 'polling';
+
+/** Changes to a post or comment seen since it was loaded */
+export interface LiveDelta {
+  upvotes: bigint;
+  downvotes: bigint;
+  comments: bigint;
+  /** Latest ContentStatus, if it changed */
+  status?: number;
+}
+
+/** Fields of PostData and CommentData that live events change */
+interface LiveFields {
+  score: bigint;
+  status: number;
+  upvotes?: bigint;
+  downvotes?: bigint;
+  commentCount?: bigint;
+}
+
+interface LiveEventOptions {
+  readProvider: JsonRpcProvider;
+  postManager: PostManager;
+  voting: Voting;
+  onEvent: LiveEventListener;
+  onModeChange?: (mode: LiveMode) => void;
+}
+
+/** How often new logs are polled for without a WebSocket */
+const POLL_INTERVAL_MS = 4000;
+
+/** Delivered log ids remembered for de-duplication */
+const SEEN_LIMIT = 1000;
+
+/** Chain id of Monad Testnet, the only chain the named public endpoints serve */
+const MONAD_TESTNET_ID = 10143;
+
+// ═══════════════════════════════════════════════════════════
+// ENDPOINTS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * The WebSocket endpoint to subscribe through, if any: the configured one,
+ * else the first public endpoint that has one (on Monad Testnet only)
+ */
+export function webSocketUrl(): string | null {
+  const { default: primary, ...others } = monadTestnet.rpcUrls;
+  if (primary.ws.length > 0) return primary.ws[0];
+  if (monadTestnet.id !== MONAD_TESTNET_ID) return null;
+
+  for (const urls of Object.values(others)) {
+    if ('ws' in urls && urls.ws.length > 0) return urls.ws[0];
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// FOLLOWING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Start delivering new events to `onEvent`. Returns a function that stops.
+ */
+export function startLiveEvents({
+  readProvider,
+  postManager,
+  voting,
+  onEvent,
+  onModeChange,
+}: LiveEventOptions): () => void {
+  let stopped = false;
+  let socket: WebSocketProvider | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  /** First block not yet covered by polling */
+  let nextBlock: number | undefined;
+  const seen = new Set<string>();
+
+  const filter = {
+    address: [postManager.target as string, voting.target as string],
+    topics: [[...eventTopics(postManager, LIVE_POST_EVENTS), ...eventTopics(voting, LIVE_VOTE_EVENTS)]],
+  };
+
+  const deliver = (logs: Log[]) => {
+    for (const log of logs) {
+      const id = `${log.transactionHash}:${log.index}`;
+      if (log.removed || seen.has(id)) continue;
+      seen.add(id);
+      if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value!);
+
+      const [event] = [
+        ...parseEventLogs(postManager, [log], LIVE_POST_EVENTS),
+        ...parseEventLogs(voting, [log], LIVE_VOTE_EVENTS),
+      ];
+      if (event) onEvent(event);
+    }
+  };
+
+  const poll = async () => {
+    try {
+      const head = await readProvider.getBlockNumber();
+      if (nextBlock === undefined) {
+        nextBlock = head + 1;
+      } else if (head >= nextBlock) {
+        const logs = await getLogsInChunks(readProvider, filter, { fromBlock: nextBlock, toBlock: head });
+        if (stopped) return;
+        deliver(logs);
+        nextBlock = head + 1;
+      }
+    } catch (err) {
+      console.error('Failed to poll for new events:', err);
+    }
+    if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+
+  const startPolling = () => {
+    onModeChange?.('polling');
+    poll();
+  };
+
+  const url = typeof window !== 'undefined' ? webSocketUrl() : null;
+  if (url) {
+    let failed = false;
+    const fallBack = () => {
+      if (failed || stopped) return;
+      failed = true;
+      console.warn('Live event socket closed, polling instead');
+      socket?.destroy();
+      socket = null;
+      startPolling();
+    };
+
+    socket = new WebSocketProvider(
+      () => {
+        const ws = new WebSocket(url);
+        ws.addEventListener('error', fallBack);
+        ws.addEventListener('close', fallBack);
+        return ws;
+      },
+      monadTestnet.id,
+      { staticNetwork: true }
+    );
+    socket.on(filter, (log: Log) => {
+      // Polling picks up from here if the socket drops
+      nextBlock = nextBlock === undefined ? log.blockNumber : Math.max(nextBlock, log.blockNumber);
+      deliver([log]);
+    });
+    // Where polling would start if the socket fails
+    readProvider.getBlockNumber().then(
+      (head) => {
+        nextBlock ??= head + 1;
+      },
+      () => {}
+    );
+    onModeChange?.('websocket');
+  } else {
+    startPolling();
+  }
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    socket?.destroy();
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// DELTAS
+// ═══════════════════════════════════════════════════════════
+
+const NO_DELTA: LiveDelta = { upvotes: 0n, downvotes: 0n, comments: 0n };
+
+/**
+ * Fold an event into per-content deltas (keyed by stakeKey). Returns a new
+ * map, or null when the event doesn't change any content's counts or status.
+ */
+export function applyLiveEvent(deltas: Map<string, LiveDelta>, event: LiveEvent): Map<string, LiveDelta> | null {
+  let key: string;
+  let change: Partial<LiveDelta>;
+  const current = (k: string) => deltas.get(k) ?? NO_DELTA;
+
+  switch (event.eventName) {
+    case 'Voted': {
+      key = stakeKey(event.args.contentId, event.args.isPost);
+      const up = Number(event.args.voteType) === 1;
+      change = up ? { upvotes: current(key).upvotes + 1n } : { downvotes: current(key).downvotes + 1n };
+      break;
+    }
+    case 'VoteChanged': {
+      key = stakeKey(event.args.contentId, event.args.isPost);
+      const shift = Number(event.args.newVote) === 1 ? 1n : -1n;
+      change = { upvotes: current(key).upvotes + shift, downvotes: current(key).downvotes - shift };
+      break;
+    }
+    case 'CommentCreated':
+      key = stakeKey(event.args.postId, true);
+      change = { comments: current(key).comments + 1n };
+      break;
+    case 'ContentStatusChanged':
+      key = stakeKey(event.args.contentId, event.args.isPost);
+      change = { status: Number(event.args.newStatus) };
+      break;
+    default:
+      return null;
+  }
+
+  return new Map(deltas).set(key, { ...current(key), ...change });
+}
+
+/**
+ * Drop the deltas of content that was just read: its loaded values already
+ * include them. Returns the same map when none of the keys were tracked.
+ */
+export function clearLiveDeltas(deltas: Map<string, LiveDelta>, keys: string[]): Map<string, LiveDelta> {
+  if (!keys.some((key) => deltas.has(key))) return deltas;
+  const next = new Map(deltas);
+  for (const key of keys) next.delete(key);
+  return next;
+}
+
+/**
+ * A post or comment with live changes applied on top of its loaded values
+ */
+export function withLiveDelta<T extends LiveFields>(item: T, delta: LiveDelta | undefined): T {
+  if (!delta) return item;
+  return {
+    ...item,
+    score: item.score + delta.upvotes - delta.downvotes,
+    status: delta.status ?? item.status,
+    ...(item.upvotes !== undefined && { upvotes: item.upvotes + delta.upvotes }),
+    ...(item.downvotes !== undefined && { downvotes: item.downvotes + delta.downvotes }),
+    ...(item.commentCount !== undefined && { commentCount: item.commentCount + delta.comments }),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Event Log Utilities for Bread-it
+ *
+ * Public RPCs cap the block range of eth_getLogs, so history is read in
+ * fixed-size chunks starting at the deployment block.
+ */
+
+import { EventLog } from 'ethers';
+import type { Filter, Log, Provider } from 'ethers';
+import { EVENTS_CONFIG } from '@/config/contracts';
+import type { Abi, EventName, TypedContract, TypedEventLog } from '@/types/contracts';
+
+/** A decoded log for any of the given events, discriminated by `eventName` */
+export type AnyEventLog<A extends Abi, Name extends EventName<A>> = {
+  [N in Name]: TypedEventLog<A, N> & { eventName: N };
+}[Name];
+
+interface ChunkOptions {
+  fromBlock?: number;
+  /** Defaults to the latest block */
+  toBlock?: number;
+  chunkSize?: number;
+  /** Chunks requested in parallel */
+  concurrency?: number;
+}
+
+/**
+ * First block event history is read from. Without a configured deployment
+ * block a scan would start at genesis, which a public RPC can't serve in
+ * 100-block chunks, so history reads fail instead.
+ */
+export function deploymentBlock(): number {
+  if (EVENTS_CONFIG.deploymentBlock > 0) return EVENTS_CONFIG.deploymentBlock;
+  throw new Error('Event history is unavailable: NEXT_PUBLIC_DEPLOYMENT_BLOCK is not set');
+}
+
+/**
+ * Fetch logs matching a filter over a block range, one chunk at a time.
+ * Results are ordered by block and log index.
+ */
+export async function getLogsInChunks(
+  provider: Provider,
+  filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+  {
+    fromBlock = deploymentBlock(),
+    toBlock,
+    chunkSize = EVENTS_CONFIG.logChunkSize,
+    concurrency = 4,
+  }: ChunkOptions = {}
+): Promise<Log[]> {
+  const end = toBlock ?? (await provider.getBlockNumber());
+
+  // Ranges are generated per batch, so a long scan holds one batch at a time
+  const logs: Log[] = [];
+  for (let start = fromBlock; start <= end; start += chunkSize * concurrency) {
+    const requests: Promise<Log[]>[] = [];
+    for (let from = start; from <= end && requests.length < concurrency; from += chunkSize) {
+      requests.push(provider.getLogs({ ...filter, fromBlock: from, toBlock: Math.min(from + chunkSize - 1, end) }));
+    }
+    logs.push(...(await Promise.all(requests)).flat());
+  }
+
+  return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+/**
+ * Topic hashes for a set of events, for use as topic0 in a log filter
+ */
+export function eventTopics<A extends Abi>(
+  contract: TypedContract<A>,
+  names: readonly EventName<A>[]
+): string[] {
+  return names.map((name) => contract.interface.getEvent(name)!.topicHash);
+}
+
+/**
+ * Decode raw logs against a contract's ABI, keeping only the given events
+ */
+export function parseEventLogs<A extends Abi, Name extends EventName<A>>(
+  contract: TypedContract<A>,
+  logs: readonly Log[],
+  names: readonly Name[]
+): AnyEventLog<A, Name>[] {
+  const parsed: AnyEventLog<A, Name>[] = [];
+  for (const log of logs) {
+    const fragment = contract.interface.getEvent(log.topics[0]);
+    if (!fragment || !names.includes(fragment.name as Name)) continue;
+    parsed.push(new EventLog(log, contract.interface, fragment) as unknown as AnyEventLog<A, Name>);
+  }
+  return parsed;
+}
@@ -0,0 +1,486 @@
+/**
+ * Moderation Utilities for Bread-it
+ *
+ * Content status labels, report reasons, the action encodings moderators
+ * send, the mod queue and the mod log. Moderation keeps every report and action in one
+ * global sequence with no index by community, so a community's queue and log
+ * are built by reading everything and matching each post or comment to the
+ * community it was posted in. Reports on the same content are grouped.
+ */
+
+import { AbiCoder, dataLength, hexlify, toUtf8Bytes, type Provider } from 'ethers';
+import type { PostData } from '@/components/PostCard';
+import type { CommentData } from '@/components/Comment';
+import type { Moderation, PostManager } from '@/types/contracts';
+import { parseComment, parseModerationAction, parsePost, parseReport } from '@/utils/encoding';
+import { fetchSubredditPostIds, readLogs } from '@/utils/indexer';
+import { eventTopics, parseEventLogs } from '@/utils/logs';
+import { stakeKey } from '@/utils/stakes';
+import { fetchQuery, queryKeys } from '@/store/queryCache';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type ReportData = ReturnType<typeof parseReport>;
+
+export type ModerationActionData = ReturnType<typeof parseModerationAction>;
+
+export interface QueueItem {
+  contentId: bigint;
+  isPost: boolean;
+  /** The reported post, or the post the reported comment is on */
+  post: PostData;
+  comment: CommentData | null;
+  /** Unresolved reports, oldest first */
+  reports: ReportData[];
+  /** Every report ever filed against the content, resolved ones included */
+  totalReports: bigint;
+}
+
+/** PostManager.ContentStatus */
+export const CONTENT_STATUS = {
+  VISIBLE: 0,
+  /** Removed by a moderator */
+  HIDDEN: 1,
+  /** Reached the report threshold; still shown, pending review */
+  FLAGGED: 2,
+} as const;
+
+/** PostManager.ContentStatus, by value */
+export const CONTENT_STATUS_LABELS = ['Visible', 'Hidden', 'Flagged'] as const;
+
+/**
+ * Direct moderator actions (no report): hide, hide and slash the author's
+ * karma, or make hidden or flagged content visible again
+ */
+export type ModeratorAction = 'hide' | 'hideAndSlash' | 'unhide';
+
+/** A status change read from a ContentStatusChanged event */
+export interface StatusChange {
+  oldStatus: number;
+  newStatus: number;
+  reason: string;
+}
+
+/** Why content is being reported; `rule` points into the community's rules */
+export type ReportCategory = 'spam' | 'harassment' | 'offTopic' | 'rule' | 'other';
+
+export interface ReportReason {
+  category: ReportCategory;
+  /** Index into the community's rules, for the 'rule' category */
+  rule?: number;
+  details: string;
+}
+
+/**
+ * uphold: hide the content and slash its author
+ * dismiss: leave the content up
+ * frivolous: leave it up and slash the reporter
+ */
+export type ReportResolution = 'uphold' | 'dismiss' | 'frivolous';
+
+export interface QueueContracts {
+  moderation: Moderation;
+  postManager: PostManager;
+}
+
+/**
+ * What a mod log entry records: a direct moderator action, a report
+ * resolution, or content flagged automatically at the report threshold
+ */
+export type ModLogAction = ModeratorAction | 'slash' | ReportResolution | 'autoFlag' | 'other';
+
+export interface ModLogEntry {
+  /** Unique per entry: the log's transaction hash and index */
+  id: string;
+  action: ModLogAction;
+  /** Null for automatic flags, which aren't recorded as actions */
+  actionId: bigint | null;
+  /** Null for automatic flags */
+  moderator: string | null;
+  contentId: bigint;
+  isPost: boolean;
+  /** The content's post, for linking */
+  postId: bigint;
+  /** The moderator's reason, or for a resolved report the reporter's */
+  reason: string;
+  /** Karma taken in the same transaction (amounts are negative) */
+  karmaSlashed: { user: string; amount: bigint }[];
+  timestamp: bigint;
+  blockNumber: number;
+  txHash: string;
+}
+
+/** Reports read per batch (each batch is one multicall) */
+const REPORT_BATCH_SIZE = 100;
+
+/** Community post ids read per getSubredditPosts call */
+const POST_ID_PAGE_SIZE = 1000;
+
+export const RESOLUTION_VERBS: Record<ReportResolution, string> = {
+  uphold: 'Uphold',
+  dismiss: 'Dismiss',
+  frivolous: 'Reject frivolous',
+};
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment',
+  offTopic: 'Off-topic',
+  rule: 'Breaks a community rule',
+  other: 'Something else',
+};
+
+/**
+ * Shown for communities whose rules are empty on-chain; governance sets a
+ * community's own rules through SubredditDAO.updateRules
+ */
+export const DEFAULT_COMMUNITY_RULES = [
+  'Be respectful to others',
+  'No spam or self-promotion',
+  'Stay on topic',
+  'No illegal content',
+  'Stake responsibly when voting',
+] as const;
+
+export const MOD_LOG_ACTION_LABELS: Record<ModLogAction, string> = {
+  hide: 'Hidden',
+  hideAndSlash: 'Hidden and karma slashed',
+  slash: 'Karma slashed',
+  unhide: 'Unhidden',
+  uphold: 'Report upheld',
+  dismiss: 'Report dismissed',
+  frivolous: 'Report rejected as frivolous',
+  autoFlag: 'Auto-flagged',
+  other: 'Other action',
+};
+
+const MOD_LOG_EVENTS = ['ModerationActionTaken', 'ReportResolved', 'ContentFlagged', 'KarmaSlashed'] as const;
+
+// ═══════════════════════════════════════════════════════════
+// REPORTING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * The text a report is filed with: its category (or rule) first, so the
+ * mod queue reads the same whatever the reporter added, then their details
+ */
+export function formatReportReason(
+  { category, rule, details }: ReportReason,
+  rules: readonly string[]
+): string {
+  const heading =
+    category === 'rule' && rule !== undefined && rules[rule]
+      ? `Rule ${rule + 1}: ${rules[rule]}`
+      : REPORT_CATEGORY_LABELS[category];
+  return details.trim() ? `${heading} — ${details.trim()}` : heading;
+}
+
+/**
+ * Whether a wallet already filed a report on a post or comment. The
+ * contract tracks this but doesn't expose it, so the content's reports are
+ * read instead.
+ */
+export async function fetchHasReported(
+  moderation: Moderation,
+  reporter: string,
+  contentId: bigint,
+  isPost: boolean
+): Promise<boolean> {
+  const reportIds = await moderation.getContentReports(contentId, isPost);
+  const reports = await Promise.all(reportIds.map((id) => moderation.getReport(id)));
+  return reports.some((report) => report.reporter.toLowerCase() === reporter.toLowerCase());
+}
+
+// ═══════════════════════════════════════════════════════════
+// RESOLUTION
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * The `action` bytes resolveReport records. The contract only interprets
+ * "frivolous"; upheld reports are encoded like moderatorAction's
+ * (hide, slashKarma), since that is what upholding does.
+ */
+export function resolutionAction(resolution: ReportResolution): string {
+  switch (resolution) {
+    case 'uphold':
+      return AbiCoder.defaultAbiCoder().encode(['bool', 'bool'], [true, true]);
+    case 'frivolous':
+      return hexlify(toUtf8Bytes('frivolous'));
+    default:
+      return '0x';
+  }
+}
+
+/**
+ * Classify a recorded action from its bytes. Report resolutions are told
+ * apart by the ReportResolved event in the same transaction, since an
+ * upheld report is encoded exactly like a direct hide-and-slash.
+ */
+export function classifyAction(action: string, resolution: { upheld: boolean } | null): ModLogAction {
+  if (resolution) {
+    if (resolution.upheld) return 'uphold';
+    return action === resolutionAction('frivolous') ? 'frivolous' : 'dismiss';
+  }
+
+  const coder = AbiCoder.defaultAbiCoder();
+  if (action === coder.encode(['string'], ['unhide'])) return 'unhide';
+  if (dataLength(action) === 64) {
+    const [hide, slashKarma] = coder.decode(['bool', 'bool'], action);
+    if (hide) return slashKarma ? 'hideAndSlash' : 'hide';
+    if (slashKarma) return 'slash';
+  }
+  return 'other';
+}
+
+/**
+ * Whether content should be kept out of feeds and collapsed where it appears
+ */
+export function isRemoved(status: number): boolean {
+  return status === CONTENT_STATUS.HIDDEN;
+}
+
+// ═══════════════════════════════════════════════════════════
+// FETCHING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Every unresolved report, oldest first
+ */
+async function fetchOpenReports(moderation: Moderation): Promise<ReportData[]> {
+  const count = Number(await moderation.reportCount());
+  const open: ReportData[] = [];
+
+  for (let start = 1; start <= count; start += REPORT_BATCH_SIZE) {
+    const ids = Array.from({ length: Math.min(REPORT_BATCH_SIZE, count - start + 1) }, (_, i) => BigInt(start + i));
+    const reports = await Promise.all(ids.map(async (id) => parseReport(await moderation.getReport(id))));
+    open.push(...reports.filter((report) => !report.resolved));
+  }
+  return open;
+}
+
+/**
+ * Every post id in a community, to match reports to it before reading any
+ * reported content
+ */
+async function fetchCommunityPostIds(
+  provider: Provider,
+  postManager: PostManager,
+  subredditId: bigint
+): Promise<Set<bigint>> {
+  const count = Number(await postManager.getSubredditPostCount(subredditId));
+  const ids: bigint[] = [];
+  for (let offset = 0; offset < count; offset += POST_ID_PAGE_SIZE) {
+    ids.push(...(await fetchSubredditPostIds(postManager, provider, subredditId, offset, POST_ID_PAGE_SIZE)));
+  }
+  return new Set(ids);
+}
+
+const readPost = (postManager: PostManager, id: bigint) =>
+  fetchQuery(queryKeys.post(id), async () => parsePost(await postManager.getPost(id)));
+
+const readComment = (postManager: PostManager, id: bigint) =>
+  fetchQuery(queryKeys.comment(id), async () => parseComment(await postManager.getComment(id)));
+
+/**
+ * A post or comment and the post it belongs to
+ */
+async function fetchContent(
+  postManager: PostManager,
+  contentId: bigint,
+  isPost: boolean
+): Promise<{ post: PostData; comment: CommentData | null }> {
+  if (isPost) return { post: await readPost(postManager, contentId), comment: null };
+  const comment = await readComment(postManager, contentId);
+  return { post: await readPost(postManager, comment.postId), comment };
+}
+
+/**
+ * The most recent action recorded on a post or comment, or null if none
+ */
+export async function fetchLatestAction(
+  moderation: Moderation,
+  contentId: bigint,
+  isPost: boolean
+): Promise<ModerationActionData | null> {
+  const actionIds = await moderation.getContentActions(contentId, isPost);
+  if (actionIds.length === 0) return null;
+  return parseModerationAction(await moderation.getModerationAction(actionIds[actionIds.length - 1]));
+}
+
+/**
+ * A community's open reports grouped by content, most reported first.
+ * Content that fails to load is left out rather than failing the queue.
+ */
+export async function fetchModQueue(
+  provider: Provider,
+  { moderation, postManager }: QueueContracts,
+  subredditId: bigint
+): Promise<QueueItem[]> {
+  const [reports, communityPosts] = await Promise.all([
+    fetchOpenReports(moderation),
+    fetchCommunityPostIds(provider, postManager, subredditId),
+  ]);
+  const groups = new Map<string, ReportData[]>();
+  for (const report of reports) {
+    // Comments are matched by the post they're on, once read below
+    if (report.isPost && !communityPosts.has(report.contentId)) continue;
+    const key = stakeKey(report.contentId, report.isPost);
+    groups.set(key, [...(groups.get(key) ?? []), report]);
+  }
+
+  const results = await Promise.allSettled(
+    [...groups.values()].map(async (reports): Promise<QueueItem | null> => {
+      const { contentId, isPost } = reports[0];
+      const comment = isPost ? null : await readComment(postManager, contentId);
+      const postId = comment ? comment.postId : contentId;
+      if (!communityPosts.has(postId)) return null;
+      const [post, totalReports] = await Promise.all([
+        readPost(postManager, postId),
+        moderation.getReportCount(contentId, isPost),
+      ]);
+      return { contentId, isPost, post, comment, reports, totalReports };
+    })
+  );
+
+  const failures = results.filter((result) => result.status === 'rejected');
+  for (const failure of failures) console.error('Failed to load reported content:', failure.reason);
+  if (failures.length > 0 && failures.length === results.length) throw failures[0].reason;
+
+  return results
+    .flatMap((result) => (result.status === 'fulfilled' && result.value ? [result.value] : []))
+    .sort(
+      (a, b) =>
+        b.reports.length - a.reports.length ||
+        Number(b.reports[b.reports.length - 1].timestamp - a.reports[a.reports.length - 1].timestamp)
+    );
+}
+
+/**
+ * A community's moderation history, newest first: every recorded action on
+ * its content plus automatic flags, with the karma each one slashed
+ */
+export async function fetchModLog(
+  provider: Provider,
+  { moderation, postManager }: QueueContracts,
+  subredditId: bigint
+): Promise<ModLogEntry[]> {
+  const logs = await readLogs(
+    provider,
+    { address: await moderation.getAddress(), topics: [eventTopics(moderation, MOD_LOG_EVENTS)] },
+    { events: MOD_LOG_EVENTS }
+  );
+  const events = parseEventLogs(moderation, logs, MOD_LOG_EVENTS);
+
+  // Resolutions and slashes are tied to their action by transaction
+  const resolutions = new Map<string, { upheld: boolean }>();
+  const slashes = new Map<string, ModLogEntry['karmaSlashed']>();
+  for (const event of events) {
+    if (event.eventName === 'ReportResolved') {
+      resolutions.set(event.transactionHash, { upheld: event.args.upheld });
+    } else if (event.eventName === 'KarmaSlashed') {
+      const { user, amount } = event.args;
+      slashes.set(event.transactionHash, [...(slashes.get(event.transactionHash) ?? []), { user, amount }]);
+    }
+  }
+
+  const entries = await Promise.all(
+    events.map(async (event): Promise<ModLogEntry | null> => {
+      if (event.eventName !== 'ModerationActionTaken' && event.eventName !== 'ContentFlagged') return null;
+
+      const { contentId, isPost } = event.args;
+      const { post } = await fetchContent(postManager, contentId, isPost);
+      if (post.subredditId !== subredditId) return null;
+
+      const base = {
+        id: `${event.transactionHash}:${event.index}`,
+        contentId,
+        isPost,
+        postId: post.id,
+        karmaSlashed: slashes.get(event.transactionHash) ?? [],
+        timestamp: event.args.timestamp,
+        blockNumber: event.blockNumber,
+        txHash: event.transactionHash,
+      };
+
+      if (event.eventName === 'ContentFlagged') {
+        return {
+          ...base,
+          action: 'autoFlag',
+          actionId: null,
+          moderator: null,
+          reason: `Reached ${event.args.reportCount} reports`,
+        };
+      }
+
+      const record = parseModerationAction(await moderation.getModerationAction(event.args.actionId));
+      return {
+        ...base,
+        action: classifyAction(record.action, resolutions.get(event.transactionHash) ?? null),
+        actionId: record.id,
+        moderator: record.moderator,
+        reason: record.reason,
+      };
+    })
+  );
+
+  return entries.filter((entry): entry is ModLogEntry => entry !== null).reverse();
+}
+
+// ═══════════════════════════════════════════════════════════
+// EXPORT
+// ═══════════════════════════════════════════════════════════
+
+/** Columns of an exported mod log, in order */
+const MOD_LOG_COLUMNS = [
+  'time',
+  'action',
+  'actionId',
+  'moderator',
+  'contentType',
+  'contentId',
+  'postId',
+  'reason',
+  'karmaSlashed',
+  'txHash',
+] as const;
+
+type ModLogRecord = Record<(typeof MOD_LOG_COLUMNS)[number], string | null>;
+
+/**
+ * An entry as plain strings (ISO time, decimal integers), for export
+ */
+function toRecord(entry: ModLogEntry): ModLogRecord {
+  return {
+    time: new Date(Number(entry.timestamp) * 1000).toISOString(),
+    action: entry.action,
+    actionId: entry.actionId?.toString() ?? null,
+    moderator: entry.moderator,
+    contentType: entry.isPost ? 'post' : 'comment',
+    contentId: entry.contentId.toString(),
+    postId: entry.postId.toString(),
+    reason: entry.reason,
+    karmaSlashed: entry.karmaSlashed.map(({ user, amount }) => `${user}:${amount}`).join(' '),
+    txHash: entry.txHash,
+  };
+}
+
+export function modLogToJson(entries: ModLogEntry[]): string {
+  return JSON.stringify(entries.map(toRecord), null, 2);
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function modLogToCsv(entries: ModLogEntry[]): string {
+  const escape = (value: string | null) => {
+    if (value === null) return '';
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const rows = entries.map((entry) => {
+    const record = toRecord(entry);
+    return MOD_LOG_COLUMNS.map((column) => escape(record[column])).join(',');
+  });
+  return [MOD_LOG_COLUMNS.join(','), ...rows].join('\r\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * Multicall Utilities for Bread-it
+ *
+ * A ContractRunner that coalesces every read issued in the same tick into a
+ * single Multicall3 `aggregate3` eth_call. Contracts built on top of it keep
+ * their normal API, so hooks batch their reads without any changes. Each
+ * call is allowed to fail on its own and rejects with a regular
+ * CALL_EXCEPTION, so custom errors still decode as usual.
+ */
+
+import { Interface, makeError, type ContractRunner, type TransactionRequest } from 'ethers';
+import { CONTRACT_ADDRESSES } from '@/config/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+interface PendingCall {
+  tx: TransactionRequest;
+  target: string;
+  callData: string;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+interface BatchingOptions {
+  /** Multicall3 address (defaults to CONTRACT_ADDRESSES.Multicall3) */
+  multicallAddress?: string;
+  /** Maximum calls per aggregate3 request */
+  maxBatchSize?: number;
+}
+
+// ═══════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+const multicallInterface = new Interface(MULTICALL3_ABI);
+
+/** Keeps a single eth_call well under typical RPC gas and payload limits */
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// ═══════════════════════════════════════════════════════════
+// RUNNER
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * A plain read that can safely be folded into aggregate3. Calls pinned to a
+ * block, sent from a specific account or carrying value go out on their own.
+ */
+function isBatchable(tx: TransactionRequest): tx is TransactionRequest & { to: string; data: string } {
+  return (
+    typeof tx.to === 'string' &&
+    typeof tx.data === 'string' &&
+    tx.blockTag == null &&
+    tx.from == null &&
+    !tx.value
+  );
+}
+
+/**
+ * Wrap a signer or provider so that reads are batched through Multicall3.
+ * Writes, gas estimation and name resolution pass straight through.
+ */
+export function createBatchingRunner(
+  base: ContractRunner,
+  { multicallAddress = CONTRACT_ADDRESSES.Multicall3, maxBatchSize = DEFAULT_MAX_BATCH_SIZE }: BatchingOptions = {}
+): ContractRunner {
+  const provider = base.provider;
+  if (!provider) throw new Error('Batching runner requires a provider');
+
+  let queue: PendingCall[] = [];
+  let scheduled = false;
+  // Resolved once: whether Multicall3 is deployed on the connected chain
+  let supported: Promise<boolean> | null = null;
+
+  const callDirect = (tx: TransactionRequest): Promise<string> =>
+    base.call ? base.call(tx) : provider.call(tx);
+
+  const isSupported = (): Promise<boolean> => {
+    if (!supported) {
+      supported = provider
+        .getCode(multicallAddress)
+        .then((code) => code !== '0x')
+        .catch(() => false);
+    }
+    return supported;
+  };
+
+  const runIndividually = (calls: PendingCall[]) => {
+    calls.forEach((c) => callDirect(c.tx).then(c.resolve, c.reject));
+  };
+
+  const runBatch = async (calls: PendingCall[]) => {
+    if (calls.length === 1) {
+      runIndividually(calls);
+      return;
+    }
+
+    let results: { success: boolean; returnData: string }[];
+    try {
+      const data = multicallInterface.encodeFunctionData('aggregate3', [
+        calls.map((c) => [c.target, true, c.callData]),
+      ]);
+      const raw = await provider.call({ to: multicallAddress, data });
+      [results] = multicallInterface.decodeFunctionResult('aggregate3', raw);
+    } catch (err) {
+      // The aggregate itself failed (RPC limits, gas cap...) - don't let
+      // that take down every read in the batch
+      console.error('Multicall batch failed, retrying calls individually:', err);
+      runIndividually(calls);
+      return;
+    }
+
+    calls.forEach((c, i) => {
+      const { success, returnData } = results[i];
+      if (success) {
+        c.resolve(returnData);
+      } else {
+        c.reject(
+          makeError('execution reverted', 'CALL_EXCEPTION', {
+            action: 'call',
+            data: returnData,
+            reason: null,
+            transaction: { to: c.target, data: c.callData },
+            invocation: null,
+            revert: null,
+          })
+        );
+      }
+    });
+  };
+
+  const flush = async () => {
+    const calls = queue;
+    queue = [];
+    scheduled = false;
+
+    if (!(await isSupported())) {
+      runIndividually(calls);
+      return;
+    }
+
+    for (let i = 0; i < calls.length; i += maxBatchSize) {
+      runBatch(calls.slice(i, i + maxBatchSize));
+    }
+  };
+
+  const call = (tx: TransactionRequest): Promise<string> => {
+    if (!isBatchable(tx)) return callDirect(tx);
+
+    return new Promise((resolve, reject) => {
+      queue.push({ tx, target: tx.to, callData: tx.data, resolve, reject });
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(flush, 0);
+      }
+    });
+  };
+
+  const runner: ContractRunner = {
+    provider,
+    call,
+    estimateGas: (tx) => (base.estimateGas ? base.estimateGas(tx) : provider.estimateGas(tx)),
+    resolveName: (name) => (base.resolveName ? base.resolveName(name) : provider.resolveName(name)),
+  };
+
+  // Only signers can write; keep read-only runners read-only
+  if (base.sendTransaction) {
+    runner.sendTransaction = (tx) => base.sendTransaction!(tx);
+  }
+
+  return runner;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { hotScore, oldestRankable, rankContent, type Rankable } from '@/utils/ranking';
+
+const NOW = 1_700_000_000;
+const HOUR = 60 * 60;
+
+interface Item extends Rankable {
+  id: string;
+}
+
+function item(id: string, score: number, ageSeconds: number): Item {
+  return { id, score: BigInt(score), createdAt: BigInt(NOW - ageSeconds) };
+}
+
+function ids(items: Item[]): string[] {
+  return items.map((entry) => entry.id);
+}
+
+describe('hotScore', () => {
+  it('grows with score and with recency', () => {
+    expect(hotScore(item('a', 100, HOUR))).toBeGreaterThan(hotScore(item('b', 10, HOUR)));
+    expect(hotScore(item('a', 10, 0))).toBeGreaterThan(hotScore(item('b', 10, HOUR)));
+  });
+
+  it('ranks negative scores below zero at the same age', () => {
+    expect(hotScore(item('a', -10, HOUR))).toBeLessThan(hotScore(item('b', 0, HOUR)));
+  });
+
+  it('takes net votes from the up/down counts when present', () => {
+    const counted = { ...item('a', 0, HOUR), upvotes: 120n, downvotes: 20n };
+    expect(hotScore(counted)).toBe(hotScore(item('b', 100, HOUR)));
+    expect(hotScore({ ...item('c', 100, HOUR), upvotes: 5n, downvotes: 15n })).toBeLessThan(
+      hotScore(item('d', 0, HOUR))
+    );
+  });
+});
+
+describe('rankContent', () => {
+  it('orders "new" by creation time, newest first', () => {
+    const items = [item('old', 50, 3 * HOUR), item('newest', 0, 0), item('middle', -5, HOUR)];
+    expect(ids(rankContent(items, 'new', { now: NOW }))).toEqual(['newest', 'middle', 'old']);
+  });
+
+  it('orders "top" by score', () => {
+    const items = [item('low', 1, HOUR), item('high', 20, 2 * HOUR), item('mid', 5, 0)];
+    expect(ids(rankContent(items, 'top', { now: NOW }))).toEqual(['high', 'mid', 'low']);
+  });
+
+  it('limits "top" to the chosen window', () => {
+    const items = [item('today', 5, HOUR), item('lastWeek', 50, 3 * 24 * HOUR)];
+    expect(ids(rankContent(items, 'top', { window: 'day', now: NOW }))).toEqual(['today']);
+  });
+
+  it('lets a fresh post outrank an older, higher-scored one in "hot"', () => {
+    const items = [item('yesterday', 10, 24 * HOUR), item('fresh', 5, 0)];
+    expect(ids(rankContent(items, 'hot', { now: NOW }))).toEqual(['fresh', 'yesterday']);
+  });
+
+  it('orders "hot" by score among posts of the same age', () => {
+    const items = [item('low', 2, HOUR), item('high', 200, HOUR), item('mid', 20, HOUR)];
+    expect(ids(rankContent(items, 'hot', { now: NOW }))).toEqual(['high', 'mid', 'low']);
+  });
+
+  it('breaks ties by newest first', () => {
+    const items = [item('older', 5, 2 * HOUR), item('newer', 5, HOUR)];
+    expect(ids(rankContent(items, 'top', { now: NOW }))).toEqual(['newer', 'older']);
+  });
+
+  it('treats scores of 0 and 1 as equally hot', () => {
+    // Both have zero orders of magnitude, so neither moves ahead
+    const items = [item('zero', 0, HOUR), item('one', 1, HOUR)];
+    expect(hotScore(items[0])).toBe(hotScore(items[1]));
+    expect(ids(rankContent(items, 'hot', { now: NOW }))).toEqual(['zero', 'one']);
+  });
+
+  it('keeps input order for identical items', () => {
+    const items = [item('first', 3, HOUR), item('second', 3, HOUR)];
+    expect(ids(rankContent(items, 'top', { now: NOW }))).toEqual(['first', 'second']);
+    expect(ids(rankContent(items, 'hot', { now: NOW }))).toEqual(['first', 'second']);
+    expect(ids(rankContent(items, 'new', { now: NOW }))).toEqual(['first', 'second']);
+  });
+
+  it('splits open and archived content', () => {
+    const items = [item('open', 1, HOUR), item('archived', 1, 365 * 24 * HOUR)];
+    expect(ids(rankContent(items, 'new', { archive: 'open', now: NOW }))).toEqual(['open']);
+    expect(ids(rankContent(items, 'new', { archive: 'archived', now: NOW }))).toEqual(['archived']);
+  });
+
+  it('does not mutate its input', () => {
+    const items = [item('a', 1, HOUR), item('b', 2, 0)];
+    rankContent(items, 'top', { now: NOW });
+    expect(ids(items)).toEqual(['a', 'b']);
+  });
+});
+
+describe('oldestRankable', () => {
+  it('has no bound for "new", "hot" or an all-time window', () => {
+    expect(oldestRankable('new', { now: NOW })).toBe(-Infinity);
+    expect(oldestRankable('hot', { window: 'day', now: NOW })).toBe(-Infinity);
+    expect(oldestRankable('top', { window: 'all', now: NOW })).toBe(-Infinity);
+  });
+
+  it('stops at the start of the "top" window', () => {
+    expect(oldestRankable('top', { window: 'day', now: NOW })).toBe(NOW - 24 * HOUR);
+  });
+
+  it('stops where open content ends', () => {
+    const items = [item('open', 1, HOUR), item('archived', 1, 365 * 24 * HOUR)];
+    const oldest = oldestRankable('new', { archive: 'open', now: NOW });
+    expect(ids(items.filter((entry) => Number(entry.createdAt) >= oldest))).toEqual(
+      ids(rankContent(items, 'new', { archive: 'open', now: NOW }))
+    );
+  });
+});
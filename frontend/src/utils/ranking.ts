@@ -0,0 +1,175 @@
+/**
+ * Ranking Utilities for Bread-it
+ *
+ * Pure sorting functions shared by every feed so that hot / new / top /
+ * controversial ordering is identical everywhere. Nothing in this module
+ * touches the chain, so it can be exercised with plain objects.
+ */
+
+import { isArchived, votingClosesAt } from '@/utils/time';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export type SortOption = 'hot' | 'new' | 'top' | 'controversial';
+
+export type TopWindow = 'hour' | 'day' | 'week' | 'month' | 'all';
+
+/** Whether to show content that is still open for voting, archived, or both */
+export type ArchiveFilter = 'all' | 'open' | 'archived';
+
+/** Anything with a score and a creation time can be ranked */
+export interface Rankable {
+  score: bigint;
+  createdAt: bigint;
+  upvotes?: bigint;
+  downvotes?: bigint;
+}
+
+export interface RankOptions {
+  /** Time window applied to "top" and "controversial" */
+  window?: TopWindow;
+  archive?: ArchiveFilter;
+  /** Current unix time in seconds (defaults to now) */
+  now?: number;
+}
+
+// ═══════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════
+
+export const SORT_OPTIONS: SortOption[] = ['hot', 'new', 'top', 'controversial'];
+
+export const ARCHIVE_FILTERS: ArchiveFilter[] = ['all', 'open', 'archived'];
+
+export const TOP_WINDOWS: Record<TopWindow, number> = {
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60,
+  all: Infinity,
+};
+
+/** Reddit's epoch for hot ranking (Dec 8 2005) */
+const HOT_EPOCH = 1134028003;
+
+/** Seconds of age that are worth one order of magnitude of score (12.5h) */
+const HOT_DECAY = 45000;
+
+// ═══════════════════════════════════════════════════════════
+// SCORES
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Reddit-style hot score: log-scaled net votes plus a time bonus. Net votes
+ * come from the up/down counts when the item has them, else from `score`.
+ */
+export function hotScore(item: Rankable): number {
+  const net =
+    item.upvotes !== undefined && item.downvotes !== undefined
+      ? Number(item.upvotes - item.downvotes)
+      : Number(item.score);
+  const order = Math.log10(Math.max(Math.abs(net), 1));
+  const sign = net > 0 ? 1 : net < 0 ? -1 : 0;
+  const seconds = Number(item.createdAt) - HOT_EPOCH;
+  return Math.round((sign * order + seconds / HOT_DECAY) * 1e7) / 1e7;
+}
+
+/**
+ * Controversy score: high when many votes are split evenly
+ */
+export function controversyScore(item: Rankable): number {
+  const ups = Number(item.upvotes ?? 0n);
+  const downs = Number(item.downvotes ?? 0n);
+  if (ups <= 0 || downs <= 0) return 0;
+
+  const magnitude = ups + downs;
+  const balance = ups > downs ? downs / ups : ups / downs;
+  return Math.pow(magnitude, balance);
+}
+
+/**
+ * Confidence ("best") score: lower bound of the Wilson interval on the
+ * upvote ratio, so a few unanimous votes don't beat many mostly-positive ones
+ */
+export function confidenceScore(item: Rankable): number {
+  const ups = Number(item.upvotes ?? 0n);
+  const downs = Number(item.downvotes ?? 0n);
+  const n = ups + downs;
+  if (n === 0) return 0;
+
+  const z = 1.281551565545; // 80% confidence
+  const p = ups / n;
+  const left = p + (z * z) / (2 * n);
+  const right = z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n));
+  return (left - right) / (1 + (z * z) / n);
+}
+
+/**
+ * Check whether an item matches the archive filter
+ */
+export function matchesArchiveFilter(item: Rankable, filter: ArchiveFilter, now: number): boolean {
+  if (filter === 'all') return true;
+  return isArchived(item.createdAt, now) === (filter === 'archived');
+}
+
+/**
+ * Check whether an item falls inside a top/controversial time window
+ */
+export function isWithinWindow(item: Rankable, window: TopWindow, now: number): boolean {
+  return now - Number(item.createdAt) <= TOP_WINDOWS[window];
+}
+
+// ═══════════════════════════════════════════════════════════
+// RANKING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Creation time before which nothing can pass the sort's time window or the
+ * archive filter (-Infinity when anything can), so paging can stop there
+ */
+export function oldestRankable(
+  sortBy: SortOption,
+  { window = 'all', archive = 'all', now = Math.floor(Date.now() / 1000) }: RankOptions = {}
+): number {
+  let oldest = -Infinity;
+  if (sortBy === 'top' || sortBy === 'controversial') oldest = now - TOP_WINDOWS[window];
+  // Open content was created within one voting window of now
+  if (archive === 'open') oldest = Math.max(oldest, now - votingClosesAt(0));
+  return oldest;
+}
+
+function byNewest(a: Rankable, b: Rankable): number {
+  return Number(b.createdAt - a.createdAt);
+}
+
+/**
+ * Return a new array sorted according to the chosen option
+ */
+export function rankContent<T extends Rankable>(
+  items: T[],
+  sortBy: SortOption,
+  { window = 'all', archive = 'all', now = Math.floor(Date.now() / 1000) }: RankOptions = {}
+): T[] {
+  const candidates = items.filter((item) => matchesArchiveFilter(item, archive, now));
+
+  switch (sortBy) {
+    case 'new':
+      return candidates.sort(byNewest);
+
+    case 'top':
+      return candidates
+        .filter((item) => isWithinWindow(item, window, now))
+        .sort((a, b) => Number(b.score - a.score) || byNewest(a, b));
+
+    case 'controversial':
+      return candidates
+        .filter((item) => isWithinWindow(item, window, now))
+        .sort((a, b) => controversyScore(b) - controversyScore(a) || byNewest(a, b));
+
+    case 'hot':
+    default:
+      return candidates.sort((a, b) => hotScore(b) - hotScore(a) || byNewest(a, b));
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Stake Utilities for Bread-it
+ *
+ * Rebuilds a wallet's voting stakes from Voting events. The contract only
+ * exposes the current stake and lock start through getVote, so whether a
+ * stake was withdrawn or slashed is recovered from StakeWithdrawn and
+ * StakeSlashed logs. Also holds the stake rules votes are checked against
+ * before they are sent.
+ */
+
+import { parseEther, zeroPadValue, type Provider } from 'ethers';
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+import { eventTopics, parseEventLogs, type AnyEventLog } from '@/utils/logs';
+import { readLogs } from '@/utils/indexer';
+import type { VotingABI } from '@/config/abis';
+import type { Vote, Voting } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export const STAKE_EVENTS = ['Voted', 'VoteChanged', 'StakeWithdrawn', 'StakeSlashed'] as const;
+
+export type StakeEventLog = AnyEventLog<typeof VotingABI, (typeof STAKE_EVENTS)[number]>;
+
+export type StakeStatus = 'locked' | 'withdrawable' | 'withdrawn' | 'slashed';
+
+export interface StakePosition {
+  contentId: bigint;
+  isPost: boolean;
+  /** 1 = upvote, 2 = downvote */
+  voteType: number;
+  /** Stake recorded by the contract (kept as-is after a withdrawal) */
+  stake: bigint;
+  /** Lock start; changing a vote restarts the lock */
+  votedAt: number;
+  unlockTime: number;
+  withdrawnAmount: bigint;
+  slashedAmount: bigint;
+  slashReason: string | null;
+}
+
+export interface StakeTotals {
+  locked: bigint;
+  withdrawable: bigint;
+  withdrawn: bigint;
+  slashed: bigint;
+}
+
+const LOCK_SECONDS = PROTOCOL_CONSTANTS.STAKE_LOCK_HOURS * 3600;
+
+/** Preset stakes offered by the vote popover, as multiples of the minimum */
+const PRESET_MULTIPLIERS = [1n, 2n, 5n, 10n];
+
+// ═══════════════════════════════════════════════════════════
+// VOTING RULES
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Smallest stake the contract accepts for a vote direction
+ */
+export function minStake(voteType: 1 | 2): bigint {
+  return parseEther(
+    voteType === 1 ? PROTOCOL_CONSTANTS.MIN_UPVOTE_STAKE : PROTOCOL_CONSTANTS.MIN_DOWNVOTE_STAKE
+  );
+}
+
+export function stakePresets(voteType: 1 | 2): bigint[] {
+  const min = minStake(voteType);
+  return PRESET_MULTIPLIERS.map((multiplier) => min * multiplier);
+}
+
+/**
+ * Part of a stake lost if a moderator slashes it
+ */
+export function slashAmount(stake: bigint): bigint {
+  return (stake * BigInt(PROTOCOL_CONSTANTS.STAKE_SLASH_PERCENTAGE)) / 100n;
+}
+
+// ═══════════════════════════════════════════════════════════
+// RECONSTRUCTION
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Read a voter's stake events in chain order. All four events index the
+ * voter as their second topic, so one filter covers them.
+ */
+export async function fetchStakeEvents(
+  provider: Provider,
+  voting: Voting,
+  voter: string,
+  range: { fromBlock?: number; toBlock?: number } = {}
+): Promise<StakeEventLog[]> {
+  const logs = await readLogs(
+    provider,
+    {
+      address: await voting.getAddress(),
+      topics: [eventTopics(voting, STAKE_EVENTS), null, zeroPadValue(voter, 32)],
+    },
+    { events: STAKE_EVENTS, where: { voter } },
+    range
+  );
+  return parseEventLogs(voting, logs, STAKE_EVENTS);
+}
+
+/**
+ * Key for a vote, matching the contract's (contentId, isPost) mapping
+ */
+export function stakeKey(contentId: bigint, isPost: boolean): string {
+  return `${isPost ? 'p' : 'c'}:${contentId}`;
+}
+
+/**
+ * Distinct (contentId, isPost) pairs the wallet has voted on, oldest first
+ */
+export function votedContent(events: StakeEventLog[]): { contentId: bigint; isPost: boolean }[] {
+  const seen = new Map<string, { contentId: bigint; isPost: boolean }>();
+  for (const event of events) {
+    if (event.eventName !== 'Voted') continue;
+    const { contentId, isPost } = event.args;
+    seen.set(stakeKey(contentId, isPost), { contentId, isPost });
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Combine the wallet's events (in chain order) with the current on-chain
+ * votes keyed by stakeKey. Vote direction comes from Voted/VoteChanged; the
+ * stake and lock start come from getVote when available, since a vote change
+ * tops up the stake and restarts the lock without logging either.
+ */
+export function buildStakePositions(
+  events: StakeEventLog[],
+  votes: Map<string, Vote>
+): StakePosition[] {
+  const positions = new Map<string, StakePosition>();
+
+  for (const event of events) {
+    const key = stakeKey(event.args.contentId, event.args.isPost);
+
+    if (event.eventName === 'Voted') {
+      const votedAt = Number(event.args.timestamp);
+      positions.set(key, {
+        contentId: event.args.contentId,
+        isPost: event.args.isPost,
+        voteType: Number(event.args.voteType),
+        stake: event.args.stake,
+        votedAt,
+        unlockTime: votedAt + LOCK_SECONDS,
+        withdrawnAmount: 0n,
+        slashedAmount: 0n,
+        slashReason: null,
+      });
+      continue;
+    }
+
+    const position = positions.get(key);
+    if (!position) continue;
+
+    if (event.eventName === 'VoteChanged') {
+      position.voteType = Number(event.args.newVote);
+    } else if (event.eventName === 'StakeWithdrawn') {
+      position.withdrawnAmount += event.args.amount;
+    } else {
+      position.slashedAmount += event.args.amount;
+      position.slashReason = event.args.reason;
+    }
+  }
+
+  for (const [key, position] of positions) {
+    const vote = votes.get(key);
+    if (!vote) continue;
+    position.stake = vote.stake;
+    position.votedAt = Number(vote.timestamp);
+    position.unlockTime = position.votedAt + LOCK_SECONDS;
+  }
+
+  return [...positions.values()];
+}
+
+/**
+ * Where a stake stands at `now`
+ */
+export function stakeStatus(position: StakePosition, now: number): StakeStatus {
+  if (position.slashedAmount > 0n) return 'slashed';
+  if (position.withdrawnAmount > 0n) return 'withdrawn';
+  return now < position.unlockTime ? 'locked' : 'withdrawable';
+}
+
+/**
+ * Amounts per status. A slashed stake's remainder stays in the contract and
+ * counts towards `slashed`, since it can no longer be withdrawn.
+ */
+export function summarizeStakes(positions: StakePosition[], now: number): StakeTotals {
+  const totals: StakeTotals = { locked: 0n, withdrawable: 0n, withdrawn: 0n, slashed: 0n };
+  for (const position of positions) {
+    const status = stakeStatus(position, now);
+    if (status === 'withdrawn') totals.withdrawn += position.withdrawnAmount;
+    else if (status === 'slashed') totals.slashed += position.slashedAmount + position.stake;
+    else totals[status] += position.stake;
+  }
+  return totals;
+}
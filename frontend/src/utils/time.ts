@@ -0,0 +1,61 @@
+/**
+ * Time Utilities for Bread-it
+ *
+ * Helpers for the countdowns shown for cooldowns, stake locks and voting
+ * windows. All inputs are unix seconds, matching block timestamps.
+ */
+
+import { PROTOCOL_CONSTANTS } from '@/config/contracts';
+
+const MAX_VOTING_AGE_SECONDS = PROTOCOL_CONSTANTS.MAX_VOTING_AGE_DAYS * 86400;
+
+/**
+ * Current unix time in seconds
+ */
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Compact duration, two most significant units: "4m 12s", "3h 5m", "2d 4h"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const units: [string, number][] = [
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+  ];
+
+  const parts: string[] = [];
+  let rest = total;
+  for (const [label, size] of units) {
+    const value = Math.floor(rest / size);
+    rest -= value * size;
+    if (value > 0 || (parts.length > 0 && parts.length < 2)) parts.push(`${value}${label}`);
+    if (parts.length === 2) break;
+  }
+  return parts.length > 0 ? parts.join(' ') : '0s';
+}
+
+/**
+ * Seconds left until a unix timestamp (never negative)
+ */
+export function secondsUntil(timestamp: number | bigint): number {
+  return Math.max(0, Number(timestamp) - nowSeconds());
+}
+
+/**
+ * Last moment content created at `createdAt` accepts votes
+ */
+export function votingClosesAt(createdAt: number | bigint): number {
+  return Number(createdAt) + MAX_VOTING_AGE_SECONDS;
+}
+
+/**
+ * Content past its voting window is archived: shown, but no longer votable
+ */
+export function isArchived(createdAt: number | bigint, now: number): boolean {
+  return now > votingClosesAt(createdAt);
+}
@@ -0,0 +1,102 @@
+/**
+ * Vote Analytics Utilities for Bread-it
+ *
+ * Rebuilds how the votes on one piece of content evolved from its Voted and
+ * VoteChanged logs. Pure functions: logs, block times and current votes are
+ * fetched by the caller.
+ */
+
+import type { AnyEventLog } from '@/utils/logs';
+import type { VotingABI } from '@/config/abis';
+import type { Vote } from '@/types/contracts';
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export const VOTE_HISTORY_EVENTS = ['Voted', 'VoteChanged'] as const;
+
+export type VoteHistoryLog = AnyEventLog<typeof VotingABI, (typeof VOTE_HISTORY_EVENTS)[number]>;
+
+/** Running vote totals right after an event */
+export interface VoteTimelinePoint {
+  /** Unix seconds */
+  time: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface StakeBySide {
+  upvoteStake: bigint;
+  downvoteStake: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════
+// TIMELINE
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Block numbers whose timestamps aren't carried by the events themselves
+ */
+export function blocksNeedingTimestamps(events: VoteHistoryLog[]): number[] {
+  const blocks = new Set<number>();
+  for (const event of events) {
+    if (event.eventName === 'VoteChanged') blocks.add(event.blockNumber);
+  }
+  return [...blocks];
+}
+
+/**
+ * Cumulative up/down counts after each event (events in chain order).
+ * `blockTimes` maps block numbers to timestamps for VoteChanged events.
+ */
+export function buildVoteTimeline(
+  events: VoteHistoryLog[],
+  blockTimes: Map<number, number>
+): VoteTimelinePoint[] {
+  let upvotes = 0;
+  let downvotes = 0;
+  const points: VoteTimelinePoint[] = [];
+
+  for (const event of events) {
+    let time: number;
+    if (event.eventName === 'Voted') {
+      time = Number(event.args.timestamp);
+      if (Number(event.args.voteType) === 1) upvotes++;
+      else downvotes++;
+    } else {
+      const from = Number(event.args.oldVote);
+      time = blockTimes.get(event.blockNumber) ?? points.at(-1)?.time ?? 0;
+      upvotes += from === 1 ? -1 : 1;
+      downvotes += from === 1 ? 1 : -1;
+    }
+    points.push({ time, upvotes, downvotes });
+  }
+
+  return points;
+}
+
+// ═══════════════════════════════════════════════════════════
+// STAKES
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Distinct voters, in the order they first voted
+ */
+export function votersOf(events: VoteHistoryLog[]): string[] {
+  return [...new Set(events.map((event) => event.args.voter))];
+}
+
+/**
+ * Total stake committed on each side, by each voter's current direction.
+ * Stakes count even after they are withdrawn; slashed stakes count what
+ * remains.
+ */
+export function stakeBySide(votes: Vote[]): StakeBySide {
+  const totals: StakeBySide = { upvoteStake: 0n, downvoteStake: 0n };
+  for (const vote of votes) {
+    if (Number(vote.voteType) === 1) totals.upvoteStake += vote.stake;
+    else if (Number(vote.voteType) === 2) totals.downvoteStake += vote.stake;
+  }
+  return totals;
+}
@@ -0,0 +1,32 @@
+/**
+ * Indexer Configuration for Bread-it
+ *
+ * Read from the environment (and a .env file next to package.json, if
+ * present). Defaults match the Monad Testnet deployment the frontend uses.
+ */
+
+import { existsSync } from 'node:fs';
+
+if (existsSync('.env')) process.loadEnvFile('.env');
+
+export const config = {
+  rpcUrl: process.env.RPC_URL || 'https://testnet-rpc.monad.xyz',
+  contracts: {
+    UserRegistry: process.env.CONTRACT_USER_REGISTRY || '0x0BDC19C476823ee9EE3F66f2B619eB3eC7279BD1',
+    SubredditDAO: process.env.CONTRACT_SUBREDDIT_DAO || '0xbD3a1C6935064cC5063d4478dB63476695E39fAa',
+    PostManager: process.env.CONTRACT_POST_MANAGER || '0x2D656a86216b3494e857BeE505Ff5e7FDa408333',
+    Voting: process.env.CONTRACT_VOTING || '0xc164429D339d93f71c8d697834102441e3B8F8aC',
+    Governance: process.env.CONTRACT_GOVERNANCE || '0x1945C6e4D739ECA4c6E2AF93a2F8322BA018519E',
+    Moderation: process.env.CONTRACT_MODERATION || '0x1BDe6578757a8F1861FD3211776810a2052DD79f',
+  },
+  // Block the protocol was deployed at; indexing never starts earlier
+  deploymentBlock: Number(process.env.DEPLOYMENT_BLOCK) || 0,
+  // Maximum block range per eth_getLogs request
+  logChunkSize: Number(process.env.LOG_CHUNK_SIZE) || 100,
+  // Recent blocks re-read on every sync, in case they were reorged
+  reorgDepth: Number(process.env.REORG_DEPTH) || 32,
+  pollIntervalMs: Number(process.env.POLL_INTERVAL_MS) || 5000,
+  databasePath: process.env.DATABASE_PATH || './bread-it.sqlite',
+  port: Number(process.env.PORT) || 4000,
+  corsOrigin: process.env.CORS_ORIGIN || '*',
+} as const;
@@ -0,0 +1,221 @@
+/**
+ * SQLite Storage for the Bread-it Indexer
+ *
+ * Every indexed event is one row in `events`, keyed by its position in the
+ * chain; everything the API serves is derived from those rows at read time,
+ * so replacing a reorged block range is just a delete and an insert. The
+ * only other state is post and comment text (not carried by any event),
+ * fetched once per item into the *_content tables.
+ */
+
+import Database from 'better-sqlite3';
+import { config } from './config';
+import { ADDRESSES, TOPICS, type DecodedEvent } from './sources';
+
+export type Db = Database.Database;
+
+export interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_time: number;
+  tx_hash: string;
+  name: string;
+  /** JSON-encoded EventArgs */
+  args: string;
+}
+
+export interface StoredEvent extends DecodedEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockTime: number;
+  txHash: string;
+}
+
+/** Changes whenever the indexed contracts do, invalidating stored events */
+const FINGERPRINT = JSON.stringify([config.rpcUrl, config.deploymentBlock, ADDRESSES, TOPICS]);
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_time INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (name, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_post ON events (name, json_extract(args, '$.postId'));
+  CREATE INDEX IF NOT EXISTS events_by_comment ON events (name, json_extract(args, '$.commentId'));
+  CREATE INDEX IF NOT EXISTS events_by_parent ON events (name, json_extract(args, '$.parentId'));
+  CREATE INDEX IF NOT EXISTS events_by_content ON events (name, json_extract(args, '$.contentId'));
+  CREATE INDEX IF NOT EXISTS events_by_subreddit ON events (name, json_extract(args, '$.subredditId'));
+  CREATE INDEX IF NOT EXISTS events_by_proposal ON events (name, json_extract(args, '$.proposalId'));
+  CREATE INDEX IF NOT EXISTS events_by_author ON events (name, json_extract(args, '$.author'));
+  CREATE INDEX IF NOT EXISTS events_by_wallet ON events (name, json_extract(args, '$.wallet'));
+
+  CREATE TABLE IF NOT EXISTS post_content (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    ipfs_cid TEXT NOT NULL,
+    mime_type TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS comment_content (
+    id TEXT PRIMARY KEY,
+    content TEXT NOT NULL
+  );
+`;
+
+// ═══════════════════════════════════════════════════════════
+// SETUP
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Open the database, creating the schema and dropping stored events that
+ * belong to a different deployment
+ */
+export function openDb(path: string = config.databasePath): Db {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const stored = db.prepare('SELECT value FROM meta WHERE key = ?').get('fingerprint') as { value: string } | undefined;
+  if (stored?.value !== FINGERPRINT) {
+    db.transaction(() => {
+      db.exec('DELETE FROM events; DELETE FROM post_content; DELETE FROM comment_content; DELETE FROM meta;');
+      db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)').run('fingerprint', FINGERPRINT);
+    })();
+  }
+  return db;
+}
+
+// ═══════════════════════════════════════════════════════════
+// CURSOR
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Last block whose events are all stored, or null before the first sync
+ */
+export function getLastBlock(db: Db): number | null {
+  const row = db.prepare('SELECT value FROM meta WHERE key = ?').get('lastBlock') as { value: string } | undefined;
+  return row ? Number(row.value) : null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// WRITING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Replace everything stored for [fromBlock, toBlock] and advance the
+ * cursor, in one transaction. Text fetched for posts and comments created
+ * in the range is dropped too: after a reorg the same id can belong to
+ * different content.
+ */
+export function writeRange(db: Db, fromBlock: number, toBlock: number, events: StoredEvent[]) {
+  const dropContent = (table: string, event: string, idArg: string) =>
+    db
+      .prepare(
+        `DELETE FROM ${table} WHERE id IN (
+          SELECT json_extract(args, '$.${idArg}') FROM events
+          WHERE name = ? AND block_number BETWEEN ? AND ?
+        )`
+      )
+      .run(event, fromBlock, toBlock);
+
+  const insert = db.prepare(
+    `INSERT INTO events (block_number, log_index, block_time, tx_hash, name, args)
+     VALUES (@blockNumber, @logIndex, @blockTime, @txHash, @name, @args)`
+  );
+
+  db.transaction(() => {
+    dropContent('post_content', 'PostCreated', 'postId');
+    dropContent('comment_content', 'CommentCreated', 'commentId');
+    db.prepare('DELETE FROM events WHERE block_number BETWEEN ? AND ?').run(fromBlock, toBlock);
+    for (const event of events) {
+      insert.run({ ...event, args: JSON.stringify(event.args) });
+    }
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('lastBlock', String(toBlock));
+  })();
+}
+
+/**
+ * Ids of posts (or comments) whose text hasn't been fetched yet
+ */
+export function missingContent(db: Db, kind: 'post' | 'comment', limit: number): string[] {
+  const [event, idArg] = kind === 'post' ? ['PostCreated', 'postId'] : ['CommentCreated', 'commentId'];
+  const rows = db
+    .prepare(
+      `SELECT json_extract(e.args, '$.${idArg}') AS id FROM events e
+       LEFT JOIN ${kind}_content c ON c.id = json_extract(e.args, '$.${idArg}')
+       WHERE e.name = ? AND c.id IS NULL
+       ORDER BY e.block_number, e.log_index
+       LIMIT ?`
+    )
+    .all(event, limit) as { id: string }[];
+  return rows.map((row) => row.id);
+}
+
+export function savePostContent(
+  db: Db,
+  content: { id: string; title: string; body: string; ipfsCid: string; mimeType: string }
+) {
+  db.prepare(
+    `INSERT OR REPLACE INTO post_content (id, title, body, ipfs_cid, mime_type)
+     VALUES (@id, @title, @body, @ipfsCid, @mimeType)`
+  ).run(content);
+}
+
+export function saveCommentContent(db: Db, content: { id: string; content: string }) {
+  db.prepare('INSERT OR REPLACE INTO comment_content (id, content) VALUES (@id, @content)').run(content);
+}
+
+// ═══════════════════════════════════════════════════════════
+// READING
+// ═══════════════════════════════════════════════════════════
+
+export function toStoredEvent(row: EventRow): StoredEvent {
+  return {
+    name: row.name as StoredEvent['name'],
+    args: JSON.parse(row.args),
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    blockTime: row.block_time,
+    txHash: row.tx_hash,
+  };
+}
+
+/**
+ * Events of the given types whose `arg` is one of `values`, in chain order
+ */
+export function eventsByArg(db: Db, names: string[], arg: string, values: string[]): StoredEvent[] {
+  if (names.length === 0 || values.length === 0) return [];
+  const rows = db
+    .prepare(
+      `SELECT * FROM events
+       WHERE name IN (${names.map(() => '?').join(', ')})
+         AND json_extract(args, '$.${arg}') IN (${values.map(() => '?').join(', ')})
+       ORDER BY block_number, log_index`
+    )
+    .all(...names, ...values) as EventRow[];
+  return rows.map(toStoredEvent);
+}
+
+/**
+ * All events of the given types, in chain order
+ */
+export function eventsByName(db: Db, names: string[]): StoredEvent[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM events WHERE name IN (${names.map(() => '?').join(', ')})
+       ORDER BY block_number, log_index`
+    )
+    .all(...names) as EventRow[];
+  return rows.map(toStoredEvent);
+}
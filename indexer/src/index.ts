@@ -0,0 +1,31 @@
+/**
+ * Bread-it Indexer
+ *
+ * Follows the chain into SQLite and serves the result over HTTP. Optional:
+ * the frontend reads the chain directly when NEXT_PUBLIC_INDEXER_URL isn't
+ * set or this service can't be reached.
+ */
+
+import { config } from './config';
+import { openDb } from './db';
+import { createApiServer } from './server';
+import { follow } from './sync';
+
+const db = openDb();
+const controller = new AbortController();
+
+const server = createApiServer(db);
+server.listen(config.port, () => {
+  console.log(`Bread-it indexer listening on http://localhost:${config.port} (RPC ${config.rpcUrl})`);
+});
+
+const following = follow(db, controller.signal);
+
+const shutdown = async () => {
+  controller.abort();
+  server.close();
+  await following;
+  db.close();
+};
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
@@ -0,0 +1,471 @@
+/**
+ * Read Model for the Bread-it Indexer
+ *
+ * Builds the API's JSON payloads from stored events. Integers are decimal
+ * strings (they can exceed 2^53) and addresses are checksummed, matching
+ * what the contracts return.
+ */
+
+import { decodeBytes32String, getAddress } from 'ethers';
+import { eventsByArg, eventsByName, type Db, type StoredEvent } from './db';
+
+/** BreadItConstants.INITIAL_KARMA: karma before any KarmaUpdated event */
+const INITIAL_KARMA = '1';
+
+/** Events listed in the moderation log */
+const MOD_LOG_EVENTS = [
+  'ContentReported',
+  'ContentFlagged',
+  'ModerationActionTaken',
+  'ReportResolved',
+  'ContentStatusChanged',
+  'KarmaSlashed',
+  'StakeSlashed',
+];
+
+// ═══════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════
+
+export interface PostJson {
+  id: string;
+  subredditId: string;
+  author: string;
+  postType: number;
+  title: string;
+  body: string;
+  ipfsCid: string;
+  mimeType: string;
+  score: string;
+  upvotes: string;
+  downvotes: string;
+  commentCount: string;
+  createdAt: string;
+  status: number;
+}
+
+export interface CommentJson {
+  id: string;
+  postId: string;
+  parentId: string;
+  author: string;
+  content: string;
+  score: string;
+  upvotes: string;
+  downvotes: string;
+  createdAt: string;
+  status: number;
+  /** Every reply, oldest first (as getCommentReplies returns them) */
+  replyIds: string[];
+}
+
+export interface ProfileJson {
+  wallet: string;
+  username: string;
+  registeredAt: string;
+  karma: string;
+  karmaHistory: { oldKarma: string; newKarma: string; reason: string; time: number; txHash: string }[];
+  /** Newest first */
+  postIds: string[];
+  /** Newest first */
+  commentIds: string[];
+  joined: { subredditId: string; time: number }[];
+}
+
+export interface ProposalJson {
+  id: string;
+  subredditId: string;
+  proposalType: number;
+  proposer: string;
+  startTime: string;
+  endTime: string;
+  forVotes: string;
+  againstVotes: string;
+  voterCount: number;
+  executed: boolean;
+  cancelled: boolean;
+}
+
+export interface ModLogEntryJson {
+  event: string;
+  blockNumber: number;
+  time: number;
+  txHash: string;
+  /** Null for entries that aren't about a piece of content */
+  subredditId: string | null;
+  contentId: string | null;
+  isPost: boolean | null;
+  args: StoredEvent['args'];
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+// ═══════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════
+
+function str(event: StoredEvent, arg: string): string {
+  return String(event.args[arg]);
+}
+
+function address(event: StoredEvent, arg: string): string {
+  return getAddress(str(event, arg));
+}
+
+function paginate<T>(items: T[], { offset = 0, limit = 25 }: PageOptions): Page<T> {
+  return { items: items.slice(offset, offset + limit), total: items.length };
+}
+
+/**
+ * Up/down counts per content id, replaying votes and vote changes
+ */
+function voteCounts(db: Db, ids: string[], isPost: boolean) {
+  const counts = new Map<string, { upvotes: number; downvotes: number }>();
+  for (const event of eventsByArg(db, ['Voted', 'VoteChanged'], 'contentId', ids)) {
+    if (event.args.isPost !== isPost) continue;
+    const id = str(event, 'contentId');
+    const entry = counts.get(id) ?? { upvotes: 0, downvotes: 0 };
+    if (event.name === 'Voted') {
+      if (str(event, 'voteType') === '1') entry.upvotes++;
+      else entry.downvotes++;
+    } else {
+      const toUp = str(event, 'newVote') === '1';
+      entry.upvotes += toUp ? 1 : -1;
+      entry.downvotes += toUp ? -1 : 1;
+    }
+    counts.set(id, entry);
+  }
+  return counts;
+}
+
+/**
+ * Current ContentStatus per content id (Visible unless changed)
+ */
+function statuses(db: Db, ids: string[], isPost: boolean) {
+  const result = new Map<string, number>();
+  for (const event of eventsByArg(db, ['ContentStatusChanged'], 'contentId', ids)) {
+    if (event.args.isPost === isPost) result.set(str(event, 'contentId'), Number(event.args.newStatus));
+  }
+  return result;
+}
+
+function withVotes(counts: { upvotes: number; downvotes: number } | undefined) {
+  const { upvotes = 0, downvotes = 0 } = counts ?? {};
+  return { upvotes: String(upvotes), downvotes: String(downvotes), score: String(upvotes - downvotes) };
+}
+
+// ═══════════════════════════════════════════════════════════
+// POSTS
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Full posts for a set of PostCreated events. Posts whose text hasn't been
+ * fetched yet are left out.
+ */
+function hydratePosts(db: Db, created: StoredEvent[]): PostJson[] {
+  const ids = created.map((event) => str(event, 'postId'));
+  if (ids.length === 0) return [];
+
+  const placeholders = ids.map(() => '?').join(', ');
+  const contents = new Map(
+    (
+      db.prepare(`SELECT * FROM post_content WHERE id IN (${placeholders})`).all(...ids) as {
+        id: string;
+        title: string;
+        body: string;
+        ipfs_cid: string;
+        mime_type: string;
+      }[]
+    ).map((row) => [row.id, row])
+  );
+  const commentCounts = new Map(
+    (
+      db
+        .prepare(
+          `SELECT json_extract(args, '$.postId') AS id, COUNT(*) AS count FROM events
+           WHERE name = 'CommentCreated' AND json_extract(args, '$.postId') IN (${placeholders})
+           GROUP BY id`
+        )
+        .all(...ids) as { id: string; count: number }[]
+    ).map((row) => [row.id, row.count])
+  );
+  const votes = voteCounts(db, ids, true);
+  const status = statuses(db, ids, true);
+
+  const posts: PostJson[] = [];
+  for (const event of created) {
+    const id = str(event, 'postId');
+    const content = contents.get(id);
+    if (!content) continue;
+    posts.push({
+      id,
+      subredditId: str(event, 'subredditId'),
+      author: address(event, 'author'),
+      postType: Number(event.args.postType),
+      title: content.title,
+      body: content.body,
+      ipfsCid: content.ipfs_cid,
+      mimeType: content.mime_type,
+      ...withVotes(votes.get(id)),
+      commentCount: String(commentCounts.get(id) ?? 0),
+      createdAt: str(event, 'timestamp'),
+      status: status.get(id) ?? 0,
+    });
+  }
+  return posts;
+}
+
+/**
+ * Posts by id, in the order requested
+ */
+export function getPosts(db: Db, ids: string[]): PostJson[] {
+  const posts = new Map(
+    hydratePosts(db, eventsByArg(db, ['PostCreated'], 'postId', ids)).map((post) => [post.id, post])
+  );
+  return ids.flatMap((id) => posts.get(id) ?? []);
+}
+
+/**
+ * Posts newest first, optionally limited to one community or author
+ */
+export function listPosts(
+  db: Db,
+  { subredditId, author, ...page }: PageOptions & { subredditId?: string; author?: string }
+): Page<PostJson> {
+  const created = subredditId
+    ? eventsByArg(db, ['PostCreated'], 'subredditId', [subredditId])
+    : author
+      ? eventsByArg(db, ['PostCreated'], 'author', [author.toLowerCase()])
+      : eventsByName(db, ['PostCreated']);
+  const { items, total } = paginate(created.reverse(), page);
+  return { items: hydratePosts(db, items), total };
+}
+
+// ═══════════════════════════════════════════════════════════
+// COMMENTS
+// ═══════════════════════════════════════════════════════════
+
+function hydrateComments(db: Db, created: StoredEvent[]): CommentJson[] {
+  const ids = created.map((event) => str(event, 'commentId'));
+  if (ids.length === 0) return [];
+
+  const contents = new Map(
+    (
+      db
+        .prepare(`SELECT * FROM comment_content WHERE id IN (${ids.map(() => '?').join(', ')})`)
+        .all(...ids) as { id: string; content: string }[]
+    ).map((row) => [row.id, row.content])
+  );
+  const replies = new Map<string, string[]>();
+  for (const reply of eventsByArg(db, ['CommentCreated'], 'parentId', ids)) {
+    const parentId = str(reply, 'parentId');
+    replies.set(parentId, [...(replies.get(parentId) ?? []), str(reply, 'commentId')]);
+  }
+  const votes = voteCounts(db, ids, false);
+  const status = statuses(db, ids, false);
+
+  const comments: CommentJson[] = [];
+  for (const event of created) {
+    const id = str(event, 'commentId');
+    const content = contents.get(id);
+    if (content === undefined) continue;
+    comments.push({
+      id,
+      postId: str(event, 'postId'),
+      parentId: str(event, 'parentId'),
+      author: address(event, 'author'),
+      content,
+      ...withVotes(votes.get(id)),
+      createdAt: str(event, 'timestamp'),
+      status: status.get(id) ?? 0,
+      replyIds: replies.get(id) ?? [],
+    });
+  }
+  return comments;
+}
+
+/**
+ * Comments by id, in the order requested
+ */
+export function getComments(db: Db, ids: string[]): CommentJson[] {
+  const comments = new Map(
+    hydrateComments(db, eventsByArg(db, ['CommentCreated'], 'commentId', ids)).map((c) => [c.id, c])
+  );
+  return ids.flatMap((id) => comments.get(id) ?? []);
+}
+
+/**
+ * Every comment on a post, oldest first
+ */
+export function listPostComments(db: Db, postId: string): CommentJson[] {
+  return hydrateComments(db, eventsByArg(db, ['CommentCreated'], 'postId', [postId]));
+}
+
+// ═══════════════════════════════════════════════════════════
+// PROFILES
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * A registered user's profile and activity, or null if they never registered
+ */
+export function getProfile(db: Db, wallet: string): ProfileJson | null {
+  const key = wallet.toLowerCase();
+  const [registered] = eventsByArg(db, ['UserRegistered'], 'wallet', [key]);
+  if (!registered) return null;
+
+  const karmaHistory = eventsByArg(db, ['KarmaUpdated'], 'wallet', [key]).map((event) => ({
+    oldKarma: str(event, 'oldKarma'),
+    newKarma: str(event, 'newKarma'),
+    reason: str(event, 'reason'),
+    time: event.blockTime,
+    txHash: event.txHash,
+  }));
+
+  return {
+    wallet: getAddress(key),
+    username: decodeBytes32String(str(registered, 'username')),
+    registeredAt: str(registered, 'timestamp'),
+    karma: karmaHistory.at(-1)?.newKarma ?? INITIAL_KARMA,
+    karmaHistory,
+    postIds: eventsByArg(db, ['PostCreated'], 'author', [key])
+      .map((event) => str(event, 'postId'))
+      .reverse(),
+    commentIds: eventsByArg(db, ['CommentCreated'], 'author', [key])
+      .map((event) => str(event, 'commentId'))
+      .reverse(),
+    joined: eventsByName(db, ['MemberJoined'])
+      .filter((event) => event.args.member === key)
+      .map((event) => ({ subredditId: str(event, 'subredditId'), time: event.blockTime })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// GOVERNANCE
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Proposals newest first, optionally limited to one community
+ */
+export function listProposals(
+  db: Db,
+  { subredditId, ...page }: PageOptions & { subredditId?: string }
+): Page<ProposalJson> {
+  const created = subredditId
+    ? eventsByArg(db, ['ProposalCreated'], 'subredditId', [subredditId])
+    : eventsByName(db, ['ProposalCreated']);
+  const { items, total } = paginate(created.reverse(), page);
+
+  const ids = items.map((event) => str(event, 'proposalId'));
+  const outcomes = eventsByArg(db, ['ProposalVoted', 'ProposalExecuted', 'ProposalCancelled'], 'proposalId', ids);
+
+  return {
+    total,
+    items: items.map((event) => {
+      const id = str(event, 'proposalId');
+      const related = outcomes.filter((outcome) => outcome.args.proposalId === id);
+      const votes = related.filter((outcome) => outcome.name === 'ProposalVoted');
+      const weight = (support: boolean) =>
+        votes
+          .filter((vote) => vote.args.support === support)
+          .reduce((sum, vote) => sum + BigInt(str(vote, 'weight')), 0n)
+          .toString();
+
+      return {
+        id,
+        subredditId: str(event, 'subredditId'),
+        proposalType: Number(event.args.proposalType),
+        proposer: address(event, 'proposer'),
+        startTime: str(event, 'startTime'),
+        endTime: str(event, 'endTime'),
+        forVotes: weight(true),
+        againstVotes: weight(false),
+        voterCount: votes.length,
+        executed: related.some((outcome) => outcome.name === 'ProposalExecuted'),
+        cancelled: related.some((outcome) => outcome.name === 'ProposalCancelled'),
+      };
+    }),
+  };
+}
+
+/**
+ * Votes cast on a proposal, oldest first
+ */
+export function listProposalVotes(db: Db, proposalId: string) {
+  return eventsByArg(db, ['ProposalVoted'], 'proposalId', [proposalId]).map((event) => ({
+    voter: address(event, 'voter'),
+    support: event.args.support === true,
+    weight: str(event, 'weight'),
+    time: event.blockTime,
+    txHash: event.txHash,
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════
+// MODERATION
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Moderation events newest first, each tied to the content and community it
+ * concerns where there is one
+ */
+export function listModLog(
+  db: Db,
+  { subredditId, ...page }: PageOptions & { subredditId?: string }
+): Page<ModLogEntryJson> {
+  const events = eventsByName(db, MOD_LOG_EVENTS);
+
+  // ReportResolved only names the report
+  const reported = new Map<string, { contentId: string; isPost: boolean }>();
+  for (const event of events) {
+    if (event.name === 'ContentReported') {
+      reported.set(str(event, 'reportId'), { contentId: str(event, 'contentId'), isPost: event.args.isPost === true });
+    }
+  }
+  const contentOf = (event: StoredEvent) =>
+    event.name === 'ReportResolved'
+      ? (reported.get(str(event, 'reportId')) ?? null)
+      : event.args.contentId !== undefined
+        ? { contentId: str(event, 'contentId'), isPost: event.args.isPost === true }
+        : null;
+
+  // Content → community, through the comment's post where needed
+  const targets = events.map(contentOf);
+  const commentIds = [...new Set(targets.filter((t) => t && !t.isPost).map((t) => t!.contentId))];
+  const commentPosts = new Map(
+    eventsByArg(db, ['CommentCreated'], 'commentId', commentIds).map((e) => [str(e, 'commentId'), str(e, 'postId')])
+  );
+  const postIds = [
+    ...new Set(
+      targets.flatMap((t) => (!t ? [] : t.isPost ? [t.contentId] : (commentPosts.get(t.contentId) ?? [])))
+    ),
+  ];
+  const postSubreddits = new Map(
+    eventsByArg(db, ['PostCreated'], 'postId', postIds).map((e) => [str(e, 'postId'), str(e, 'subredditId')])
+  );
+
+  const entries: ModLogEntryJson[] = events.map((event, i) => {
+    const target = targets[i];
+    const postId = target ? (target.isPost ? target.contentId : commentPosts.get(target.contentId)) : undefined;
+    return {
+      event: event.name,
+      blockNumber: event.blockNumber,
+      time: event.blockTime,
+      txHash: event.txHash,
+      subredditId: (postId && postSubreddits.get(postId)) ?? null,
+      contentId: target?.contentId ?? null,
+      isPost: target?.isPost ?? null,
+      args: event.args,
+    };
+  });
+
+  const filtered = subredditId ? entries.filter((entry) => entry.subredditId === subredditId) : entries;
+  return paginate(filtered.reverse(), page);
+}
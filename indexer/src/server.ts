@@ -0,0 +1,175 @@
+/**
+ * HTTP API for the Bread-it Indexer
+ *
+ * Read-only JSON endpoints over the indexed events:
+ *
+ *   GET /status
+ *   GET /posts?ids=1,2 | ?subredditId= | ?author= [&offset=&limit=]
+ *   GET /posts/:id
+ *   GET /posts/:id/comments
+ *   GET /comments?ids=1,2
+ *   GET /users/:address
+ *   GET /proposals[?subredditId=][&offset=&limit=]
+ *   GET /proposals/:id/votes
+ *   GET /modlog[?subredditId=][&offset=&limit=]
+ */
+
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import { isAddress } from 'ethers';
+import { config } from './config';
+import type { Db } from './db';
+import {
+  getComments,
+  getPosts,
+  getProfile,
+  listModLog,
+  listPostComments,
+  listPosts,
+  listProposals,
+  listProposalVotes,
+} from './queries';
+import { syncStatus } from './sync';
+
+/** Largest page and id list a request may ask for */
+const MAX_ITEMS = 100;
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// PARAMETERS
+// ═══════════════════════════════════════════════════════════
+
+function idParam(value: string | null | undefined, name: string): string {
+  if (!value || !/^\d+$/.test(value)) throw new HttpError(400, `${name} must be a non-negative integer`);
+  return BigInt(value).toString();
+}
+
+function idList(value: string | null): string[] {
+  const ids = (value ?? '').split(',').filter(Boolean).map((id) => idParam(id, 'ids'));
+  if (ids.length > MAX_ITEMS) throw new HttpError(400, `At most ${MAX_ITEMS} ids per request`);
+  return ids;
+}
+
+function pageParams(params: URLSearchParams) {
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = Number(params.get('limit') ?? 25);
+  if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, 'offset must be a non-negative integer');
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ITEMS) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_ITEMS}`);
+  }
+  return { offset, limit };
+}
+
+function optionalId(params: URLSearchParams, name: string): string | undefined {
+  return params.has(name) ? idParam(params.get(name), name) : undefined;
+}
+
+// ═══════════════════════════════════════════════════════════
+// ROUTING
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Resolve a request path to its response body
+ */
+function route(db: Db, url: URL): unknown {
+  const params = url.searchParams;
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  switch (parts[0]) {
+    case 'status':
+      return syncStatus;
+
+    case 'posts':
+      if (parts.length === 1) {
+        if (params.has('ids')) return { items: getPosts(db, idList(params.get('ids'))) };
+        const author = params.get('author') ?? undefined;
+        if (author !== undefined && !isAddress(author)) throw new HttpError(400, 'author must be an address');
+        return listPosts(db, { ...pageParams(params), subredditId: optionalId(params, 'subredditId'), author });
+      }
+      if (parts.length === 2) {
+        const [post] = getPosts(db, [idParam(parts[1], 'post id')]);
+        if (!post) throw new HttpError(404, 'Post not indexed');
+        return post;
+      }
+      if (parts.length === 3 && parts[2] === 'comments') {
+        return { items: listPostComments(db, idParam(parts[1], 'post id')) };
+      }
+      break;
+
+    case 'comments':
+      if (parts.length === 1) return { items: getComments(db, idList(params.get('ids'))) };
+      break;
+
+    case 'users':
+      if (parts.length === 2) {
+        if (!isAddress(parts[1])) throw new HttpError(400, 'Not an address');
+        const profile = getProfile(db, parts[1]);
+        if (!profile) throw new HttpError(404, 'User not registered');
+        return profile;
+      }
+      break;
+
+    case 'proposals':
+      if (parts.length === 1) {
+        return listProposals(db, { ...pageParams(params), subredditId: optionalId(params, 'subredditId') });
+      }
+      if (parts.length === 3 && parts[2] === 'votes') {
+        return { items: listProposalVotes(db, idParam(parts[1], 'proposal id')) };
+      }
+      break;
+
+    case 'modlog':
+      if (parts.length === 1) {
+        return listModLog(db, { ...pageParams(params), subredditId: optionalId(params, 'subredditId') });
+      }
+      break;
+  }
+
+  throw new HttpError(404, 'Not found');
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': config.corsOrigin,
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create the API server (not yet listening)
+ */
+export function createApiServer(db: Db): Server {
+  return createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': config.corsOrigin,
+        'Access-Control-Allow-Methods': 'GET',
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    try {
+      send(res, 200, route(db, new URL(req.url ?? '/', 'http://localhost')));
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(res, err.status, { error: err.message });
+      } else {
+        console.error('Request failed:', err);
+        send(res, 500, { error: 'Internal error' });
+      }
+    }
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Indexed Contracts for Bread-it
+ *
+ * Which events are stored, decoded with the frontend's own ABIs so the two
+ * can't disagree about an event's shape.
+ */
+
+import { Interface, type Log } from 'ethers';
+import {
+  UserRegistryABI,
+  SubredditDAOABI,
+  PostManagerABI,
+  VotingABI,
+  ModerationABI,
+  GovernanceABI,
+} from '../../frontend/src/config/abis';
+import { config } from './config';
+
+// ═══════════════════════════════════════════════════════════
+// SOURCES
+// ═══════════════════════════════════════════════════════════
+
+const SOURCES = [
+  { address: config.contracts.UserRegistry, abi: UserRegistryABI, events: ['UserRegistered', 'KarmaUpdated'] },
+  { address: config.contracts.SubredditDAO, abi: SubredditDAOABI, events: ['SubredditCreated', 'MemberJoined'] },
+  {
+    address: config.contracts.PostManager,
+    abi: PostManagerABI,
+    events: ['PostCreated', 'CommentCreated', 'ContentStatusChanged'],
+  },
+  { address: config.contracts.Voting, abi: VotingABI, events: ['Voted', 'VoteChanged', 'StakeWithdrawn', 'StakeSlashed'] },
+  {
+    address: config.contracts.Moderation,
+    abi: ModerationABI,
+    events: ['ContentReported', 'ModerationActionTaken', 'ReportResolved', 'ContentFlagged', 'KarmaSlashed'],
+  },
+  {
+    address: config.contracts.Governance,
+    abi: GovernanceABI,
+    events: ['ProposalCreated', 'ProposalVoted', 'ProposalExecuted', 'ProposalCancelled'],
+  },
+] as const;
+
+export type IndexedEvent = (typeof SOURCES)[number]['events'][number];
+
+/** Interfaces by lowercased contract address */
+const interfaces = new Map(
+  SOURCES.map((source) => [source.address.toLowerCase(), new Interface(source.abi)] as const)
+);
+
+export const ADDRESSES = SOURCES.map((source) => source.address);
+
+export const TOPICS = SOURCES.flatMap((source) => {
+  const iface = interfaces.get(source.address.toLowerCase())!;
+  return source.events.map((name) => iface.getEvent(name)!.topicHash);
+});
+
+// ═══════════════════════════════════════════════════════════
+// DECODING
+// ═══════════════════════════════════════════════════════════
+
+/** Event arguments as stored: integers as decimal strings, addresses lowercased */
+export type EventArgs = Record<string, string | boolean>;
+
+export interface DecodedEvent {
+  name: IndexedEvent;
+  args: EventArgs;
+}
+
+/**
+ * Decode a log from one of the indexed contracts, or null if it isn't one
+ * of the indexed events
+ */
+export function decodeLog(log: Log): DecodedEvent | null {
+  const parsed = interfaces.get(log.address.toLowerCase())?.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const args: EventArgs = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value: unknown = parsed.args[i];
+    if (typeof value === 'boolean') args[input.name] = value;
+    else if (input.type === 'address') args[input.name] = String(value).toLowerCase();
+    else args[input.name] = String(value);
+  });
+
+  return { name: parsed.name as IndexedEvent, args };
+}
@@ -0,0 +1,117 @@
+import { Contract, Interface, JsonRpcProvider, encodeBytes32String, hexlify, toUtf8Bytes, type Log } from 'ethers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PostManagerABI, VotingABI } from '../../frontend/src/config/abis';
+import { config } from './config';
+import { getLastBlock, openDb, type Db } from './db';
+import { getComments, getPosts } from './queries';
+import { syncOnce } from './sync';
+
+const AUTHOR = '0x00000000000000000000000000000000000000a1';
+const VOTER = '0x00000000000000000000000000000000000000b2';
+
+const postManagerInterface = new Interface(PostManagerABI);
+const votingInterface = new Interface(VotingABI);
+
+/**
+ * An in-memory chain answering the provider calls sync makes
+ */
+function fakeChain() {
+  const blocks = new Map<number, Log[]>();
+  let head = 0;
+
+  const emit = (blockNumber: number, address: string, iface: Interface, event: string, args: unknown[]) => {
+    const { topics, data } = iface.encodeEventLog(event, args);
+    const logs = blocks.get(blockNumber) ?? [];
+    logs.push({
+      address,
+      topics,
+      data,
+      blockNumber,
+      index: logs.length,
+      transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    } as unknown as Log);
+    blocks.set(blockNumber, logs);
+    head = Math.max(head, blockNumber);
+  };
+
+  const provider = {
+    getBlockNumber: async () => head,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      [...blocks.entries()].filter(([n]) => n >= fromBlock && n <= toBlock).flatMap(([, logs]) => logs),
+    getBlock: async (n: number) => ({ number: n, timestamp: 1_700_000_000 + n }),
+  } as unknown as JsonRpcProvider;
+
+  const postManager = {
+    getPost: async () => ({
+      title: hexlify(toUtf8Bytes('Fresh bread')),
+      body: hexlify(toUtf8Bytes('Just baked')),
+      ipfsCid: '0x',
+      mimeType: encodeBytes32String(''),
+    }),
+    getComment: async () => ({ content: hexlify(toUtf8Bytes('Looks great')) }),
+  } as unknown as Contract;
+
+  return {
+    provider,
+    postManager,
+    post: (block: number, postId: bigint) =>
+      emit(block, config.contracts.PostManager, postManagerInterface, 'PostCreated', [postId, 1n, AUTHOR, 0, 1000n]),
+    comment: (block: number, commentId: bigint, postId: bigint) =>
+      emit(block, config.contracts.PostManager, postManagerInterface, 'CommentCreated', [
+        commentId,
+        postId,
+        0n,
+        AUTHOR,
+        1001n,
+      ]),
+    vote: (block: number, postId: bigint, voteType: 1 | 2) =>
+      emit(block, config.contracts.Voting, votingInterface, 'Voted', [postId, true, VOTER, voteType, 0n, 1002n]),
+    reorg: (block: number) => blocks.delete(block),
+  };
+}
+
+describe('syncOnce', () => {
+  let db: Db;
+  let chain: ReturnType<typeof fakeChain>;
+
+  beforeEach(() => {
+    db = openDb(':memory:');
+    chain = fakeChain();
+  });
+
+  it('indexes posts, comments and votes with their text', async () => {
+    chain.post(10, 1n);
+    chain.comment(11, 1n, 1n);
+    chain.vote(12, 1n, 1);
+
+    await syncOnce(db, chain.provider, chain.postManager);
+
+    expect(getLastBlock(db)).toBe(12);
+    expect(getPosts(db, ['1'])).toMatchObject([
+      { id: '1', title: 'Fresh bread', body: 'Just baked', upvotes: '1', downvotes: '0', commentCount: '1' },
+    ]);
+    expect(getComments(db, ['1'])).toMatchObject([{ id: '1', postId: '1', content: 'Looks great' }]);
+  });
+
+  it('replaces events from reorged blocks', async () => {
+    chain.post(10, 1n);
+    chain.vote(12, 1n, 1);
+    await syncOnce(db, chain.provider, chain.postManager);
+
+    chain.reorg(12);
+    chain.vote(12, 1n, 2);
+    chain.vote(13, 1n, 2);
+    await syncOnce(db, chain.provider, chain.postManager);
+
+    expect(getPosts(db, ['1'])).toMatchObject([{ upvotes: '0', downvotes: '2', score: '-2' }]);
+  });
+
+  it('stops without writing once the signal has aborted', async () => {
+    chain.post(10, 1n);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(syncOnce(db, chain.provider, chain.postManager, controller.signal)).rejects.toThrow();
+    expect(getLastBlock(db)).toBeNull();
+  });
+});
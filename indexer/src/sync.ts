@@ -0,0 +1,194 @@
+/**
+ * Chain Follower for the Bread-it Indexer
+ *
+ * Backfills from the deployment block in chunked eth_getLogs reads, then
+ * keeps polling the head. Each pass starts `reorgDepth` blocks behind the
+ * cursor and replaces what was stored for those blocks, so events from
+ * orphaned blocks are dropped. Post and comment text is fetched after the
+ * events that created them are stored.
+ */
+
+import { Contract, JsonRpcProvider, decodeBytes32String, toUtf8String, type Log } from 'ethers';
+import { PostManagerABI } from '../../frontend/src/config/abis';
+import { config } from './config';
+import {
+  getLastBlock,
+  missingContent,
+  saveCommentContent,
+  savePostContent,
+  writeRange,
+  type Db,
+  type StoredEvent,
+} from './db';
+import { ADDRESSES, TOPICS, decodeLog } from './sources';
+
+/** Chunks fetched (and stored) per transaction */
+const CHUNKS_PER_BATCH = 20;
+
+/** Concurrent requests for logs, block times and content */
+const CONCURRENCY = 4;
+
+/** Post and comment texts fetched per pass */
+const CONTENT_PER_PASS = 200;
+
+// ═══════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════
+
+async function inBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += CONCURRENCY) {
+    results.push(...(await Promise.all(items.slice(i, i + CONCURRENCY).map(fn))));
+  }
+  return results;
+}
+
+/**
+ * Wait `ms`, or less if the signal aborts first
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function decodeText(bytes: string): string {
+  try {
+    return toUtf8String(bytes);
+  } catch {
+    return '';
+  }
+}
+
+function decodeBytes32(bytes32: string): string {
+  try {
+    return decodeBytes32String(bytes32);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Fetch and decode the indexed events in [fromBlock, toBlock]
+ */
+async function fetchEvents(provider: JsonRpcProvider, fromBlock: number, toBlock: number): Promise<StoredEvent[]> {
+  const ranges: [number, number][] = [];
+  for (let start = fromBlock; start <= toBlock; start += config.logChunkSize) {
+    ranges.push([start, Math.min(start + config.logChunkSize - 1, toBlock)]);
+  }
+  const logs: Log[] = (
+    await inBatches(ranges, ([from, to]) =>
+      provider.getLogs({ address: ADDRESSES, topics: [TOPICS], fromBlock: from, toBlock: to })
+    )
+  ).flat();
+
+  // Not every event carries a timestamp; the block's is stored for all
+  const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+  const blocks = await inBatches(blockNumbers, (n) => provider.getBlock(n));
+  const blockTimes = new Map(blocks.filter((b) => b !== null).map((b) => [b.number, b.timestamp]));
+
+  const events: StoredEvent[] = [];
+  for (const log of logs) {
+    const decoded = decodeLog(log);
+    if (!decoded) continue;
+    events.push({
+      ...decoded,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      blockTime: blockTimes.get(log.blockNumber) ?? 0,
+      txHash: log.transactionHash,
+    });
+  }
+  return events;
+}
+
+/**
+ * Fetch text for posts and comments created since the last pass
+ */
+async function fetchContent(db: Db, postManager: Contract) {
+  await inBatches(missingContent(db, 'post', CONTENT_PER_PASS), async (id) => {
+    const post = await postManager.getPost(id);
+    savePostContent(db, {
+      id,
+      title: decodeText(post.title),
+      body: decodeText(post.body),
+      ipfsCid: decodeText(post.ipfsCid),
+      mimeType: decodeBytes32(post.mimeType),
+    });
+  });
+  await inBatches(missingContent(db, 'comment', CONTENT_PER_PASS), async (id) => {
+    const comment = await postManager.getComment(id);
+    saveCommentContent(db, { id, content: decodeText(comment.content) });
+  });
+}
+
+// ═══════════════════════════════════════════════════════════
+// SYNC
+// ═══════════════════════════════════════════════════════════
+
+export interface SyncStatus {
+  lastBlock: number | null;
+  headBlock: number | null;
+}
+
+/** Progress of the running follower, served by /status */
+export const syncStatus: SyncStatus = { lastBlock: null, headBlock: null };
+
+/**
+ * Bring the database up to the current head. An aborted signal stops the
+ * pass between batches; whatever was written stays consistent.
+ */
+export async function syncOnce(
+  db: Db,
+  provider: JsonRpcProvider,
+  postManager: Contract,
+  signal: AbortSignal = new AbortController().signal
+) {
+  const headBlock = await provider.getBlockNumber();
+  syncStatus.headBlock = headBlock;
+
+  const lastBlock = getLastBlock(db);
+  let fromBlock =
+    lastBlock === null
+      ? config.deploymentBlock
+      : Math.max(config.deploymentBlock, lastBlock - config.reorgDepth + 1);
+
+  while (fromBlock <= headBlock) {
+    signal.throwIfAborted();
+    const toBlock = Math.min(fromBlock + config.logChunkSize * CHUNKS_PER_BATCH - 1, headBlock);
+    writeRange(db, fromBlock, toBlock, await fetchEvents(provider, fromBlock, toBlock));
+    syncStatus.lastBlock = toBlock;
+    console.log(`Indexed blocks ${fromBlock}-${toBlock} of ${headBlock}`);
+    fromBlock = toBlock + 1;
+  }
+
+  signal.throwIfAborted();
+  await fetchContent(db, postManager);
+}
+
+/**
+ * Follow the chain until the signal aborts. Failed passes are retried on
+ * the next poll.
+ */
+export async function follow(db: Db, signal: AbortSignal) {
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const postManager = new Contract(config.contracts.PostManager, PostManagerABI, provider);
+  syncStatus.lastBlock = getLastBlock(db);
+
+  while (!signal.aborted) {
+    try {
+      await syncOnce(db, provider, postManager, signal);
+    } catch (err) {
+      if (!signal.aborted) console.error('Sync failed:', err);
+    }
+    await sleep(config.pollIntervalMs, signal);
+  }
+
+  provider.destroy();
+}